@@ -0,0 +1,157 @@
+/**
+ * Command-line batch renderer
+ *
+ * Renders a .spritebat project without a browser, through the same project
+ * loader, compositing and export builders as the Export bar — so a build
+ * pipeline can regenerate sheets from committed project files:
+ *
+ *   npm run render -- hero.spritebat --sheet --gifs --scale 2 --out build/sprites
+ *
+ * Canvas drawing comes from @napi-rs/canvas, plugged in with
+ * setSurfaceFactory(). Invalid arguments or projects exit with status 1 and a
+ * message on stderr.
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import type { Layer, PlaybackMode } from '../src/types';
+import { ColorShiftCache } from '../src/colorShift';
+import { renderFullSheet } from '../src/compositing';
+import { SCALE_OPTIONS, fileSafe, scaleSuffix, scaleSurface, buildFramesZip, buildGifsZip } from '../src/exporting';
+import type { LoadedProject } from '../src/project';
+import { loadProject } from '../src/project';
+import { setSurfaceFactory, surfaceToPng } from '../src/surface';
+
+const USAGE = `Usage: npm run render -- <project.spritebat> [options]
+
+Outputs (default: --sheet)
+  --sheet               sprite-sheet.png with every animation
+  --frames              frames.zip: one PNG per frame plus animations.json
+  --gifs                gifs.zip: one GIF per animation and direction
+
+Options
+  --out <dir>           output folder (default: current folder)
+  --scale <1-4>         nearest-neighbour scale (default: 1)
+  --animation <name>    sheet of just this animation, as <name>-sheet.png
+  --mode <mode>         GIF playback: forward, reverse or pingpong (default: the project's)
+  --fps <n>             rate for frames without their own duration (default: the project's)
+  --layers <names>      comma-separated layer names or ids to render (default: all visible)
+  -h, --help            show this help`;
+
+const PLAYBACK_MODES: PlaybackMode[] = ['forward', 'reverse', 'pingpong'];
+
+// napi-rs canvases and images implement everything the renderer calls on
+// OffscreenCanvas and HTMLImageElement; the casts only satisfy the DOM types.
+setSurfaceFactory((width, height) => createCanvas(width, height) as unknown as OffscreenCanvas);
+
+async function decodePng(png: Uint8Array) {
+  const image = await loadImage(Buffer.from(png));
+  // No object URL outside the browser — nothing to revoke later
+  return { image: image as unknown as HTMLImageElement, objectUrl: '' };
+}
+
+/** The layers to render: the named ones (shown even if hidden), or the visible stack. */
+function pickLayers(layers: Layer[], names: string | undefined): Layer[] {
+  if (names === undefined) return layers;
+  const wanted = names.split(',').map(n => n.trim()).filter(Boolean);
+  const unknown = wanted.filter(n => !layers.some(l => l.id === n || l.name === n));
+  if (unknown.length) {
+    throw new Error(`No layer named ${unknown.map(n => `"${n}"`).join(', ')} — layers in this project: ${layers.map(l => `"${l.name}"`).join(', ')}`);
+  }
+  return layers
+    .filter(l => wanted.includes(l.id) || wanted.includes(l.name))
+    .map(l => ({ ...l, visible: true }));
+}
+
+async function readProject(path: string): Promise<LoadedProject> {
+  let bytes: Uint8Array;
+  try {
+    bytes = await readFile(path);
+  } catch {
+    throw new Error(`Cannot read ${path}`);
+  }
+  try {
+    return await loadProject(bytes, decodePng);
+  } catch (e) {
+    throw new Error(`${path}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+async function main(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      sheet:     { type: 'boolean' },
+      frames:    { type: 'boolean' },
+      gifs:      { type: 'boolean' },
+      out:       { type: 'string', default: '.' },
+      scale:     { type: 'string', default: '1' },
+      animation: { type: 'string' },
+      mode:      { type: 'string' },
+      fps:       { type: 'string' },
+      layers:    { type: 'string' },
+      help:      { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (positionals.length !== 1) throw new Error(`Expected one project file\n\n${USAGE}`);
+
+  const scale = Number(values.scale);
+  if (!SCALE_OPTIONS.some(s => s === scale)) throw new Error(`--scale must be one of ${SCALE_OPTIONS.join(', ')}`);
+  const mode = values.mode as PlaybackMode | undefined;
+  if (mode !== undefined && !PLAYBACK_MODES.includes(mode)) throw new Error(`--mode must be one of ${PLAYBACK_MODES.join(', ')}`);
+  const fpsArg = values.fps === undefined ? undefined : Number(values.fps);
+  if (fpsArg !== undefined && !(fpsArg > 0)) throw new Error('--fps must be a positive number');
+
+  const project = await readProject(positionals[0]);
+  const { config } = project;
+  const layers = pickLayers(project.layers, values.layers);
+  if (!layers.some(l => l.visible && l.image)) throw new Error('Nothing to render: no visible layer has an image');
+
+  let animIndex: number | undefined;
+  if (values.animation !== undefined) {
+    animIndex = config.animations.findIndex(a => a.name === values.animation || a.id === values.animation);
+    if (animIndex < 0) {
+      throw new Error(`No animation named "${values.animation}" — animations: ${config.animations.map(a => `"${a.name}"`).join(', ')}`);
+    }
+  }
+
+  const fps = fpsArg ?? project.ui.previewFps;
+  const playback = mode ?? project.ui.previewMode;
+  const suffix = scaleSuffix(scale);
+  const cache = new ColorShiftCache();
+  const wantSheet = values.sheet || (!values.frames && !values.gifs);
+
+  await mkdir(values.out, { recursive: true });
+  const write = async (name: string, bytes: Uint8Array) => {
+    const path = join(values.out, name);
+    await writeFile(path, bytes);
+    console.log(path);
+  };
+
+  if (wantSheet) {
+    const sheet = scaleSurface(renderFullSheet(layers, config, cache, animIndex), scale);
+    const name = animIndex === undefined ? 'sprite-sheet' : `${fileSafe(config.animations[animIndex].name)}-sheet`;
+    await write(`${name}${suffix}.png`, await surfaceToPng(sheet));
+  }
+  if (values.frames) {
+    const zip = await buildFramesZip(layers, config, cache, scale, fps);
+    await write(`frames${suffix}.zip`, await zip.generateAsync({ type: 'uint8array' }));
+  }
+  if (values.gifs) {
+    const zip = buildGifsZip(layers, config, cache, scale, fps, playback);
+    await write(`gifs${suffix}.zip`, await zip.generateAsync({ type: 'uint8array' }));
+  }
+}
+
+main(process.argv.slice(2)).catch(e => {
+  console.error(`spritebat: ${e instanceof Error ? e.message : String(e)}`);
+  process.exitCode = 1;
+});
@@ -1,11 +1,16 @@
 import { useReducer, useEffect, useRef, useState, useCallback } from 'react';
-import { initialState } from './state';
+import { initialState, normalizeConfig } from './state';
 import { loadPersistedState, savePersistedState } from './persist';
 import { saveProject, loadProject } from './project';
+import type { LoadedProject } from './project';
+import { listAutosaves, readAutosave, deleteAutosave, SESSION_ID } from './autosave';
+import type { AutosaveEntry } from './autosave';
 import { undoRedoReducer, buildUndoRedoState } from './undoRedo';
 import type { UndoRedoAction } from './undoRedo';
 import type { AppState } from './types';
+import { timelineLength } from './types';
 import { ColorShiftCache } from './colorShift';
+import { RenderPool } from './renderPool';
 import { LayersPanel, LayerProperties } from './components/LayersPanel';
 import { MainCanvas } from './components/MainCanvas';
 import { AssetSplitter } from './components/AssetSplitter';
@@ -15,25 +20,46 @@ import { ExportBar } from './components/ExportBar';
 import { LibraryTab } from './components/LibraryTab';
 import { useRegisterSW } from 'virtual:pwa-register/react';
 import { useIsMobile } from './hooks/useIsMobile';
+import { useAutosave } from './hooks/useAutosave';
+import { AutosaveModal } from './components/AutosaveModal';
 import batEmojiUrl from '/bat-emoji.png?url';
 import tutorialUrl from '/tutorial-character.spritebat?url';
 
 // Global color shift cache — persists across renders
 const globalCache = new ColorShiftCache();
 
+// Recolouring and sheet rendering run in workers where the browser allows it;
+// otherwise everything renders inline as before
+function createRenderPool(): RenderPool | null {
+  if (!RenderPool.supported()) return null;
+  try {
+    return new RenderPool();
+  } catch {
+    return null;
+  }
+}
+const renderPool = createRenderPool();
+globalCache.setShifter(renderPool);
+
 // Merge persisted prefs over the hardcoded initialState so the user's
 // last config survives a page refresh or Vite HMR full-reload.
+// Layers and library come back through the autosave restore offer instead —
+// IndexedDB is async, so that happens after the first render (see App).
 function buildInitialState(): AppState {
   const saved = loadPersistedState();
+  // Configs persisted before animations existed still carry framesPerDirection
+  const config = saved.config ? normalizeConfig(saved.config) : initialState.config;
   return {
     ...initialState,
-    ...(saved.config       && { config:       saved.config }),
+    config,
+    previewAnimation: config.animations[0].id,
     ...(saved.previewMode  && { previewMode:  saved.previewMode }),
     ...(saved.previewFps   && { previewFps:   saved.previewFps }),
     ...(saved.previewZoom  && { previewZoom:  saved.previewZoom }),
     ...(saved.canvasZoom   && { canvasZoom:   saved.canvasZoom }),
     ...(saved.sheetZoom    && { sheetZoom:    saved.sheetZoom }),
     ...(saved.activeTab    && { activeTab:    saved.activeTab }),
+    ...(saved.onionSkin    && { onionSkin:    { ...initialState.onionSkin, ...saved.onionSkin } }),
   };
 }
 
@@ -69,6 +95,7 @@ function App() {
       canvasZoom:  state.canvasZoom,
       sheetZoom:   state.sheetZoom,
       activeTab:   state.activeTab,
+      onionSkin:   state.onionSkin,
     });
   }, [
     state.config,
@@ -78,6 +105,7 @@ function App() {
     state.canvasZoom,
     state.sheetZoom,
     state.activeTab,
+    state.onionSkin,
   ]);
 
   const selectedLayer = state.layers.find(l => l.id === state.selectedLayerId);
@@ -192,11 +220,84 @@ function App() {
   const [showTutorial, setShowTutorial] = useState(false);
   const [tutorialBusy, setTutorialBusy] = useState(false);
 
+  // ── Autosave / crash recovery ─────────────────────────────────────────────
+  const lastAutosaveAt = useAutosave(state);
+  const [autosaves, setAutosaves] = useState<AutosaveEntry[] | null>(null);
+  const [autosaveStartup, setAutosaveStartup] = useState(false);
+  const [autosaveBusy, setAutosaveBusy] = useState(false);
+  const [autosaveError, setAutosaveError] = useState<string | null>(null);
+
+  // On launch, offer to restore if earlier sessions left autosaves behind
+  useEffect(() => {
+    listAutosaves()
+      .then(entries => {
+        if (entries.some(e => e.id !== SESSION_ID)) {
+          setAutosaveStartup(true);
+          setAutosaves(entries);
+        }
+      })
+      .catch(() => { /* IndexedDB unavailable — nothing to offer */ });
+  }, []);
+
+  async function openAutosaves() {
+    setAutosaveStartup(false);
+    setAutosaveError(null);
+    try {
+      setAutosaves(await listAutosaves());
+    } catch (e) {
+      setProjectError(e instanceof Error ? e.message : 'Autosaves unavailable');
+    }
+  }
+
+  async function handleRestoreAutosave(id: string) {
+    setAutosaveBusy(true);
+    setAutosaveError(null);
+    try {
+      const project = await loadProject(await readAutosave(id));
+      applyLoadedProject(project);
+      globalCache.clear();
+      setAutosaves(null);
+    } catch (e) {
+      setAutosaveError(e instanceof Error ? e.message : 'Restore failed');
+    } finally {
+      setAutosaveBusy(false);
+    }
+  }
+
+  async function handleDeleteAutosave(id: string) {
+    try {
+      await deleteAutosave(id);
+      setAutosaves(await listAutosaves());
+    } catch (e) {
+      setAutosaveError(e instanceof Error ? e.message : 'Delete failed');
+    }
+  }
+
   // ── Project save / load ────────────────────────────────────────────────────
   const [projectBusy, setProjectBusy] = useState<'saving' | 'loading' | null>(null);
   const [projectError, setProjectError] = useState<string | null>(null);
   const loadInputRef = useRef<HTMLInputElement>(null);
 
+  function applyLoadedProject(project: LoadedProject) {
+    typedDispatch({
+      type:             'LOAD_PROJECT',
+      config:           project.config,
+      layers:           project.layers,
+      selectedLayerId:  project.ui.selectedLayerId,
+      previewAnimation: project.ui.previewAnimation,
+      previewDirection: project.ui.previewDirection,
+      previewFrame:     project.ui.previewFrame,
+      previewMode:      project.ui.previewMode,
+      previewFps:       project.ui.previewFps,
+      previewZoom:      project.ui.previewZoom,
+      canvasZoom:       project.ui.canvasZoom,
+      sheetZoom:        project.ui.sheetZoom,
+      activeTab:        project.ui.activeTab,
+      library:          project.library,
+      palettes:         project.palettes,
+    });
+  }
+
   async function handleSave() {
     setProjectBusy('saving');
     setProjectError(null);
@@ -230,21 +331,7 @@ function App() {
       const blob = await response.blob();
       const file = new File([blob], 'tutorial-character.spritebat');
       const project = await loadProject(file);
-      typedDispatch({
-        type:             'LOAD_PROJECT',
-        config:           project.config,
-        layers:           project.layers,
-        selectedLayerId:  project.ui.selectedLayerId,
-        previewDirection: project.ui.previewDirection,
-        previewFrame:     project.ui.previewFrame,
-        previewMode:      project.ui.previewMode,
-        previewFps:       project.ui.previewFps,
-        previewZoom:      project.ui.previewZoom,
-        canvasZoom:       project.ui.canvasZoom,
-        sheetZoom:        project.ui.sheetZoom,
-        activeTab:        project.ui.activeTab,
-        library:          project.library,
-      });
+      applyLoadedProject(project);
       globalCache.clear();
       setShowTutorial(false);
     } catch (e) {
@@ -263,21 +350,7 @@ function App() {
     setProjectError(null);
     try {
       const project = await loadProject(file);
-      typedDispatch({
-        type:             'LOAD_PROJECT',
-        config:           project.config,
-        layers:           project.layers,
-        selectedLayerId:  project.ui.selectedLayerId,
-        previewDirection: project.ui.previewDirection,
-        previewFrame:     project.ui.previewFrame,
-        previewMode:      project.ui.previewMode,
-        previewFps:       project.ui.previewFps,
-        previewZoom:      project.ui.previewZoom,
-        canvasZoom:       project.ui.canvasZoom,
-        sheetZoom:        project.ui.sheetZoom,
-        activeTab:        project.ui.activeTab,
-        library:          project.library,
-      });
+      applyLoadedProject(project);
       // Invalidate cached colour-shifted images from the old session
       globalCache.clear();
     } catch (e) {
@@ -351,11 +424,12 @@ function App() {
                 {projectError && <div className="px-3 py-1 text-xs text-red-400">{projectError}</div>}
                 <button onClick={() => { loadInputRef.current?.click(); setMenuOpen(false); }} disabled={!!projectBusy} className="w-full text-left text-xs text-gray-300 hover:bg-gray-700 px-3 py-2 disabled:opacity-50">📂 Open Project</button>
                 <button onClick={() => { handleSave(); setMenuOpen(false); }} disabled={!!projectBusy || (state.layers.length === 0 && state.library.length === 0)} className="w-full text-left text-xs text-gray-300 hover:bg-gray-700 px-3 py-2 disabled:opacity-50">💾 Save Project</button>
+                <button onClick={() => { openAutosaves(); setMenuOpen(false); }} disabled={!!projectBusy} className="w-full text-left text-xs text-gray-300 hover:bg-gray-700 px-3 py-2 disabled:opacity-50">🕘 Autosaves</button>
                 <button onClick={() => { handleClose(); setMenuOpen(false); }} disabled={!!projectBusy} className="w-full text-left text-xs text-gray-400 hover:bg-gray-700 hover:text-red-300 px-3 py-2 disabled:opacity-50">✕ Close Project</button>
                 <div className="border-t border-gray-700 my-1" />
                 {/* Config */}
                 <button onClick={() => { typedDispatch({ type: 'TOGGLE_CONFIG' }); setMenuOpen(false); }} className="w-full text-left text-xs text-gray-300 hover:bg-gray-700 px-3 py-2">
-                  ⚙ Config <span className="text-gray-500">{state.config.frameWidth}×{state.config.frameHeight} · {state.config.framesPerDirection}f · {state.config.directions}d</span>
+                  ⚙ Config <span className="text-gray-500">{state.config.frameWidth}×{state.config.frameHeight} · {state.config.animations.length > 1 ? `${state.config.animations.length} anims · ` : ''}{timelineLength(state.config)}f · {state.config.directions}d</span>
                 </button>
                 <div className="border-t border-gray-700 my-1" />
                 {/* Secondary links */}
@@ -468,6 +542,17 @@ function App() {
                   {projectBusy === 'saving' ? '⏳' : '💾'} Save
                 </button>
 
+                <button
+                  onClick={openAutosaves}
+                  disabled={!!projectBusy}
+                  className="text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-300 px-3 py-1.5 rounded flex items-center gap-1"
+                  title={lastAutosaveAt
+                    ? `Recent autosaves — last saved ${new Date(lastAutosaveAt).toLocaleTimeString()}`
+                    : 'Recent autosaves'}
+                >
+                  🕘 Autosaves
+                </button>
+
                 <button
                   onClick={handleClose}
                   disabled={!!projectBusy}
@@ -514,7 +599,7 @@ function App() {
               >
                 ⚙ Config
                 <span className="text-gray-500 ml-1">
-                  {state.config.frameWidth}×{state.config.frameHeight} · {state.config.framesPerDirection}f · {state.config.directions}d · in {state.config.defaultInputLayout.cols}×{state.config.defaultInputLayout.rows}
+                  {state.config.frameWidth}×{state.config.frameHeight} · {state.config.animations.length > 1 ? `${state.config.animations.length} anims · ` : ''}{timelineLength(state.config)}f · {state.config.directions}d · in {state.config.defaultInputLayout.cols}×{state.config.defaultInputLayout.rows}
                 </span>
               </button>
             </div>
@@ -573,6 +658,9 @@ function App() {
                   layers={state.layers}
                   selectedLayerId={state.selectedLayerId}
                   config={state.config}
+                  library={state.library}
+                  previewAnimation={state.previewAnimation}
+                  previewFps={state.previewFps}
                   dispatch={typedDispatch}
                   cache={globalCache}
                 />
@@ -580,7 +668,7 @@ function App() {
 
               {/* Center: Main canvas */}
               <div className="flex-1 overflow-hidden">
-                <MainCanvas state={state} dispatch={typedDispatch} cache={globalCache} />
+                <MainCanvas state={state} dispatch={typedDispatch} cache={globalCache} pool={renderPool} />
               </div>
 
               {/* Right: Animated preview (desktop only) */}
@@ -597,6 +685,9 @@ function App() {
                     layers={state.layers}
                     selectedLayerId={state.selectedLayerId}
                     config={state.config}
+                    library={state.library}
+                    previewAnimation={state.previewAnimation}
+                    previewFps={state.previewFps}
                     dispatch={mobileLayerDispatch}
                     cache={globalCache}
                     mobile
@@ -642,11 +733,11 @@ function App() {
                 <span className="text-gray-600">{mobilePropsOpen ? '▾' : '▸'}</span>
               </button>
               {mobilePropsOpen && (
-                <LayerProperties layer={selectedLayer} config={state.config} dispatch={typedDispatch} cache={globalCache} frameOffsetMode={state.frameOffsetMode} mobile={isMobile} />
+                <LayerProperties layer={selectedLayer} config={state.config} dispatch={typedDispatch} cache={globalCache} palettes={state.palettes} frameOffsetMode={state.frameOffsetMode} previewDirection={state.previewDirection} mobile={isMobile} />
               )}
             </>
           ) : (
-            <LayerProperties layer={selectedLayer} config={state.config} dispatch={typedDispatch} cache={globalCache} frameOffsetMode={state.frameOffsetMode} mobile={isMobile} />
+            <LayerProperties layer={selectedLayer} config={state.config} dispatch={typedDispatch} cache={globalCache} palettes={state.palettes} frameOffsetMode={state.frameOffsetMode} previewDirection={state.previewDirection} mobile={isMobile} />
           )}
         </div>
       )}
@@ -722,7 +813,7 @@ function App() {
                 <li><span className="text-gray-300">Tile to Sheet</span> — Stamp a single-frame asset across chosen directions and frames to build a full sprite sheet in one click.</li>
                 <li><span className="text-gray-300">Clear Frames</span> — Erase specific cells from a layer so you can replace them with new content.</li>
                 <li><span className="text-gray-300">Animated Preview</span> — Preview animations per direction with forward, reverse, and ping-pong playback modes. Click frame indicators to jump to any frame.</li>
-                <li><span className="text-gray-300">Configurable layouts</span> — Set frame size, direction count (4 or 8), frames per direction, and separate input/export grid layouts. Click the sheet preview to jump to any frame.</li>
+                <li><span className="text-gray-300">Configurable layouts</span> — Set frame size, direction count (4 or 8), named animations (idle, walk, attack…) each with its own frame count, and separate input/export grid layouts. Click the sheet preview to jump to any frame.</li>
                 <li><span className="text-gray-300">Export</span> — Download the composited sheet as PNG, individual frames as ZIP, or animated GIFs per direction with forward/reverse/ping-pong support. Export the selected layer only as a sheet or single frame. Scale 1–4× for all formats.</li>
                 <li><span className="text-gray-300">Projects</span> — Save and load .spritebat project files that preserve all layers, library assets, and UI state. Keyboard shortcuts for undo (Ctrl+Z) and redo (Ctrl+Y). Try the bundled example project to explore features.</li>
                 <li><span className="text-gray-300">Install & Offline</span> — Install SpriteBat as a standalone app from your browser and use it fully offline. Automatic update notifications when a new version is available.</li>
@@ -788,6 +879,19 @@ function App() {
         </div>
       )}
 
+      {/* ── Autosave restore ── */}
+      {autosaves && (
+        <AutosaveModal
+          entries={autosaves}
+          startup={autosaveStartup}
+          busy={autosaveBusy}
+          error={autosaveError}
+          onRestore={handleRestoreAutosave}
+          onDelete={handleDeleteAutosave}
+          onClose={() => setAutosaves(null)}
+        />
+      )}
+
       {/* ── Tutorial / Example Project Modal ── */}
       {showTutorial && (
         <div
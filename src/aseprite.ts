@@ -0,0 +1,452 @@
+/**
+ * Aseprite (.ase / .aseprite) import
+ *
+ * Parses the binary format (layers, cels, frame durations, tags, palettes in
+ * RGBA / grayscale / indexed color modes) and turns every image layer into a
+ * SpriteBat Layer whose sheet follows the project's defaultInputLayout.
+ *
+ * Spec: https://github.com/aseprite/aseprite/blob/main/docs/ase-file-specs.md
+ *
+ * Frame placement:
+ *   - Tags named after a direction ("down", "up-left"…) fill that direction
+ *     row of the target animation; "walk_down" / "walk-down" / "walk/down"
+ *     target the "walk" animation instead.
+ *   - With no matching tags, frames fill the target animation in order,
+ *     direction by direction.
+ */
+
+import type { Direction, Layer, ProjectConfig } from './types';
+import { DIRECTIONS_4, DIRECTIONS_8, frameRect, frameDurations, sheetSize } from './types';
+
+// ─── Parsed file ──────────────────────────────────────────────────────────────
+
+export interface AseLayer {
+  name: string;
+  visible: boolean;
+  background: boolean;
+  type: 'image' | 'group' | 'tilemap';
+  opacity: number;    // 0-255
+}
+
+export interface AseCel {
+  layerIndex: number;
+  x: number;
+  y: number;
+  opacity: number;    // 0-255
+  width: number;
+  height: number;
+  /** Decoded RGBA pixels, or null for a linked cel (see `linkedFrame`). */
+  pixels: Uint8ClampedArray | null;
+  linkedFrame?: number;
+}
+
+export interface AseFrame {
+  duration: number;   // ms
+  cels: AseCel[];
+}
+
+export interface AseTag {
+  name: string;
+  from: number;
+  to: number;
+  direction: 'forward' | 'reverse' | 'pingpong';
+}
+
+export interface AsepriteFile {
+  width: number;
+  height: number;
+  layers: AseLayer[];
+  frames: AseFrame[];
+  tags: AseTag[];
+}
+
+// ─── Binary reader ────────────────────────────────────────────────────────────
+
+class Reader {
+  private bytes: Uint8Array;
+  private view: DataView;
+  pos = 0;
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+  byte()  { return this.view.getUint8(this.pos++); }
+  word()  { const v = this.view.getUint16(this.pos, true); this.pos += 2; return v; }
+  short() { const v = this.view.getInt16(this.pos, true);  this.pos += 2; return v; }
+  dword() { const v = this.view.getUint32(this.pos, true); this.pos += 4; return v; }
+  skip(n: number) { this.pos += n; }
+  slice(n: number) { const s = this.bytes.subarray(this.pos, this.pos + n); this.pos += n; return s; }
+  string() { return new TextDecoder().decode(this.slice(this.word())); }
+}
+
+/** Inflate zlib-wrapped data using the browser's DecompressionStream. */
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+const CHUNK_OLD_PALETTE_256 = 0x0004;
+const CHUNK_OLD_PALETTE_64  = 0x0011;
+const CHUNK_LAYER           = 0x2004;
+const CHUNK_CEL             = 0x2005;
+const CHUNK_TAGS            = 0x2018;
+const CHUNK_PALETTE         = 0x2019;
+
+// Ping-pong reverse (3) bounces through the same frames as ping-pong, only
+// starting from the end — frame order is the same, the rest is playback
+const TAG_DIRECTIONS: AseTag['direction'][] = ['forward', 'reverse', 'pingpong', 'pingpong'];
+
+/**
+ * Parse an Aseprite file. Cel pixels are decoded to RGBA using the
+ * file's color mode and palette.
+ */
+export async function parseAseprite(buffer: ArrayBuffer): Promise<AsepriteFile> {
+  const r = new Reader(new Uint8Array(buffer));
+
+  // ── Header (128 bytes) ──
+  r.dword();                                   // file size
+  if (r.word() !== 0xA5E0) throw new Error('Not an Aseprite file (bad magic number)');
+  const frameCount = r.word();
+  const width = r.word();
+  const height = r.word();
+  const depth = r.word();                      // 32 RGBA, 16 grayscale, 8 indexed
+  if (depth !== 32 && depth !== 16 && depth !== 8) {
+    throw new Error(`Unsupported Aseprite color depth: ${depth}`);
+  }
+  r.dword();                                   // flags
+  r.word();                                    // speed (deprecated)
+  r.skip(8);
+  const transparentIndex = r.byte();
+  r.skip(128 - r.pos);
+
+  const layers: AseLayer[] = [];
+  const frames: AseFrame[] = [];
+  const tags: AseTag[] = [];
+  const palette: Array<[number, number, number, number]> = [];
+  // Raw cels are decoded after the whole file is read — the palette may come later
+  const rawCels: Array<{ frame: number; cel: AseCel; data: Uint8Array; compressed: boolean }> = [];
+
+  for (let f = 0; f < frameCount; f++) {
+    const frameStart = r.pos;
+    const frameBytes = r.dword();
+    if (r.word() !== 0xF1FA) throw new Error(`Corrupt Aseprite frame ${f + 1}`);
+    const oldChunks = r.word();
+    const duration = r.word();
+    r.skip(2);
+    const newChunks = r.dword();
+    const chunkCount = newChunks === 0 ? oldChunks : newChunks;
+    const frame: AseFrame = { duration, cels: [] };
+
+    for (let c = 0; c < chunkCount; c++) {
+      const chunkStart = r.pos;
+      const chunkSize = r.dword();
+      const chunkType = r.word();
+
+      switch (chunkType) {
+        case CHUNK_LAYER: {
+          const flags = r.word();
+          const type = r.word();
+          r.word();                            // child level
+          r.skip(4);                           // default width/height
+          r.word();                            // blend mode
+          const opacity = r.byte();
+          r.skip(3);
+          layers.push({
+            name:       r.string(),
+            visible:    (flags & 1) !== 0,
+            background: (flags & 8) !== 0,
+            type:       type === 1 ? 'group' : type === 2 ? 'tilemap' : 'image',
+            opacity,
+          });
+          break;
+        }
+
+        case CHUNK_CEL: {
+          const layerIndex = r.word();
+          const x = r.short();
+          const y = r.short();
+          const opacity = r.byte();
+          const celType = r.word();
+          r.short();                           // z-index
+          r.skip(5);
+          const cel: AseCel = { layerIndex, x, y, opacity, width: 0, height: 0, pixels: null };
+          if (celType === 1) {
+            cel.linkedFrame = r.word();
+            frame.cels.push(cel);
+          } else if (celType === 0 || celType === 2) {
+            cel.width = r.word();
+            cel.height = r.word();
+            const data = r.slice(chunkStart + chunkSize - r.pos);
+            rawCels.push({ frame: f, cel, data, compressed: celType === 2 });
+            frame.cels.push(cel);
+          }
+          // celType 3 (compressed tilemap) is not supported and skipped
+          break;
+        }
+
+        case CHUNK_PALETTE: {
+          r.dword();                           // new palette size
+          const first = r.dword();
+          const last = r.dword();
+          r.skip(8);
+          for (let i = first; i <= last; i++) {
+            const flags = r.word();
+            palette[i] = [r.byte(), r.byte(), r.byte(), r.byte()];
+            if (flags & 1) r.string();         // colour name
+          }
+          break;
+        }
+
+        case CHUNK_OLD_PALETTE_256:
+        case CHUNK_OLD_PALETTE_64: {
+          // Only used when no new-style palette chunk exists
+          const scale = chunkType === CHUNK_OLD_PALETTE_64 ? 255 / 63 : 1;
+          const packets = r.word();
+          let index = 0;
+          for (let p = 0; p < packets; p++) {
+            index += r.byte();
+            const count = r.byte() || 256;
+            for (let i = 0; i < count; i++, index++) {
+              const rgb: [number, number, number, number] = [
+                Math.round(r.byte() * scale), Math.round(r.byte() * scale), Math.round(r.byte() * scale), 255,
+              ];
+              if (palette[index] === undefined) palette[index] = rgb;
+            }
+          }
+          break;
+        }
+
+        case CHUNK_TAGS: {
+          const count = r.word();
+          r.skip(8);
+          for (let t = 0; t < count; t++) {
+            const from = r.word();
+            const to = r.word();
+            const dir = r.byte();
+            r.word();                          // repeat
+            r.skip(6 + 3 + 1);                 // reserved + deprecated colour
+            tags.push({ name: r.string(), from, to, direction: TAG_DIRECTIONS[dir] ?? 'forward' });
+          }
+          break;
+        }
+      }
+
+      r.pos = chunkStart + chunkSize;
+    }
+
+    r.pos = frameStart + frameBytes;
+    frames.push(frame);
+  }
+
+  // ── Decode cel pixels to RGBA ──
+  for (const { cel, data, compressed } of rawCels) {
+    const raw = compressed ? await inflate(data) : data;
+    const n = cel.width * cel.height;
+    const out = new Uint8ClampedArray(n * 4);
+    const background = layers[cel.layerIndex]?.background ?? false;
+    for (let i = 0; i < n; i++) {
+      const o = i * 4;
+      if (depth === 32) {
+        out[o] = raw[o]; out[o + 1] = raw[o + 1]; out[o + 2] = raw[o + 2]; out[o + 3] = raw[o + 3];
+      } else if (depth === 16) {
+        const v = raw[i * 2];
+        out[o] = v; out[o + 1] = v; out[o + 2] = v; out[o + 3] = raw[i * 2 + 1];
+      } else {
+        const idx = raw[i];
+        // The transparent index is only transparent on non-background layers
+        if (idx === transparentIndex && !background) continue;
+        const [pr, pg, pb, pa] = palette[idx] ?? [0, 0, 0, 0];
+        out[o] = pr; out[o + 1] = pg; out[o + 2] = pb; out[o + 3] = pa;
+      }
+    }
+    cel.pixels = out;
+  }
+
+  return { width, height, layers, frames, tags };
+}
+
+// ─── Conversion to SpriteBat layers ───────────────────────────────────────────
+
+/** Where one Aseprite frame lands in the project. */
+interface Placement {
+  aseFrame: number;
+  animIndex: number;
+  dirRow: number;
+  frameIndex: number;
+}
+
+export interface AsepriteImport {
+  layers: Layer[];
+  /** New per-frame durations, keyed by animation id, for animations that received frames. */
+  durations: Record<string, number[]>;
+  /** Non-fatal issues worth telling the user about. */
+  warnings: string[];
+}
+
+/**
+ * Match a tag name to (animation, direction). Accepts "down", or an
+ * animation name joined to a direction with "_", "-", "/" or a space.
+ */
+function matchTag(name: string, config: ProjectConfig, dirs: Direction[], targetAnim: number) {
+  const lower = name.trim().toLowerCase();
+  // Longest first so "down-left" wins over "left"
+  const byLength = [...dirs].sort((a, b) => b.length - a.length);
+  for (const dir of byLength) {
+    if (lower === dir) return { animIndex: targetAnim, dirRow: dirs.indexOf(dir) };
+    if (lower.endsWith(dir)) {
+      const prefix = lower.slice(0, -dir.length).replace(/[_\-/ ]$/, '');
+      const animIndex = config.animations.findIndex(a => a.name.trim().toLowerCase() === prefix);
+      if (animIndex >= 0) return { animIndex, dirRow: dirs.indexOf(dir) };
+    }
+  }
+  return null;
+}
+
+function placeFrames(file: AsepriteFile, config: ProjectConfig, targetAnim: number, warnings: string[]): Placement[] {
+  const dirs = config.directions === 4 ? DIRECTIONS_4 : DIRECTIONS_8;
+  const placements: Placement[] = [];
+  const pingpong: string[] = [];
+
+  for (const tag of file.tags) {
+    const match = matchTag(tag.name, config, dirs, targetAnim);
+    if (!match) continue;
+    if (tag.direction === 'pingpong') pingpong.push(tag.name);
+    const order = Array.from({ length: tag.to - tag.from + 1 }, (_, i) => tag.from + i);
+    if (tag.direction === 'reverse') order.reverse();
+    order.forEach((aseFrame, frameIndex) => placements.push({ aseFrame, ...match, frameIndex }));
+  }
+  if (pingpong.length) {
+    warnings.push(`Ping-pong tags (${pingpong.join(', ')}) were imported in forward order — choose Ping-pong playback in the preview and export`);
+  }
+
+  if (placements.length === 0) {
+    // No direction tags — fill the target animation row by row
+    const { frameCount } = config.animations[targetAnim];
+    file.frames.forEach((_, aseFrame) => {
+      placements.push({
+        aseFrame,
+        animIndex: targetAnim,
+        dirRow: Math.floor(aseFrame / frameCount),
+        frameIndex: aseFrame % frameCount,
+      });
+    });
+  }
+
+  const fits = placements.filter(p =>
+    p.dirRow < config.directions && p.frameIndex < config.animations[p.animIndex].frameCount
+  );
+  if (fits.length < placements.length) {
+    warnings.push(`${placements.length - fits.length} frame(s) didn't fit the project's animations and were skipped`);
+  }
+  return fits;
+}
+
+function canvasToImage(canvas: HTMLCanvasElement): Promise<{ image: HTMLImageElement; objectUrl: string }> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) { reject(new Error('Canvas toBlob failed')); return; }
+      const objectUrl = URL.createObjectURL(blob);
+      const image = new Image();
+      image.onload = () => resolve({ image, objectUrl });
+      image.onerror = () => reject(new Error('Failed to load converted layer image'));
+      image.src = objectUrl;
+    }, 'image/png');
+  });
+}
+
+/**
+ * Build one SpriteBat layer per Aseprite image layer (bottom to top).
+ * `targetAnim` is the animation untagged or direction-only tagged frames go into;
+ * `fps` fills the timing of frames the file doesn't cover.
+ */
+export async function asepriteToLayers(
+  file: AsepriteFile,
+  config: ProjectConfig,
+  fileName: string,
+  targetAnim: number,
+  fps: number
+): Promise<AsepriteImport> {
+  const warnings: string[] = [];
+  const { frameWidth, frameHeight, defaultInputLayout } = config;
+
+  if (file.width !== frameWidth || file.height !== frameHeight) {
+    warnings.push(`Aseprite canvas is ${file.width}×${file.height}, project frames are ${frameWidth}×${frameHeight} — frames are cropped from the top-left`);
+  }
+  if (file.layers.some(l => l.type === 'tilemap')) {
+    warnings.push('Tilemap layers are not supported and were skipped');
+  }
+
+  const placements = placeFrames(file, config, targetAnim, warnings);
+
+  // Durations — the first frame placed in each slot decides its timing
+  const durations: Record<string, number[]> = {};
+  const timed = new Set<string>();
+  for (const p of placements) {
+    const anim = config.animations[p.animIndex];
+    durations[anim.id] ??= frameDurations(anim, fps);
+    const key = `${p.animIndex}_${p.frameIndex}`;
+    if (timed.has(key)) continue;
+    timed.add(key);
+    durations[anim.id][p.frameIndex] = file.frames[p.aseFrame].duration;
+  }
+
+  const layers: Layer[] = [];
+  const baseName = fileName.replace(/\.[^.]+$/, '');
+
+  for (let li = 0; li < file.layers.length; li++) {
+    const aseLayer = file.layers[li];
+    if (aseLayer.type !== 'image') continue;
+
+    const sheet = document.createElement('canvas');
+    const size = sheetSize(config, defaultInputLayout);
+    sheet.width = size.width;
+    sheet.height = size.height;
+    const ctx = sheet.getContext('2d')!;
+    let drewAny = false;
+
+    for (const p of placements) {
+      let cel = file.frames[p.aseFrame].cels.find(c => c.layerIndex === li);
+      // Linked cels borrow the pixels of the cel in another frame
+      if (cel?.linkedFrame !== undefined) {
+        const linked = file.frames[cel.linkedFrame]?.cels.find(c => c.layerIndex === li);
+        cel = linked ? { ...linked, opacity: cel.opacity } : undefined;
+      }
+      if (!cel?.pixels || cel.width === 0 || cel.height === 0) continue;
+
+      const celCanvas = document.createElement('canvas');
+      celCanvas.width = cel.width;
+      celCanvas.height = cel.height;
+      celCanvas.getContext('2d')!.putImageData(new ImageData(cel.pixels.slice(), cel.width, cel.height), 0, 0);
+
+      const { sx, sy, sw, sh, dx, dy } = frameRect(config, defaultInputLayout, p.animIndex, p.dirRow, p.frameIndex);
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(sx, sy, sw, sh);
+      ctx.clip();
+      ctx.globalAlpha = cel.opacity / 255;
+      ctx.drawImage(celCanvas, sx - dx + cel.x, sy - dy + cel.y);
+      ctx.restore();
+      drewAny = true;
+    }
+
+    if (!drewAny) continue;
+    const { image, objectUrl } = await canvasToImage(sheet);
+    layers.push({
+      id:          crypto.randomUUID(),
+      name:        aseLayer.name || `${baseName} ${li + 1}`,
+      type:        'Custom',
+      visible:     aseLayer.visible,
+      opacity:     Math.round((aseLayer.opacity / 255) * 100),
+      hsl:         { hue: 0, saturation: 0, lightness: 0 },
+      image,
+      objectUrl,
+      fileName:    `${baseName}-${aseLayer.name || li + 1}.png`,
+      offsetX:     0,
+      offsetY:     0,
+      inputLayout: { ...defaultInputLayout },
+    });
+  }
+
+  if (layers.length === 0) warnings.push('No image layers with pixels were found');
+  return { layers, durations, warnings };
+}
@@ -0,0 +1,229 @@
+/**
+ * Texture atlas packer
+ *
+ * Trims each composited frame to its opaque bounds, shelf-packs the trimmed
+ * sprites into a single atlas surface, and describes the result in the
+ * TexturePacker JSON format ("hash" or "array" flavour) that Phaser and
+ * PixiJS load directly.
+ */
+
+import { trimTransparent } from './compositing';
+import type { Surface } from './surface';
+import { createSurface, context2d } from './surface';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface AtlasOptions {
+  /** Largest width/height the atlas may grow to. */
+  maxSize: number;
+  /** Round the atlas dimensions up to powers of two. */
+  powerOfTwo: boolean;
+  /** Transparent pixels between sprites and around the atlas border. */
+  padding: number;
+  /** Repeat each sprite's edge pixels outward this far, to stop texture bleeding. */
+  extrude: number;
+  /** Crop transparent borders from each frame before packing. */
+  trim: boolean;
+}
+
+export const DEFAULT_ATLAS_OPTIONS: AtlasOptions = {
+  maxSize:    2048,
+  powerOfTwo: false,
+  padding:    2,
+  extrude:    0,
+  trim:       true,
+};
+
+/** One frame handed to the packer. */
+export interface AtlasInput {
+  name: string;
+  canvas: Surface;
+  duration: number;   // ms
+}
+
+/** Where a frame ended up, in TexturePacker terms. */
+export interface PackedFrame {
+  name: string;
+  frame: { x: number; y: number; w: number; h: number };
+  trimmed: boolean;
+  spriteSourceSize: { x: number; y: number; w: number; h: number };
+  sourceSize: { w: number; h: number };
+  duration: number;
+}
+
+export interface Atlas {
+  canvas: Surface;
+  frames: PackedFrame[];
+}
+
+export type AtlasJsonStyle = 'hash' | 'array';
+
+// ─── Packing ──────────────────────────────────────────────────────────────────
+
+interface Sprite {
+  input: AtlasInput;
+  /** Region of input.canvas that gets packed. */
+  src: { x: number; y: number; w: number; h: number };
+  /** Packed footprint including extrusion (padding is added by the packer). */
+  w: number;
+  h: number;
+  x: number;
+  y: number;
+}
+
+function nextPowerOfTwo(n: number): number {
+  let p = 1;
+  while (p < n) p *= 2;
+  return p;
+}
+
+/**
+ * Shelf-pack `sprites` (already sorted tallest first) into a bin `width`
+ * pixels wide. Writes x/y into each sprite and returns the height used.
+ */
+function shelfPack(sprites: Sprite[], width: number, padding: number): number {
+  let x = padding, y = padding, shelfH = 0;
+  for (const s of sprites) {
+    if (x + s.w + padding > width && x > padding) {
+      y += shelfH + padding;
+      x = padding;
+      shelfH = 0;
+    }
+    s.x = x;
+    s.y = y;
+    x += s.w + padding;
+    shelfH = Math.max(shelfH, s.h);
+  }
+  return y + shelfH + padding;
+}
+
+/**
+ * Trim and pack `inputs` into one atlas.
+ * Throws if the frames can't fit within `options.maxSize`.
+ */
+export function packAtlas(inputs: AtlasInput[], options: AtlasOptions): Atlas {
+  const { maxSize, powerOfTwo, padding, extrude, trim } = options;
+  const e = extrude;
+
+  const sprites: Sprite[] = inputs.map(input => {
+    const full = { x: 0, y: 0, w: input.canvas.width, h: input.canvas.height };
+    // A fully transparent frame still needs an entry — pack it as a single pixel
+    const src = trim ? (trimTransparent(input.canvas) ?? { x: 0, y: 0, w: 1, h: 1 }) : full;
+    return { input, src, w: src.w + e * 2, h: src.h + e * 2, x: 0, y: 0 };
+  });
+
+  // Tallest first keeps shelves tight
+  const order = [...sprites].sort((a, b) => b.h - a.h || b.w - a.w);
+
+  const widest = Math.max(1, ...sprites.map(s => s.w)) + padding * 2;
+  if (widest > maxSize) {
+    throw new Error(`A frame is wider than the ${maxSize}px atlas limit`);
+  }
+
+  // Try a range of bin widths and keep the smallest area that fits
+  const candidates = new Set<number>();
+  if (powerOfTwo) {
+    for (let w = nextPowerOfTwo(widest); w <= maxSize; w *= 2) candidates.add(w);
+  } else {
+    const step = Math.max(1, Math.floor((maxSize - widest) / 64));
+    for (let w = widest; w < maxSize; w += step) candidates.add(w);
+    candidates.add(maxSize);
+  }
+
+  // `bin` is the width packed into; `width` is what the atlas is cropped to
+  let best: { bin: number; width: number; height: number } | null = null;
+  for (const w of candidates) {
+    const used = shelfPack(order, w, padding);
+    const width = powerOfTwo ? w : Math.max(...order.map(s => s.x + s.w)) + padding;
+    const height = powerOfTwo ? nextPowerOfTwo(used) : used;
+    if (height > maxSize) continue;
+    const area = width * height;
+    const bestArea = best ? best.width * best.height : Infinity;
+    // Prefer smaller area, then squarer
+    if (area < bestArea || (area === bestArea && best && Math.abs(width - height) < Math.abs(best.width - best.height))) {
+      best = { bin: w, width, height };
+    }
+  }
+  if (!best) {
+    throw new Error(`Frames don't fit in a ${maxSize}×${maxSize} atlas — raise the max size or reduce padding`);
+  }
+
+  // Re-run the winning layout so every sprite's x/y matches it
+  shelfPack(order, best.bin, padding);
+
+  const canvas = createSurface(best.width, best.height);
+  const ctx = context2d(canvas);
+  ctx.imageSmoothingEnabled = false;
+
+  for (const s of sprites) {
+    const { canvas: img } = s.input;
+    const { x: sx, y: sy, w, h } = s.src;
+    const dx = s.x + e, dy = s.y + e;
+    ctx.drawImage(img, sx, sy, w, h, dx, dy, w, h);
+
+    if (e > 0) {
+      // Edges, stretched outward
+      ctx.drawImage(img, sx, sy, w, 1, dx, s.y, w, e);                   // top
+      ctx.drawImage(img, sx, sy + h - 1, w, 1, dx, dy + h, w, e);        // bottom
+      ctx.drawImage(img, sx, sy, 1, h, s.x, dy, e, h);                   // left
+      ctx.drawImage(img, sx + w - 1, sy, 1, h, dx + w, dy, e, h);        // right
+      // Corners
+      ctx.drawImage(img, sx, sy, 1, 1, s.x, s.y, e, e);
+      ctx.drawImage(img, sx + w - 1, sy, 1, 1, dx + w, s.y, e, e);
+      ctx.drawImage(img, sx, sy + h - 1, 1, 1, s.x, dy + h, e, e);
+      ctx.drawImage(img, sx + w - 1, sy + h - 1, 1, 1, dx + w, dy + h, e, e);
+    }
+  }
+
+  const frames: PackedFrame[] = sprites.map(s => ({
+    name: s.input.name,
+    frame: { x: s.x + e, y: s.y + e, w: s.src.w, h: s.src.h },
+    trimmed: s.src.w !== s.input.canvas.width || s.src.h !== s.input.canvas.height,
+    spriteSourceSize: { ...s.src },
+    sourceSize: { w: s.input.canvas.width, h: s.input.canvas.height },
+    duration: s.input.duration,
+  }));
+
+  return { canvas, frames };
+}
+
+// ─── JSON descriptor ──────────────────────────────────────────────────────────
+
+/**
+ * Serialise an atlas as TexturePacker JSON.
+ * `animations` maps an animation key (e.g. "walk_down") to its frame names,
+ * which PixiJS picks up as AnimatedSprite sequences.
+ */
+export function atlasToJson(
+  atlas: Atlas,
+  imageName: string,
+  style: AtlasJsonStyle,
+  animations: Record<string, string[]>,
+  scale = 1
+): string {
+  const entry = (f: PackedFrame) => ({
+    frame:            f.frame,
+    rotated:          false,
+    trimmed:          f.trimmed,
+    spriteSourceSize: f.spriteSourceSize,
+    sourceSize:       f.sourceSize,
+    duration:         f.duration,
+  });
+
+  const frames = style === 'hash'
+    ? Object.fromEntries(atlas.frames.map(f => [f.name, entry(f)]))
+    : atlas.frames.map(f => ({ filename: f.name, ...entry(f) }));
+
+  return JSON.stringify({
+    frames,
+    animations,
+    meta: {
+      app:     'https://spritebat.fatbat.studio/',
+      version: '1.0',
+      image:   imageName,
+      format:  'RGBA8888',
+      size:    { w: atlas.canvas.width, h: atlas.canvas.height },
+      scale:   String(scale),
+    },
+  }, null, 2);
+}
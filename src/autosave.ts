@@ -0,0 +1,102 @@
+/**
+ * Autosave / crash recovery for SpriteBat.
+ *
+ * Unlike persist.ts (config + UI prefs in localStorage), this stores the
+ * whole project — layer and library PNGs included — as a .spritebat ZIP blob
+ * in IndexedDB. Each browser session writes to its own record, so the list
+ * of autosaves is "the latest state of each recent session".
+ */
+
+import type { AppState } from './types';
+import { buildProjectBlob } from './project';
+
+const DB_NAME = 'spritebat';
+const DB_VERSION = 1;
+const STORE = 'autosaves';
+
+/** How many sessions' autosaves are kept. */
+export const MAX_AUTOSAVES = 5;
+
+/** Identifies this tab's autosave record. */
+export const SESSION_ID = crypto.randomUUID();
+
+export interface AutosaveEntry {
+  id: string;
+  savedAt: number;
+  layerCount: number;
+  libraryCount: number;
+  /** Short human-readable description, e.g. the layer names. */
+  label: string;
+}
+
+interface AutosaveRecord extends AutosaveEntry {
+  blob: Blob;
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(STORE, { keyPath: 'id' });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error('Failed to open autosave database'));
+  });
+}
+
+/** Run one request against the autosave store and resolve with its result. */
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const req = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(req.result);
+      tx.onerror = () => reject(tx.error ?? new Error('Autosave database error'));
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/** Autosaves, newest first — metadata only, no blobs. */
+export async function listAutosaves(): Promise<AutosaveEntry[]> {
+  const records = await withStore('readonly', store => store.getAll() as IDBRequest<AutosaveRecord[]>);
+  return records
+    .map(({ id, savedAt, layerCount, libraryCount, label }) => ({ id, savedAt, layerCount, libraryCount, label }))
+    .sort((a, b) => b.savedAt - a.savedAt);
+}
+
+/** The saved .spritebat blob for an autosave, ready for loadProject. */
+export async function readAutosave(id: string): Promise<Blob> {
+  const record = await withStore('readonly', store => store.get(id) as IDBRequest<AutosaveRecord | undefined>);
+  if (!record) throw new Error('Autosave not found');
+  return record.blob;
+}
+
+export async function deleteAutosave(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
+
+/**
+ * Write the current project as this session's autosave, then drop the
+ * oldest sessions beyond MAX_AUTOSAVES.
+ */
+export async function writeAutosave(state: AppState): Promise<void> {
+  const blob = await buildProjectBlob(state);
+  const names = state.layers.map(l => l.name).filter(Boolean);
+  const record: AutosaveRecord = {
+    id:           SESSION_ID,
+    savedAt:      Date.now(),
+    layerCount:   state.layers.length,
+    libraryCount: state.library.length,
+    label:        names.length ? names.slice(0, 3).join(', ') + (names.length > 3 ? '…' : '') : 'Library only',
+    blob,
+  };
+  await withStore('readwrite', store => store.put(record));
+
+  const entries = await listAutosaves();
+  for (const stale of entries.slice(MAX_AUTOSAVES)) {
+    await deleteAutosave(stale.id);
+  }
+}
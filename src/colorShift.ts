@@ -1,7 +1,9 @@
-import type { HSLAdjustment } from './types';
+import type { HSLAdjustment, HslRange, Layer, PaletteRamp } from './types';
+import type { RgbaBuffer, Surface, SurfaceSource } from './surface';
+import { copySurface, readPixels, writePixels } from './surface';
 
 // Convert RGB (0-255) to HSL (h: 0-360, s: 0-1, l: 0-1)
-function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
+export function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
   const rn = r / 255, gn = g / 255, bn = b / 255;
   const max = Math.max(rn, gn, bn);
   const min = Math.min(rn, gn, bn);
@@ -47,27 +49,39 @@ function clamp(v: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, v));
 }
 
+/** 1 inside [min, max], fading linearly to 0 over `softness` units outside it. */
+function bandWeight(v: number, min: number, max: number, softness: number): number {
+  const outside = v < min ? min - v : v > max ? v - max : 0;
+  if (outside === 0) return 1;
+  return softness > 0 ? Math.max(0, 1 - outside / softness) : 0;
+}
+
 /**
- * Apply HSL color shift to an image and return an offscreen canvas.
- * Only modifies non-transparent pixels.
+ * How strongly a pixel (h: 0-360, s/l: 0-1) falls inside `range`, from 0 to 1.
+ * Greys have no meaningful hue, so they only match a full 360° hue span.
  */
-export function applyHslShift(
-  img: HTMLImageElement,
-  hsl: HSLAdjustment
-): HTMLCanvasElement {
-  const canvas = document.createElement('canvas');
-  canvas.width = img.naturalWidth;
-  canvas.height = img.naturalHeight;
-  const ctx = canvas.getContext('2d')!;
-  ctx.drawImage(img, 0, 0);
-
-  // If no shift is applied, return as-is
-  if (hsl.hue === 0 && hsl.saturation === 0 && hsl.lightness === 0) {
-    return canvas;
+export function hslRangeWeight(h: number, s: number, l: number, range: HslRange): number {
+  const { hueCenter, hueWidth, softness } = range;
+  let hueW = 1;
+  if (hueWidth < 360) {
+    if (s === 0) return 0;
+    const d = Math.abs(((h - hueCenter) % 360 + 540) % 360 - 180);
+    hueW = bandWeight(d, 0, hueWidth / 2, softness);
   }
+  if (hueW === 0) return 0;
+  return hueW
+    * bandWeight(s * 100, range.satMin, range.satMax, softness)
+    * bandWeight(l * 100, range.lightMin, range.lightMax, softness);
+}
 
-  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-  const data = imageData.data;
+/**
+ * Shift the colours of `pixels` in place. Only non-transparent pixels are
+ * touched — and, with `hsl.range`, only those inside the range, blended by
+ * how strongly they match.
+ */
+export function shiftHslPixels(pixels: RgbaBuffer, hsl: HSLAdjustment): RgbaBuffer {
+  const { data } = pixels;
+  if (hsl.hue === 0 && hsl.saturation === 0 && hsl.lightness === 0) return pixels;
 
   for (let i = 0; i < data.length; i += 4) {
     const a = data[i + 3];
@@ -76,50 +90,235 @@ export function applyHslShift(
     const r = data[i], g = data[i + 1], b = data[i + 2];
     let [h, s, l] = rgbToHsl(r, g, b);
 
+    const weight = hsl.range ? hslRangeWeight(h, s, l, hsl.range) : 1;
+    if (weight === 0) continue;
+
     h = (h + hsl.hue + 360) % 360;
     s = clamp(s + hsl.saturation / 100, 0, 1);
     l = clamp(l + hsl.lightness / 100, 0, 1);
 
     const [nr, ng, nb] = hslToRgb(h, s, l);
-    data[i] = nr;
-    data[i + 1] = ng;
-    data[i + 2] = nb;
+    data[i] = Math.round(r + (nr - r) * weight);
+    data[i + 1] = Math.round(g + (ng - g) * weight);
+    data[i + 2] = Math.round(b + (nb - b) * weight);
     // alpha unchanged
   }
+  return pixels;
+}
+
+/** Apply an HSL color shift to an image and return a new surface. */
+export function applyHslShift(
+  img: SurfaceSource,
+  hsl: HSLAdjustment
+): Surface {
+  const surface = copySurface(img);
+
+  // If no shift is applied, return as-is
+  if (hsl.hue === 0 && hsl.saturation === 0 && hsl.lightness === 0) {
+    return surface;
+  }
+
+  writePixels(surface, shiftHslPixels(readPixels(surface), hsl));
+  return surface;
+}
+
+// ─── Palette mapping ──────────────────────────────────────────────────────────
+
+export function parseHex(hex: string): [number, number, number] {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+export function toHex(r: number, g: number, b: number): string {
+  return '#' + ((r << 16) | (g << 8) | b).toString(16).padStart(6, '0');
+}
+
+/**
+ * Unique opaque colours in an image as '#rrggbb', darkest first.
+ * Stops collecting after `limit` colours — anything beyond that is not pixel art.
+ */
+export function extractColors(img: SurfaceSource, limit = 256): string[] {
+  const { data } = readPixels(copySurface(img));
+
+  const seen = new Set<number>();
+  for (let i = 0; i < data.length && seen.size < limit; i += 4) {
+    if (data[i + 3] === 0) continue;
+    seen.add((data[i] << 16) | (data[i + 1] << 8) | data[i + 2]);
+  }
 
-  ctx.putImageData(imageData, 0, 0);
-  return canvas;
+  const luma = (c: number) => 0.299 * ((c >> 16) & 255) + 0.587 * ((c >> 8) & 255) + 0.114 * (c & 255);
+  return [...seen].sort((a, b) => luma(a) - luma(b)).map(c => toHex((c >> 16) & 255, (c >> 8) & 255, c & 255));
+}
+
+/** Flatten ramps into an exact colour → colour lookup (24-bit RGB keys). */
+function buildColorMap(ramps: PaletteRamp[]): Map<number, [number, number, number]> {
+  const map = new Map<number, [number, number, number]>();
+  for (const { source, target } of ramps) {
+    if (target.length === 0) continue;
+    source.forEach((hex, i) => {
+      // Resample the target ramp so both ends of the source ramp line up with it
+      const t = source.length === 1 ? 0 : Math.round((i * (target.length - 1)) / (source.length - 1));
+      map.set(parseInt(hex.slice(1), 16), parseHex(target[t]));
+    });
+  }
+  return map;
+}
+
+/**
+ * Replace, in place, every pixel whose colour appears in a source ramp with
+ * its target colour. Unmapped colours and alpha are left untouched.
+ */
+export function mapPalettePixels(pixels: RgbaBuffer, ramps: PaletteRamp[]): RgbaBuffer {
+  const { data } = pixels;
+  const map = buildColorMap(ramps);
+  if (map.size === 0) return pixels;
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    const to = map.get((data[i] << 16) | (data[i + 1] << 8) | data[i + 2]);
+    if (!to) continue;
+    data[i] = to[0];
+    data[i + 1] = to[1];
+    data[i + 2] = to[2];
+  }
+  return pixels;
+}
+
+/** Palette-swap an image (see mapPalettePixels) and return a new surface. */
+export function applyPaletteMap(
+  img: SurfaceSource,
+  ramps: PaletteRamp[]
+): Surface {
+  const surface = copySurface(img);
+  if (ramps.every(r => r.target.length === 0)) return surface;
+  writePixels(surface, mapPalettePixels(readPixels(surface), ramps));
+  return surface;
+}
+
+/** The parts of a layer that decide its recoloured pixels. */
+export type ColorSettings = Pick<Layer, 'hsl' | 'colorMode' | 'paletteMap'>;
+
+/** Recolours layers off the main thread (see RenderPool). */
+export interface BackgroundShifter {
+  /** Resolves with the recoloured image, or null if a newer request for the layer replaced it. */
+  shift(layerId: string, img: SurfaceSource, settings: ColorSettings): Promise<SurfaceSource | null>;
+}
+
+interface CacheEntry {
+  key: string;
+  image: SurfaceSource;
+  canvas: SurfaceSource;
 }
 
 /**
- * Cache manager: stores color-shifted canvases keyed by layer id + hsl values.
- * Call invalidate(id) when the image changes.
+ * Cache manager: stores recoloured surfaces keyed by layer id + colour settings.
+ * Call invalidate(id) when the image changes. Entries are also tied to the
+ * source image, so undo/redo swapping a layer's image back can't serve a
+ * stale surface.
+ *
+ * With setShifter(), get() never recolours on the caller's thread: it starts
+ * a background job and returns the layer's last good result (or the
+ * unshifted image) until the job finishes, then notifies subscribers so
+ * views redraw. exact() gives a synchronous view of the same entries for
+ * exports, which must not contain stale colours.
  */
 export class ColorShiftCache {
-  private cache = new Map<string, { key: string; canvas: HTMLCanvasElement }>();
+  private cache: Map<string, CacheEntry>;
+  private shifter: BackgroundShifter | null = null;
+  private pending = new Map<string, { key: string; image: SurfaceSource }>();
+  private listeners = new Set<() => void>();
+  private exactView: ColorShiftCache | null = null;
+  /** Bumped whenever a background job lands; for useSyncExternalStore. */
+  version = 0;
+
+  constructor(entries = new Map<string, CacheEntry>()) {
+    this.cache = entries;
+  }
 
-  getKey(hsl: HSLAdjustment): string {
-    return `${hsl.hue}:${hsl.saturation}:${hsl.lightness}`;
+  getKey(settings: ColorSettings): string {
+    if (settings.colorMode === 'palette') {
+      return `palette:${JSON.stringify(settings.paletteMap ?? [])}`;
+    }
+    const { hsl } = settings;
+    const key = `${hsl.hue}:${hsl.saturation}:${hsl.lightness}`;
+    if (!hsl.range) return key;
+    const r = hsl.range;
+    return `${key}|${r.hueCenter}:${r.hueWidth}:${r.satMin}:${r.satMax}:${r.lightMin}:${r.lightMax}:${r.softness}`;
   }
 
   get(
     layerId: string,
-    img: HTMLImageElement,
-    hsl: HSLAdjustment
-  ): HTMLCanvasElement {
-    const key = this.getKey(hsl);
+    img: SurfaceSource,
+    settings: ColorSettings
+  ): SurfaceSource {
+    const key = this.getKey(settings);
     const cached = this.cache.get(layerId);
-    if (cached && cached.key === key) return cached.canvas;
-    const canvas = applyHslShift(img, hsl);
-    this.cache.set(layerId, { key, canvas });
+    if (cached && cached.key === key && cached.image === img) return cached.canvas;
+    if (this.shifter) {
+      this.request(this.shifter, layerId, img, settings, key);
+      return cached?.canvas ?? img;
+    }
+    const canvas = settings.colorMode === 'palette'
+      ? applyPaletteMap(img, settings.paletteMap ?? [])
+      : applyHslShift(img, settings.hsl);
+    this.cache.set(layerId, { key, image: img, canvas });
     return canvas;
   }
 
+  private request(shifter: BackgroundShifter, layerId: string, img: SurfaceSource, settings: ColorSettings, key: string) {
+    const pending = this.pending.get(layerId);
+    if (pending && pending.key === key && pending.image === img) return;
+    const job = { key, image: img };
+    this.pending.set(layerId, job);
+
+    shifter.shift(layerId, img, settings).then(
+      canvas => {
+        if (this.pending.get(layerId) !== job || !canvas) return;
+        this.pending.delete(layerId);
+        this.cache.set(layerId, { key, image: img, canvas });
+        this.notify();
+      },
+      () => {
+        // Worker failed — recolour here rather than show stale colours forever
+        if (this.pending.get(layerId) !== job) return;
+        this.pending.delete(layerId);
+        this.exact().get(layerId, img, settings);
+        this.notify();
+      }
+    );
+  }
+
+  private notify() {
+    this.version++;
+    this.listeners.forEach(l => l());
+  }
+
+  /** Recolour through `shifter` from now on; null goes back to recolouring inline. */
+  setShifter(shifter: BackgroundShifter | null) {
+    this.shifter = shifter;
+    this.pending.clear();
+  }
+
+  /** A synchronous view sharing this cache's entries: get() always returns current colours. */
+  exact(): ColorShiftCache {
+    if (!this.shifter) return this;
+    this.exactView ??= new ColorShiftCache(this.cache);
+    return this.exactView;
+  }
+
+  /** Call `listener` whenever a background result arrives. Returns an unsubscribe function. */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
   invalidate(layerId: string) {
     this.cache.delete(layerId);
+    this.pending.delete(layerId);
   }
 
   clear() {
     this.cache.clear();
+    this.pending.clear();
   }
 }
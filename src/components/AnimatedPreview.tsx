@@ -1,9 +1,11 @@
 import React, { useRef, useEffect, useCallback } from 'react';
 import type { AppState, AppAction, Direction, PlaybackMode } from '../types';
-import { DIRECTIONS_4, DIRECTIONS_8 } from '../types';
+import { DIRECTIONS_4, DIRECTIONS_8, frameDuration, frameDurations } from '../types';
 import { ColorShiftCache } from '../colorShift';
 import { compositeFrame } from '../compositing';
-import { getDirectionRow } from '../state';
+import { getDirectionRow, getAnimationIndex } from '../state';
+import { useCacheVersion } from '../hooks/useCacheVersion';
+import { NumericInput } from './NumericInput';
 
 interface AnimatedPreviewProps {
   state: AppState;
@@ -21,19 +23,24 @@ const MODE_LABELS: Record<PlaybackMode, string> = {
 
 export function AnimatedPreview({ state, dispatch, cache, mobile, onClose }: AnimatedPreviewProps) {
   const {
-    layers, config, previewDirection, previewFrame, previewPlaying,
+    layers, config, previewAnimation, previewDirection, previewFrame, previewPlaying,
     previewMode, previewFps, previewZoom
   } = state;
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animFrameRef = useRef<number | null>(null);
+  const cacheVersion = useCacheVersion(cache);
   const lastTimeRef = useRef<number>(0);
   // Ping-pong needs its own step direction (+1 / -1) tracked in a ref
   // so it persists across renders without being part of shared state.
   const ppDirRef = useRef<1 | -1>(1);
 
+  const animIndex = getAnimationIndex(config, previewAnimation);
   const dirRow = getDirectionRow(previewDirection, config.directions);
-  const totalFrames = config.framesPerDirection;
+  const anim = config.animations[animIndex];
+  const totalFrames = anim.frameCount;
+  // How long the current frame is held — per-frame timing, else the preview FPS
+  const currentDuration = frameDuration(anim, previewFrame, previewFps);
   const directions: Direction[] = config.directions === 4 ? [...DIRECTIONS_4] : [...DIRECTIONS_8];
 
   // Draw current frame
@@ -42,10 +49,11 @@ export function AnimatedPreview({ state, dispatch, cache, mobile, onClose }: Ani
     if (!canvas) return;
     canvas.width = config.frameWidth;
     canvas.height = config.frameHeight;
-    compositeFrame(canvas, layers, config, dirRow, previewFrame, cache);
-  }, [layers, config, dirRow, previewFrame, cache]);
+    compositeFrame(canvas, layers, config, animIndex, dirRow, previewFrame, cache);
+  }, [layers, config, animIndex, dirRow, previewFrame, cache]);
 
-  useEffect(() => { drawFrame(); }, [drawFrame]);
+  // Also redraw when background recolouring finishes
+  useEffect(() => { drawFrame(); }, [drawFrame, cacheVersion]);
 
   // Reset ping-pong direction whenever playback starts fresh or mode changes
   useEffect(() => {
@@ -59,14 +67,16 @@ export function AnimatedPreview({ state, dispatch, cache, mobile, onClose }: Ani
       return;
     }
 
-    const interval = 1000 / previewFps;
+    const interval = currentDuration;
 
     function tick(time: number) {
       if (time - lastTimeRef.current >= interval) {
         lastTimeRef.current = time;
 
         let next: number;
-        if (previewMode === 'forward') {
+        if (totalFrames <= 1) {
+          next = 0;
+        } else if (previewMode === 'forward') {
           next = (previewFrame + 1) % totalFrames;
         } else if (previewMode === 'reverse') {
           next = (previewFrame - 1 + totalFrames) % totalFrames;
@@ -91,7 +101,13 @@ export function AnimatedPreview({ state, dispatch, cache, mobile, onClose }: Ani
     return () => {
       if (animFrameRef.current) cancelAnimationFrame(animFrameRef.current);
     };
-  }, [previewPlaying, previewFps, previewFrame, previewMode, totalFrames, dispatch]);
+  }, [previewPlaying, currentDuration, previewFrame, previewMode, totalFrames, dispatch]);
+
+  function setCurrentDuration(ms: number) {
+    const durations = frameDurations(anim, previewFps);
+    durations[previewFrame] = ms;
+    dispatch({ type: 'SET_FRAME_DURATIONS', animationId: anim.id, durations });
+  }
 
   const displaySize = config.frameWidth * previewZoom;
   const displayHeight = config.frameHeight * previewZoom;
@@ -129,6 +145,27 @@ export function AnimatedPreview({ state, dispatch, cache, mobile, onClose }: Ani
           />
         </div>
 
+        {/* Animation selector */}
+        <div className="flex flex-col gap-1 w-full">
+          <label className="text-xs text-gray-400">Animation</label>
+          <div className="grid grid-cols-2 gap-1">
+            {config.animations.map(a => (
+              <button
+                key={a.id}
+                onClick={() => dispatch({ type: 'SET_PREVIEW_ANIMATION', animationId: a.id })}
+                className={`text-xs py-1 px-1 rounded truncate ${
+                  config.animations[animIndex].id === a.id
+                    ? 'bg-indigo-600 text-white'
+                    : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                }`}
+                title={`${a.name} (${a.frameCount} frames)`}
+              >
+                {a.name}
+              </button>
+            ))}
+          </div>
+        </div>
+
         {/* Direction selector */}
         <div className="flex flex-col gap-1 w-full">
           <label className="text-xs text-gray-400">Direction</label>
@@ -211,15 +248,42 @@ export function AnimatedPreview({ state, dispatch, cache, mobile, onClose }: Ani
                   ? 'bg-indigo-600 text-white'
                   : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
               }`}
+              title={`${frameDuration(anim, i, previewFps)} ms`}
             >
               {i + 1}
             </button>
           ))}
         </div>
 
+        {/* Per-frame timing */}
+        <div className="flex flex-col gap-1 w-full">
+          <label className="text-xs text-gray-400">Frame {previewFrame + 1} duration</label>
+          <div className="flex items-center gap-1">
+            <NumericInput
+              value={currentDuration}
+              min={10}
+              max={10000}
+              onChange={setCurrentDuration}
+              className="bg-gray-800 border border-gray-600 text-white text-xs px-2 py-1 rounded w-16 text-center"
+            />
+            <span className="text-xs text-gray-500">ms</span>
+            <button
+              onClick={() => dispatch({ type: 'SET_FRAME_DURATIONS', animationId: anim.id, durations: undefined })}
+              disabled={!anim.frameDurations}
+              className="ml-auto text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-40 text-gray-300 px-2 py-1 rounded"
+              title="Clear per-frame timings and use the FPS slider for every frame"
+            >
+              Reset
+            </button>
+          </div>
+        </div>
+
         {/* FPS */}
         <div className="flex flex-col gap-1 w-full">
-          <label className="text-xs text-gray-400">Speed: {previewFps} FPS</label>
+          <label className="text-xs text-gray-400">
+            Speed: {previewFps} FPS
+            {anim.frameDurations && <span className="text-gray-600 ml-1">(custom timings set)</span>}
+          </label>
           <input
             type="range" min={1} max={30} step={1}
             value={previewFps}
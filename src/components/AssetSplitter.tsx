@@ -1,11 +1,18 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
-import type { AppState, AppAction, LibraryAsset, SplitterTool, SelectionMode } from '../types';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
+import type { AppState, AppAction, Layer, LibraryAsset, SplitterTool, SelectionMode } from '../types';
 import { DIRECTIONS_4, DIRECTIONS_8 } from '../types';
-import { trimTransparent, compositeFrame, renderFullSheet } from '../compositing';
-import { ColorShiftCache } from '../colorShift';
+import { trimTransparent, compositeFrame, renderFullSheet, packCells } from '../compositing';
+import type { RgbaBuffer, Surface } from '../surface';
+import { readPixels, writePixels, surfaceToBlob, copySurface } from '../surface';
+import { ColorShiftCache, parseHex, toHex } from '../colorShift';
+import type { Box, SliceGrid } from '../selection';
+import { wandSelect, selectColor, findIslands, clearColor, gridSize, gridCell, gridCellAt, boxIsEmpty } from '../selection';
+import { NumericInput } from './NumericInput';
 import { useIsMobile } from '../hooks/useIsMobile';
 
 import { ImportFrameModal } from './ImportFrameModal';
+import { ColorKeyModal } from './ColorKeyModal';
+import { useColorKey } from '../hooks/useColorKey';
 
 interface AssetSplitterProps {
   state: AppState;
@@ -129,6 +136,31 @@ function paintLasso(
   ctx.globalCompositeOperation = 'source-over';
 }
 
+/** Paint a per-pixel selection (1 = selected) into the mask. */
+function paintPixels(mask: HTMLCanvasElement, selected: Uint8Array, mode: SelectionMode) {
+  const ctx = mask.getContext('2d')!;
+  if (mode === 'replace') ctx.clearRect(0, 0, mask.width, mask.height);
+  const imageData = ctx.getImageData(0, 0, mask.width, mask.height);
+  const { data } = imageData;
+  const on = mode === 'subtract' ? 0 : 255;
+  for (let i = 0; i < selected.length; i++) {
+    if (selected[i]) data.fill(on, i * 4, i * 4 + 4);
+  }
+  ctx.putImageData(imageData, 0, 0);
+}
+
+// Source pixels per loaded image, read once for the colour selection tools
+const imagePixels = new WeakMap<HTMLImageElement, RgbaBuffer>();
+
+function pixelsOf(image: HTMLImageElement): RgbaBuffer {
+  let pixels = imagePixels.get(image);
+  if (!pixels) {
+    pixels = readPixels(copySurface(image));
+    imagePixels.set(image, pixels);
+  }
+  return pixels;
+}
+
 // ─── Handle hit testing ───────────────────────────────────────────────────────
 
 type HandleId = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w';
@@ -166,6 +198,32 @@ const HANDLE_CURSORS: Record<HandleId, string> = {
   sw: 'sw-resize', w: 'w-resize',
 };
 
+/** `orig` dragged by (dx, dy) on a handle — or moved whole — kept inside the image. */
+function dragBounds(
+  orig: Box,
+  handleId: HandleId | 'move',
+  dx: number, dy: number,
+  imgW: number, imgH: number
+): Box {
+  if (handleId === 'move') {
+    return {
+      x: Math.max(0, Math.min(orig.x + dx, imgW - orig.w)),
+      y: Math.max(0, Math.min(orig.y + dy, imgH - orig.h)),
+      w: orig.w, h: orig.h,
+    };
+  }
+  let { x, y, w, h } = orig;
+  if (handleId.includes('w')) { x = Math.min(orig.x + orig.w - 1, x + dx); w = orig.x + orig.w - x; }
+  if (handleId.includes('e')) { w = Math.max(1, orig.w + dx); }
+  if (handleId.includes('n')) { y = Math.min(orig.y + orig.h - 1, y + dy); h = orig.y + orig.h - y; }
+  if (handleId.includes('s')) { h = Math.max(1, orig.h + dy); }
+
+  x = Math.max(0, x); y = Math.max(0, y);
+  w = Math.min(w, imgW - x);
+  h = Math.min(h, imgH - y);
+  return { x, y, w, h };
+}
+
 // ─── Drag state ───────────────────────────────────────────────────────────────
 
 type DragState =
@@ -173,6 +231,7 @@ type DragState =
   | { kind: 'box';    mode: SelectionMode; startImgX: number; startImgY: number }
   | { kind: 'lasso';  mode: SelectionMode; points: Array<{ x: number; y: number }> }
   | { kind: 'handle'; handleId: HandleId; origBounds: { x: number; y: number; w: number; h: number }; startImgX: number; startImgY: number }
+  | { kind: 'slice';  index: number; handleId: HandleId | 'move'; origBounds: Box; startImgX: number; startImgY: number }
   | { kind: 'pan';    startClientX: number; startClientY: number; startScrollLeft: number; startScrollTop: number };
 
 // ─── Extract through mask ─────────────────────────────────────────────────────
@@ -189,7 +248,33 @@ function extractThroughMask(
   ctx.globalCompositeOperation = 'destination-in';
   ctx.drawImage(mask, bounds.x, bounds.y, bounds.w, bounds.h, 0, 0, bounds.w, bounds.h);
   ctx.globalCompositeOperation = 'source-over';
+  return trimCanvas(crop);
+}
+
+function cropBox(image: HTMLImageElement, box: Box): HTMLCanvasElement {
+  const crop = document.createElement('canvas');
+  crop.width = box.w; crop.height = box.h;
+  crop.getContext('2d')!.drawImage(image, box.x, box.y, box.w, box.h, 0, 0, box.w, box.h);
+  return crop;
+}
 
+/** Crop one auto-slice box, keying out the background colour if there is one. */
+function extractBox(
+  image: HTMLImageElement,
+  box: Box,
+  key: { color: [number, number, number]; tolerance: number } | null
+): HTMLCanvasElement {
+  const crop = cropBox(image, box);
+  if (key) {
+    const pixels = readPixels(crop);
+    clearColor(pixels, key.color, key.tolerance);
+    writePixels(crop, pixels);
+  }
+  return trimCanvas(crop);
+}
+
+/** The canvas cropped to its opaque pixels (or itself if it has none). */
+function trimCanvas(crop: HTMLCanvasElement): HTMLCanvasElement {
   const trimmed = trimTransparent(crop);
   if (!trimmed) return crop;
   const out = document.createElement('canvas');
@@ -198,11 +283,75 @@ function extractThroughMask(
   return out;
 }
 
+/** Encode an extracted canvas as a new Library asset. */
+async function canvasToAsset(canvas: HTMLCanvasElement, name: string, tags: string[]): Promise<LibraryAsset> {
+  const blob = await surfaceToBlob(canvas);
+  const objectUrl = URL.createObjectURL(blob);
+  const img = new Image();
+  img.src = objectUrl;
+  await img.decode();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    tags,
+    objectUrl,
+    image: img,
+    width: img.naturalWidth,
+    height: img.naturalHeight,
+    createdAt: Date.now(),
+  };
+}
+
+// ─── Auto slice ───────────────────────────────────────────────────────────────
+
+interface AutoSliceOptions {
+  /** 'key' treats `keyColor` as background, for sheets without transparency. */
+  background: 'transparent' | 'key';
+  keyColor: string;
+  tolerance: number;
+  minSize: number;
+  mergeDistance: number;
+}
+
+const DEFAULT_AUTO_SLICE: AutoSliceOptions = {
+  background: 'transparent',
+  keyColor: '#ff00ff',
+  tolerance: 8,
+  minSize: 4,
+  mergeDistance: 2,
+};
+
+/** Numbered asset names, zero-padded so they sort in order: name_01, name_02… */
+function numberedName(name: string, index: number, count: number): string {
+  return `${name}_${String(index + 1).padStart(String(count).length, '0')}`;
+}
+
+// ─── Grid slice ───────────────────────────────────────────────────────────────
+
+interface GridPos {
+  col: number;
+  row: number;
+}
+
+const NO_PICKS: GridPos[] = [];
+
+/** Index of the topmost box containing image pixel (x, y), or -1. */
+function sliceAt(boxes: Box[], x: number, y: number): number {
+  for (let i = boxes.length - 1; i >= 0; i--) {
+    const b = boxes[i];
+    if (x >= b.x && x < b.x + b.w && y >= b.y && y < b.y + b.h) return i;
+  }
+  return -1;
+}
+
 // ─── Component ────────────────────────────────────────────────────────────────
 
 export function AssetSplitter({ state, dispatch, cache }: AssetSplitterProps) {
   const { splitter } = state;
   const isMobile = useIsMobile();
+  const colorKey = useColorKey();
+  // Whether the file picker was opened with "Remove background…"
+  const removeBackgroundRef = useRef(false);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -210,6 +359,10 @@ export function AssetSplitter({ state, dispatch, cache }: AssetSplitterProps) {
   const marchingPhaseRef = useRef(0);
 
   const [tool, setTool] = useState<SplitterTool>('box');
+  // Magic wand: max per-channel difference from the clicked colour, and
+  // whether to grow from the click or match across the whole image
+  const [wandTolerance, setWandTolerance] = useState(32);
+  const [wandContiguous, setWandContiguous] = useState(true);
   const zoom = splitter.zoom;
   const setZoom = useCallback((z: number) => dispatch({ type: 'SET_SPLITTER', updates: { zoom: z } }), [dispatch]);
   const [extractName, setExtractName] = useState('asset');
@@ -221,6 +374,36 @@ export function AssetSplitter({ state, dispatch, cache }: AssetSplitterProps) {
   const [showLayerMenu, setShowLayerMenu] = useState(false);
   const layerMenuRef = useRef<HTMLDivElement>(null);
   const [framePickerLayerId, setFramePickerLayerId] = useState<string | null>(null);
+  // Auto and grid slicing replace the selection tools while open. Detected
+  // boxes and picked cells belong to the image they were made on, so loading
+  // another image drops them
+  const [sliceMode, setSliceMode] = useState<'auto' | 'grid' | null>(null);
+  const [sliceOptions, setSliceOptions] = useState<AutoSliceOptions>(DEFAULT_AUTO_SLICE);
+  const [slicing, setSlicing] = useState<{ image: HTMLImageElement; boxes: Box[] } | null>(null);
+  const [sliceIndex, setSliceIndex] = useState<number | null>(null);
+  const [slicingBusy, setSlicingBusy] = useState(false);
+  const slices = sliceMode === 'auto' && slicing && slicing.image === splitter.image ? slicing.boxes : null;
+  const [grid, setGrid] = useState<SliceGrid>(() => ({
+    cellWidth: state.config.frameWidth,
+    cellHeight: state.config.frameHeight,
+    margin: 0, spacing: 0, offsetX: 0, offsetY: 0,
+  }));
+  const [gridPicking, setGridPicking] = useState<{ image: HTMLImageElement; cells: GridPos[] } | null>(null);
+  const gridImage = sliceMode === 'grid' ? splitter.image : null;
+  const gridPicks = gridImage && gridPicking?.image === gridImage ? gridPicking.cells : NO_PICKS;
+  // Grid dimensions and which cells have any opaque pixel
+  const gridLayout = useMemo(() => {
+    if (!gridImage) return null;
+    const size = gridSize(grid, gridImage.naturalWidth, gridImage.naturalHeight);
+    const pixels = pixelsOf(gridImage);
+    const filled: GridPos[] = [];
+    for (let row = 0; row < size.rows; row++) {
+      for (let col = 0; col < size.cols; col++) {
+        if (!boxIsEmpty(pixels, gridCell(grid, col, row))) filled.push({ col, row });
+      }
+    }
+    return { ...size, filled };
+  }, [gridImage, grid]);
 
   const liveMaskRef = useRef<HTMLCanvasElement | null>(null);
   const dragRef = useRef<DragState>({ kind: 'none' });
@@ -309,8 +492,59 @@ export function AssetSplitter({ state, dispatch, cache }: AssetSplitterProps) {
       ctx.fillText(`${committedBounds.w}×${committedBounds.h}px`, bx + 3, by > 18 ? by - 16 : by + 4);
     }
 
+    // ── Grid cells: filled ones outlined, picked ones tinted ──────────────────
+    if (gridLayout) {
+      ctx.save();
+      ctx.lineWidth = 1;
+      const filled = new Set(gridLayout.filled.map(p => `${p.col},${p.row}`));
+      const picked = new Set(gridPicks.map(p => `${p.col},${p.row}`));
+      for (let row = 0; row < gridLayout.rows; row++) {
+        for (let col = 0; col < gridLayout.cols; col++) {
+          const b = gridCell(grid, col, row);
+          const k = `${col},${row}`;
+          if (picked.has(k)) {
+            ctx.fillStyle = 'rgba(99,102,241,0.35)';
+            ctx.fillRect(b.x * zoom, b.y * zoom, b.w * zoom, b.h * zoom);
+          }
+          ctx.strokeStyle = picked.has(k) ? '#818cf8' : filled.has(k) ? 'rgba(250,204,21,0.7)' : 'rgba(255,255,255,0.2)';
+          ctx.strokeRect(b.x * zoom + 0.5, b.y * zoom + 0.5, b.w * zoom - 1, b.h * zoom - 1);
+        }
+      }
+      ctx.restore();
+    }
+
+    // ── Auto-slice boxes, numbered in extraction order ─────────────────────────
+    if (slices) {
+      ctx.save();
+      ctx.font = '10px monospace';
+      ctx.textBaseline = 'top';
+      slices.forEach((b, i) => {
+        if (drag.kind === 'slice' && drag.index === i) return; // drawn live below
+        const selected = i === sliceIndex;
+        ctx.strokeStyle = selected ? '#818cf8' : 'rgba(250,204,21,0.9)';
+        ctx.lineWidth = selected ? 2 : 1;
+        ctx.strokeRect(b.x * zoom + 0.5, b.y * zoom + 0.5, b.w * zoom, b.h * zoom);
+        const label = String(i + 1);
+        ctx.fillStyle = 'rgba(20,20,40,0.85)';
+        ctx.fillRect(b.x * zoom, b.y * zoom, ctx.measureText(label).width + 4, 12);
+        ctx.fillStyle = selected ? '#c7d2fe' : '#fde68a';
+        ctx.fillText(label, b.x * zoom + 2, b.y * zoom + 1);
+      });
+      const sel = sliceIndex !== null ? slices[sliceIndex] : undefined;
+      if (sel && drag.kind === 'none') {
+        ctx.fillStyle = 'white';
+        ctx.strokeStyle = '#6366f1';
+        ctx.lineWidth = 1.5;
+        for (const hh of getHandles(sel, zoom)) {
+          ctx.fillRect(hh.px - 4, hh.py - 4, 8, 8);
+          ctx.strokeRect(hh.px - 4, hh.py - 4, 8, 8);
+        }
+      }
+      ctx.restore();
+    }
+
     // ── In-progress drag preview (drawn on top of committed selection) ─────────
-    if ((drag.kind === 'box' || drag.kind === 'handle') && liveDragRectRef.current) {
+    if ((drag.kind === 'box' || drag.kind === 'handle' || drag.kind === 'slice') && liveDragRectRef.current) {
       // Live box/handle: draw rect directly from stored coords — no mask read needed
       const lb = liveDragRectRef.current;
       ctx.save();
@@ -335,7 +569,7 @@ export function AssetSplitter({ state, dispatch, cache }: AssetSplitterProps) {
       ctx.setLineDash([]);
       ctx.restore();
     }
-  }, [splitter.image, splitter.selectionBounds, zoom]);
+  }, [splitter.image, splitter.selectionBounds, zoom, slices, sliceIndex, grid, gridLayout, gridPicks]);
 
   // Marching-ants animation loop — only redraws when a selection exists or drag is active
   useEffect(() => {
@@ -465,6 +699,36 @@ export function AssetSplitter({ state, dispatch, cache }: AssetSplitterProps) {
     const ip = toImgCoords(cx, cy);
     const mode = selectionMode(e);
 
+    // Grid slice: click a cell to pick or unpick it
+    if (gridLayout && gridImage) {
+      const cell = gridCellAt(grid, gridLayout, Math.floor(cx / zoom), Math.floor(cy / zoom));
+      if (cell) {
+        const picked = gridPicks.some(p => p.col === cell.col && p.row === cell.row);
+        setGridPicking({
+          image: gridImage,
+          cells: picked ? gridPicks.filter(p => p.col !== cell.col || p.row !== cell.row) : [...gridPicks, cell],
+        });
+      }
+      return;
+    }
+
+    // Auto-slice boxes replace the selection tools while they are shown:
+    // drag a handle of the chosen box to resize it, or any box to move it
+    if (slices) {
+      const chosen = sliceIndex !== null ? slices[sliceIndex] : undefined;
+      const handle = chosen && hitHandle(cx, cy, chosen, zoom);
+      if (chosen && handle) {
+        dragRef.current = { kind: 'slice', index: sliceIndex!, handleId: handle, origBounds: { ...chosen }, startImgX: ip.x, startImgY: ip.y };
+        return;
+      }
+      const hit = sliceAt(slices, ip.x, ip.y);
+      setSliceIndex(hit >= 0 ? hit : null);
+      if (hit >= 0) {
+        dragRef.current = { kind: 'slice', index: hit, handleId: 'move', origBounds: { ...slices[hit] }, startImgX: ip.x, startImgY: ip.y };
+      }
+      return;
+    }
+
     // Check resize handle first (box tool only)
     if (tool === 'box' && splitter.selectionBounds) {
       const handle = hitHandle(cx, cy, splitter.selectionBounds, zoom);
@@ -474,6 +738,23 @@ export function AssetSplitter({ state, dispatch, cache }: AssetSplitterProps) {
       }
     }
 
+    if (tool === 'wand' || tool === 'color') {
+      // Single click — select by colour at the pixel under the cursor
+      const img = splitter.image;
+      const px = Math.floor(cx / zoom), py = Math.floor(cy / zoom);
+      const pixels = pixelsOf(img);
+      const selected = tool === 'wand'
+        ? wandSelect(pixels, px, py, wandTolerance, wandContiguous)
+        : selectColor(pixels, px, py);
+      const m = createMask(img.naturalWidth, img.naturalHeight);
+      if (mode !== 'replace' && splitter.selectionMask)
+        m.getContext('2d')!.drawImage(splitter.selectionMask, 0, 0);
+      paintPixels(m, selected, mode);
+      commitMask(m);
+      redraw();
+      return;
+    }
+
     if (tool === 'box') {
       dragRef.current = { kind: 'box', mode, startImgX: ip.x, startImgY: ip.y };
       if (mode === 'replace') liveMaskRef.current = null;
@@ -499,7 +780,11 @@ export function AssetSplitter({ state, dispatch, cache }: AssetSplitterProps) {
     const img = splitter.image;
 
     if (drag.kind === 'none') {
-      if (tool === 'box' && splitter.selectionBounds) {
+      if (slices) {
+        const chosen = sliceIndex !== null ? slices[sliceIndex] : undefined;
+        const handle = chosen && hitHandle(cx, cy, chosen, zoom);
+        setCursor(handle ? HANDLE_CURSORS[handle] : sliceAt(slices, ip.x, ip.y) >= 0 ? 'move' : 'crosshair');
+      } else if (tool === 'box' && splitter.selectionBounds) {
         const handle = hitHandle(cx, cy, splitter.selectionBounds, zoom);
         setCursor(handle ? HANDLE_CURSORS[handle] : 'crosshair');
       }
@@ -525,22 +810,11 @@ export function AssetSplitter({ state, dispatch, cache }: AssetSplitterProps) {
         pts.push(clampToImg(ip.x, ip.y));
         redraw();
       }
-    } else if (drag.kind === 'handle') {
+    } else if (drag.kind === 'handle' || drag.kind === 'slice') {
       const { handleId, origBounds, startImgX: sx, startImgY: sy } = drag;
-      const dx = ip.x - sx, dy = ip.y - sy;
-      let { x, y, w, h } = origBounds;
-
-      if (handleId.includes('w')) { x = Math.min(origBounds.x + origBounds.w - 1, x + dx); w = origBounds.x + origBounds.w - x; }
-      if (handleId.includes('e')) { w = Math.max(1, origBounds.w + dx); }
-      if (handleId.includes('n')) { y = Math.min(origBounds.y + origBounds.h - 1, y + dy); h = origBounds.y + origBounds.h - y; }
-      if (handleId.includes('s')) { h = Math.max(1, origBounds.h + dy); }
-
-      x = Math.max(0, x); y = Math.max(0, y);
-      w = Math.min(w, img.naturalWidth  - x);
-      h = Math.min(h, img.naturalHeight - y);
-
-      if (w > 0 && h > 0) {
-        liveDragRectRef.current = { x, y, w, h };
+      const b = dragBounds(origBounds, handleId, ip.x - sx, ip.y - sy, img.naturalWidth, img.naturalHeight);
+      if (b.w > 0 && b.h > 0) {
+        liveDragRectRef.current = b;
         redraw();
       }
     }
@@ -569,6 +843,14 @@ export function AssetSplitter({ state, dispatch, cache }: AssetSplitterProps) {
     if (!splitter.image) return;
     const img = splitter.image;
 
+    if (drag.kind === 'slice') {
+      if (liveRect && slicing) {
+        setSlicing({ ...slicing, boxes: slicing.boxes.map((b, i) => (i === drag.index ? liveRect : b)) });
+      }
+      redraw();
+      return;
+    }
+
     if (drag.kind === 'lasso') {
       const pts = drag.points;
       if (pts.length >= 3) {
@@ -606,30 +888,17 @@ export function AssetSplitter({ state, dispatch, cache }: AssetSplitterProps) {
     return extracted;
   }
 
-  function handleAddToLibrary() {
+  async function handleAddToLibrary() {
     const canvas = splitter.extractedCanvas ?? doExtract();
     if (!canvas) return;
-    canvas.toBlob(blob => {
-      if (!blob) return;
-      const objectUrl = URL.createObjectURL(blob);
-      const img = new Image();
-      img.onload = () => {
-        const tags = extractTags.split(',').map(t => t.trim()).filter(Boolean);
-        const asset: LibraryAsset = {
-          id: crypto.randomUUID(),
-          name: extractName,
-          tags,
-          objectUrl,
-          image: img,
-          width: img.naturalWidth,
-          height: img.naturalHeight,
-          createdAt: Date.now(),
-        };
-        dispatch({ type: 'ADD_LIBRARY_ASSET', asset });
-        dispatch({ type: 'SET_TAB', tab: 'library' });
-      };
-      img.src = objectUrl;
-    }, 'image/png');
+    const tags = extractTags.split(',').map(t => t.trim()).filter(Boolean);
+    try {
+      const asset = await canvasToAsset(canvas, extractName, tags);
+      dispatch({ type: 'ADD_LIBRARY_ASSET', asset });
+      dispatch({ type: 'SET_TAB', tab: 'library' });
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Failed to add the selection to the library.');
+    }
   }
 
   function handleAddAsLayer() {
@@ -650,6 +919,113 @@ export function AssetSplitter({ state, dispatch, cache }: AssetSplitterProps) {
     }, 'image/png');
   }
 
+  function handleDetectSlices() {
+    if (!splitter.image) return;
+    const { background, keyColor, tolerance, minSize, mergeDistance } = sliceOptions;
+    const boxes = findIslands(pixelsOf(splitter.image), {
+      background: background === 'key' ? parseHex(keyColor) : null,
+      tolerance, minSize, mergeDistance,
+    });
+    setSlicing({ image: splitter.image, boxes });
+    setSliceIndex(null);
+  }
+
+  /** Use the top-left pixel as the key colour — usually background on ripped sheets. */
+  function handleSampleKey() {
+    if (!splitter.image) return;
+    const [r, g, b] = pixelsOf(splitter.image).data;
+    setSliceOptions({ ...sliceOptions, background: 'key', keyColor: toHex(r, g, b) });
+  }
+
+  function handleDeleteSlice() {
+    if (!slicing || sliceIndex === null) return;
+    setSlicing({ ...slicing, boxes: slicing.boxes.filter((_, i) => i !== sliceIndex) });
+    setSliceIndex(null);
+  }
+
+  async function handleExtractSlices() {
+    const image = splitter.image;
+    if (!image || !slices?.length) return;
+    const key = sliceOptions.background === 'key'
+      ? { color: parseHex(sliceOptions.keyColor), tolerance: sliceOptions.tolerance }
+      : null;
+    const tags = extractTags.split(',').map(t => t.trim()).filter(Boolean);
+    setSlicingBusy(true);
+    try {
+      const assets = await Promise.all(slices.map((box, i) =>
+        canvasToAsset(extractBox(image, box, key), numberedName(extractName, i, slices.length), tags)
+      ));
+      dispatch({ type: 'ADD_LIBRARY_ASSETS', assets });
+      dispatch({ type: 'SET_TAB', tab: 'library' });
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Failed to extract the slices.');
+    } finally {
+      setSlicingBusy(false);
+    }
+  }
+
+  /** Cells the grid actions apply to: the picked ones, or else every non-empty cell — in reading order. */
+  function gridTargets(): Box[] {
+    const cells = gridPicks.length ? gridPicks : gridLayout?.filled ?? [];
+    return [...cells]
+      .sort((a, b) => a.row - b.row || a.col - b.col)
+      .map(p => gridCell(grid, p.col, p.row));
+  }
+
+  async function handleGridToLibrary() {
+    const image = splitter.image;
+    const boxes = gridTargets();
+    if (!image || !boxes.length) return;
+    const tags = extractTags.split(',').map(t => t.trim()).filter(Boolean);
+    setSlicingBusy(true);
+    try {
+      // Whole cells, untrimmed, so they line up again when imported into frames
+      const assets = await Promise.all(boxes.map((box, i) =>
+        canvasToAsset(cropBox(image, box), numberedName(extractName, i, boxes.length), tags)
+      ));
+      dispatch({ type: 'ADD_LIBRARY_ASSETS', assets });
+      dispatch({ type: 'SET_TAB', tab: 'library' });
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Failed to extract the cells.');
+    } finally {
+      setSlicingBusy(false);
+    }
+  }
+
+  async function handleGridToLayer() {
+    const image = splitter.image;
+    const boxes = gridTargets();
+    if (!image || !boxes.length) return;
+    setSlicingBusy(true);
+    try {
+      const blob = await surfaceToBlob(packCells(image, boxes, state.config));
+      const objectUrl = URL.createObjectURL(blob);
+      const img = new Image();
+      img.src = objectUrl;
+      await img.decode();
+      const layer: Layer = {
+        id: crypto.randomUUID(),
+        name: extractName,
+        type: 'Custom',
+        visible: true,
+        opacity: 100,
+        hsl: { hue: 0, saturation: 0, lightness: 0 },
+        image: img,
+        objectUrl,
+        fileName: extractName + '.png',
+        offsetX: 0,
+        offsetY: 0,
+        inputLayout: { ...state.config.defaultInputLayout },
+      };
+      dispatch({ type: 'ADD_LAYER', layer });
+      dispatch({ type: 'SET_TAB', tab: 'composer' });
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Failed to build the layer.');
+    } finally {
+      setSlicingBusy(false);
+    }
+  }
+
   function handleClear() {
     liveMaskRef.current = null;
     maskOutlineRef.current = null;
@@ -681,30 +1057,30 @@ export function AssetSplitter({ state, dispatch, cache }: AssetSplitterProps) {
   function loadLayerSheet(layerId: string) {
     const layer = state.layers.find(l => l.id === layerId);
     if (!layer?.image) return;
-    const canvas = renderFullSheet([layer], state.config, cache);
+    const canvas = renderFullSheet([layer], state.config, cache.exact());
     loadCanvasIntoSplitter(canvas, `${layer.name} (sheet)`);
     setShowLayerMenu(false);
   }
 
   /** Load a specific frame of a layer into the splitter. */
-  function loadLayerFrame(layerId: string, dirRow: number, frameIdx: number) {
+  function loadLayerFrame(layerId: string, animIndex: number, dirRow: number, frameIdx: number) {
     const layer = state.layers.find(l => l.id === layerId);
     if (!layer?.image) return;
     const dirs = state.config.directions === 4 ? DIRECTIONS_4 : DIRECTIONS_8;
     const dirName = dirs[dirRow] ?? `dir${dirRow}`;
+    const animName = state.config.animations.length > 1 ? `${state.config.animations[animIndex].name} ` : '';
     const cv = document.createElement('canvas');
     cv.width = state.config.frameWidth;
     cv.height = state.config.frameHeight;
-    compositeFrame(cv, [layer], state.config, dirRow, frameIdx, cache);
-    loadCanvasIntoSplitter(cv, `${layer.name} (${dirName} #${frameIdx + 1})`);
+    compositeFrame(cv, [layer], state.config, animIndex, dirRow, frameIdx, cache.exact());
+    loadCanvasIntoSplitter(cv, `${layer.name} (${animName}${dirName} #${frameIdx + 1})`);
     setShowLayerMenu(false);
     setFramePickerLayerId(null);
   }
 
   /** Common helper: convert a canvas to an HTMLImageElement and load it into the splitter. */
-  function loadCanvasIntoSplitter(canvas: HTMLCanvasElement, name: string) {
-    canvas.toBlob(blob => {
-      if (!blob) return;
+  function loadCanvasIntoSplitter(canvas: Surface, name: string) {
+    surfaceToBlob(canvas).then(blob => {
       const objectUrl = URL.createObjectURL(blob);
       const img = new Image();
       img.onload = () => {
@@ -715,7 +1091,25 @@ export function AssetSplitter({ state, dispatch, cache }: AssetSplitterProps) {
         setExtractName(name);
       };
       img.src = objectUrl;
-    }, 'image/png');
+    });
+  }
+
+  /**
+   * Load an image file, offering to key out its background first if it is
+   * opaque — or always, for "Remove background…".
+   */
+  async function loadFileIntoSplitter(original: File, removeBackground = false) {
+    const file = await colorKey.keyBackground(original, removeBackground);
+    if (!file) return;
+    const objectUrl = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      if (splitter.objectUrl) URL.revokeObjectURL(splitter.objectUrl);
+      maskOutlineRef.current = null;
+      liveMaskRef.current = null;
+      dispatch({ type: 'SET_SPLITTER', updates: { image: img, objectUrl, selectionMask: null, selectionBounds: null, extractedCanvas: null } });
+    };
+    img.src = objectUrl;
   }
 
   // Close layer menu when clicking outside
@@ -733,6 +1127,10 @@ export function AssetSplitter({ state, dispatch, cache }: AssetSplitterProps) {
   const layersWithImages = state.layers.filter(l => l.image);
 
   const hasSelection = !!(splitter.selectionMask && splitter.selectionBounds);
+  const autoSliceOpen = sliceMode === 'auto' && !!splitter.image;
+  const gridOpen = !!gridLayout;
+  const gridCount = gridPicks.length || (gridLayout?.filled.length ?? 0);
+  const frameTotal = state.config.animations.reduce((n, a) => n + a.frameCount, 0) * state.config.directions;
   const zoomIdx = ZOOM_STEPS.indexOf(zoom);
 
   return (
@@ -744,11 +1142,19 @@ export function AssetSplitter({ state, dispatch, cache }: AssetSplitterProps) {
 
         <button
           className="text-xs bg-indigo-600 hover:bg-indigo-500 text-white px-2 py-1 rounded"
-          onClick={() => fileInputRef.current?.click()}
+          onClick={() => { removeBackgroundRef.current = false; fileInputRef.current?.click(); }}
         >
           Load Image
         </button>
 
+        <button
+          className="text-xs bg-gray-700 hover:bg-gray-600 text-gray-300 px-2 py-1 rounded"
+          onClick={() => { removeBackgroundRef.current = true; fileInputRef.current?.click(); }}
+          title="Load an image, turning its background colour transparent first"
+        >
+          Remove Background…
+        </button>
+
         {/* Load from Layer dropdown */}
         {layersWithImages.length > 0 && (
           <div className="relative" ref={layerMenuRef}>
@@ -816,8 +1222,45 @@ export function AssetSplitter({ state, dispatch, cache }: AssetSplitterProps) {
               >
                 ⌾ Lasso
               </button>
+              <button
+                className={`text-xs px-2 py-1 rounded transition-colors ${tool === 'wand' ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                onClick={() => setTool('wand')}
+                title="Magic wand — select similar colours (W)"
+              >
+                🪄 Wand
+              </button>
+              <button
+                className={`text-xs px-2 py-1 rounded transition-colors ${tool === 'color' ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                onClick={() => setTool('color')}
+                title="Select all pixels of the clicked colour (C)"
+              >
+                ◉ Color
+              </button>
             </div>
 
+            {tool === 'wand' && (
+              <>
+                <label className="flex items-center gap-1 text-xs text-gray-400" title="How far (0–255 per channel) a colour may differ from the clicked one">
+                  Tolerance
+                  <NumericInput
+                    value={wandTolerance}
+                    min={0} max={255}
+                    onChange={setWandTolerance}
+                    className="bg-gray-800 border border-gray-600 text-white text-xs px-1 py-0.5 rounded w-10"
+                  />
+                </label>
+                <label className="flex items-center gap-1 cursor-pointer select-none" title="Only pixels connected to the clicked one; off selects matching pixels anywhere">
+                  <input
+                    type="checkbox"
+                    checked={wandContiguous}
+                    onChange={e => setWandContiguous(e.target.checked)}
+                    className="accent-indigo-500 w-3.5 h-3.5"
+                  />
+                  <span className="text-xs text-gray-300">Contiguous</span>
+                </label>
+              </>
+            )}
+
             {/* Modifier hint */}
             <span className="text-xs text-gray-600 border border-gray-800 rounded px-1.5 py-0.5 select-none">
               <kbd className="text-gray-400">Shift</kbd> add &nbsp;
@@ -849,6 +1292,21 @@ export function AssetSplitter({ state, dispatch, cache }: AssetSplitterProps) {
               </button>
             )}
 
+            <button
+              className={`text-xs px-2 py-1 rounded ${sliceMode === 'auto' ? 'bg-indigo-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+              onClick={() => { setSliceMode(sliceMode === 'auto' ? null : 'auto'); setSliceIndex(null); }}
+              title="Find every separate sprite on the sheet and extract them all to the Library"
+            >
+              ⊞ Auto Slice
+            </button>
+            <button
+              className={`text-xs px-2 py-1 rounded ${sliceMode === 'grid' ? 'bg-indigo-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+              onClick={() => setSliceMode(sliceMode === 'grid' ? null : 'grid')}
+              title="Cut a fixed-grid sheet (with margin and spacing) into cells"
+            >
+              ▦ Grid
+            </button>
+
             <div className="w-px h-4 bg-gray-700" />
 
             {/* Zoom */}
@@ -890,16 +1348,9 @@ export function AssetSplitter({ state, dispatch, cache }: AssetSplitterProps) {
           className="hidden"
           onChange={e => {
             const file = e.target.files?.[0];
-            if (!file) return;
-            const objectUrl = URL.createObjectURL(file);
-            const img = new Image();
-            img.onload = () => {
-              if (splitter.objectUrl) URL.revokeObjectURL(splitter.objectUrl);
-              maskOutlineRef.current = null;
-              liveMaskRef.current = null;
-              dispatch({ type: 'SET_SPLITTER', updates: { image: img, objectUrl, selectionMask: null, selectionBounds: null, extractedCanvas: null } });
-            };
-            img.src = objectUrl;
+            if (file) loadFileIntoSplitter(file, removeBackgroundRef.current);
+            // Let the same file be picked again, e.g. to retry with "Remove background…"
+            e.target.value = '';
           }}
         />
       </div>
@@ -922,11 +1373,7 @@ export function AssetSplitter({ state, dispatch, cache }: AssetSplitterProps) {
               onDrop={e => {
                 e.preventDefault();
                 const file = e.dataTransfer.files?.[0];
-                if (!file) return;
-                const objectUrl = URL.createObjectURL(file);
-                const img = new Image();
-                img.onload = () => { maskOutlineRef.current = null; liveMaskRef.current = null; dispatch({ type: 'SET_SPLITTER', updates: { image: img, objectUrl } }); };
-                img.src = objectUrl;
+                if (file) loadFileIntoSplitter(file);
               }}
               onDragOver={e => e.preventDefault()}
             >
@@ -945,7 +1392,13 @@ export function AssetSplitter({ state, dispatch, cache }: AssetSplitterProps) {
               onPointerLeave={onPointerUp}
               onWheel={onWheel}
               onMouseDown={e => { if (e.button === 1) e.preventDefault(); }}
-              onKeyDown={e => { if (e.key === 'b') setTool('box'); if (e.key === 'l') setTool('lasso'); }}
+              onKeyDown={e => {
+                if ((e.key === 'Delete' || e.key === 'Backspace') && slices) handleDeleteSlice();
+                if (e.key === 'b') setTool('box');
+                if (e.key === 'l') setTool('lasso');
+                if (e.key === 'w') setTool('wand');
+                if (e.key === 'c') setTool('color');
+              }}
               tabIndex={0}
             />
           )}
@@ -953,13 +1406,139 @@ export function AssetSplitter({ state, dispatch, cache }: AssetSplitterProps) {
         </div>
 
         {/* Right panel */}
-        {(splitter.extractedCanvas || hasSelection) && (
+        {(splitter.extractedCanvas || hasSelection || autoSliceOpen || gridOpen) && (
           <div className={`flex flex-col gap-3 p-4 bg-gray-900 ${isMobile ? 'border-t' : 'border-l'} border-gray-700 flex-shrink-0 overflow-y-auto`} style={isMobile ? { width: '100%', maxHeight: '35vh' } : { width: 210 }}>
             <span className="text-xs font-bold text-gray-300 uppercase tracking-wider">
-              {splitter.extractedCanvas ? 'Extracted' : 'Selection'}
+              {autoSliceOpen ? 'Auto Slice' : gridOpen ? 'Grid Slice' : splitter.extractedCanvas ? 'Extracted' : 'Selection'}
             </span>
 
-            {splitter.extractedCanvas ? (
+            {gridLayout ? (
+              <>
+                <div className="grid grid-cols-2 gap-x-2 gap-y-1.5 text-xs text-gray-400">
+                  {([
+                    ['cellWidth', 'Cell W', 4],
+                    ['cellHeight', 'Cell H', 4],
+                    ['margin', 'Margin', 0],
+                    ['spacing', 'Spacing', 0],
+                    ['offsetX', 'Offset X', 0],
+                    ['offsetY', 'Offset Y', 0],
+                  ] as const).map(([field, label, min]) => (
+                    <label key={field} className="flex items-center justify-between gap-1">
+                      {label}
+                      <NumericInput
+                        value={grid[field]}
+                        min={min} max={4096}
+                        onChange={v => { setGrid({ ...grid, [field]: v }); setGridPicking(null); }}
+                        className="bg-gray-800 border border-gray-600 text-white text-xs px-1 py-0.5 rounded w-11"
+                      />
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-400">
+                  {gridLayout.cols}×{gridLayout.rows} cells, {gridLayout.filled.length} non-empty<br />
+                  <span className="text-gray-600">
+                    {gridPicks.length ? `${gridPicks.length} picked` : 'Click cells to pick them, or use every non-empty cell'}
+                  </span>
+                </p>
+                <div className="flex gap-1">
+                  <button
+                    className="flex-1 text-xs bg-gray-700 hover:bg-gray-600 text-gray-300 px-2 py-1 rounded"
+                    onClick={() => gridImage && setGridPicking({ image: gridImage, cells: gridLayout.filled })}
+                  >
+                    Pick non-empty
+                  </button>
+                  <button
+                    className="flex-1 text-xs bg-gray-700 hover:bg-gray-600 text-gray-300 px-2 py-1 rounded disabled:opacity-40"
+                    onClick={() => setGridPicking(null)}
+                    disabled={!gridPicks.length}
+                  >
+                    Clear picks
+                  </button>
+                </div>
+              </>
+            ) : autoSliceOpen ? (
+              <>
+                <div className="flex flex-col gap-1.5 text-xs text-gray-400">
+                  <label className="flex items-center justify-between gap-2">
+                    Background
+                    <select
+                      value={sliceOptions.background}
+                      onChange={e => setSliceOptions({ ...sliceOptions, background: e.target.value as AutoSliceOptions['background'] })}
+                      className="bg-gray-800 border border-gray-600 text-white text-xs px-1 py-1 rounded"
+                    >
+                      <option value="transparent">Transparent</option>
+                      <option value="key">Key colour</option>
+                    </select>
+                  </label>
+                  {sliceOptions.background === 'key' && (
+                    <>
+                      <div className="flex items-center justify-between gap-2">
+                        <input
+                          type="color"
+                          value={sliceOptions.keyColor}
+                          onChange={e => setSliceOptions({ ...sliceOptions, keyColor: e.target.value })}
+                          className="w-5 h-5 p-0 border border-gray-600 rounded-sm bg-transparent cursor-pointer"
+                        />
+                        <button
+                          className="text-xs bg-gray-700 hover:bg-gray-600 text-gray-300 px-2 py-0.5 rounded"
+                          onClick={handleSampleKey}
+                          title="Use the colour of the top-left pixel"
+                        >
+                          Sample ↖
+                        </button>
+                      </div>
+                      <label className="flex items-center justify-between gap-2" title="How far (0–255 per channel) a colour may differ from the key and still count as background">
+                        Tolerance
+                        <NumericInput
+                          value={sliceOptions.tolerance}
+                          min={0} max={255}
+                          onChange={tolerance => setSliceOptions({ ...sliceOptions, tolerance })}
+                          className="bg-gray-800 border border-gray-600 text-white text-xs px-1 py-0.5 rounded w-12"
+                        />
+                      </label>
+                    </>
+                  )}
+                  <label className="flex items-center justify-between gap-2" title="Drop islands smaller than this on both sides">
+                    Min size
+                    <NumericInput
+                      value={sliceOptions.minSize}
+                      min={1} max={1024}
+                      onChange={minSize => setSliceOptions({ ...sliceOptions, minSize })}
+                      className="bg-gray-800 border border-gray-600 text-white text-xs px-1 py-0.5 rounded w-12"
+                    />
+                  </label>
+                  <label className="flex items-center justify-between gap-2" title="Merge islands this many pixels apart or closer">
+                    Merge distance
+                    <NumericInput
+                      value={sliceOptions.mergeDistance}
+                      min={0} max={256}
+                      onChange={mergeDistance => setSliceOptions({ ...sliceOptions, mergeDistance })}
+                      className="bg-gray-800 border border-gray-600 text-white text-xs px-1 py-0.5 rounded w-12"
+                    />
+                  </label>
+                </div>
+                <button
+                  className="text-xs bg-indigo-600 hover:bg-indigo-500 text-white px-2 py-1 rounded"
+                  onClick={handleDetectSlices}
+                >
+                  Detect Sprites
+                </button>
+                {slices && (
+                  <p className="text-xs text-gray-400">
+                    {slices.length} region{slices.length === 1 ? '' : 's'} found<br />
+                    <span className="text-gray-600">Drag a box to move it, its handles to resize, Delete to remove</span>
+                  </p>
+                )}
+                {slices && sliceIndex !== null && (
+                  <button
+                    className="text-xs bg-gray-700 hover:bg-red-900 hover:text-red-300 text-gray-400 px-2 py-1 rounded"
+                    onClick={handleDeleteSlice}
+                  >
+                    ✕ Remove box {sliceIndex + 1}
+                  </button>
+                )}
+              </>
+            ) : splitter.extractedCanvas ? (
               <>
                 <div
                   className="border border-gray-700 rounded overflow-hidden"
@@ -1006,7 +1585,44 @@ export function AssetSplitter({ state, dispatch, cache }: AssetSplitterProps) {
               className="bg-gray-800 border border-gray-600 text-gray-400 text-xs px-2 py-1 rounded"
             />
 
-            {hasSelection && !splitter.extractedCanvas && (
+            {gridOpen && (
+              <>
+                <button
+                  className="text-xs bg-violet-700 hover:bg-violet-600 text-white px-2 py-1 rounded disabled:opacity-40"
+                  onClick={handleGridToLibrary}
+                  disabled={!gridCount || slicingBusy}
+                  title="Whole cells, numbered name_01, name_02… with the tags above"
+                >
+                  + Add {gridCount} to Library
+                </button>
+                <button
+                  className="text-xs bg-indigo-600 hover:bg-indigo-500 text-white px-2 py-1 rounded disabled:opacity-40"
+                  onClick={handleGridToLayer}
+                  disabled={!gridCount || slicingBusy}
+                  title="One cell per frame, in timeline order, packed into the project's input layout"
+                >
+                  + New Layer
+                </button>
+                {gridCount > frameTotal && (
+                  <span className="text-xs text-amber-400">
+                    The project has {frameTotal} frames — the layer gets the first {frameTotal} cells
+                  </span>
+                )}
+              </>
+            )}
+
+            {autoSliceOpen && (
+              <button
+                className="text-xs bg-violet-700 hover:bg-violet-600 text-white px-2 py-1 rounded disabled:opacity-40"
+                onClick={handleExtractSlices}
+                disabled={!slices?.length || slicingBusy}
+                title="Numbered name_01, name_02… with the tags above"
+              >
+                + Add {slices?.length ?? 0} to Library
+              </button>
+            )}
+
+            {!sliceMode && hasSelection && !splitter.extractedCanvas && (
               <button
                 className="text-xs bg-green-700 hover:bg-green-600 text-white px-2 py-1 rounded"
                 onClick={doExtract}
@@ -1015,7 +1631,7 @@ export function AssetSplitter({ state, dispatch, cache }: AssetSplitterProps) {
               </button>
             )}
 
-            {splitter.extractedCanvas && (
+            {!sliceMode && splitter.extractedCanvas && (
               <>
                 <button
                   className="text-xs bg-violet-700 hover:bg-violet-600 text-white px-2 py-1 rounded"
@@ -1042,6 +1658,15 @@ export function AssetSplitter({ state, dispatch, cache }: AssetSplitterProps) {
       </div>
     </div>
 
+    {colorKey.request && (
+      <ColorKeyModal
+        file={colorKey.request.file}
+        pixels={colorKey.request.pixels}
+        opaque={colorKey.request.opaque}
+        onDone={colorKey.settle}
+      />
+    )}
+
     {/* Frame picker modal — shown when user clicks "Add as Layer" */}
     {importCanvas && (
       <ImportFrameModal
@@ -1066,7 +1691,7 @@ export function AssetSplitter({ state, dispatch, cache }: AssetSplitterProps) {
           layer={pickerLayer}
           config={state.config}
           cache={cache}
-          onPick={(dirRow, frameIdx) => loadLayerFrame(framePickerLayerId, dirRow, frameIdx)}
+          onPick={(animIndex, dirRow, frameIdx) => loadLayerFrame(framePickerLayerId, animIndex, dirRow, frameIdx)}
           onClose={() => setFramePickerLayerId(null)}
         />
       );
@@ -1081,21 +1706,22 @@ interface LayerFramePickerModalProps {
   layer: import('../types').Layer;
   config: import('../types').ProjectConfig;
   cache: ColorShiftCache;
-  onPick: (dirRow: number, frameIdx: number) => void;
+  onPick: (animIndex: number, dirRow: number, frameIdx: number) => void;
   onClose: () => void;
 }
 
 function LayerFramePickerModal({ layer, config, cache, onPick, onClose }: LayerFramePickerModalProps) {
-  const { directions, framesPerDirection, frameWidth, frameHeight } = config;
+  const { directions, animations, frameWidth, frameHeight } = config;
   const dirLabels = directions === 4 ? DIRECTIONS_4 : DIRECTIONS_8;
 
-  const CELL_SIZE = Math.max(24, Math.min(48, Math.floor(400 / framesPerDirection)));
+  const maxFrames = Math.max(...animations.map(a => a.frameCount));
+  const CELL_SIZE = Math.max(24, Math.min(48, Math.floor(400 / maxFrames)));
   // Render each frame thumbnail at a scale that fits CELL_SIZE
   const thumbScale = Math.min(1, (CELL_SIZE - 4) / Math.max(frameWidth, frameHeight));
   const thumbW = Math.round(frameWidth * thumbScale);
   const thumbH = Math.round(frameHeight * thumbScale);
 
-  const [hoveredCell, setHoveredCell] = useState<{ dir: number; frame: number } | null>(null);
+  const [hoveredCell, setHoveredCell] = useState<{ anim: number; dir: number; frame: number } | null>(null);
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60" onClick={e => e.target === e.currentTarget && onClose()}>
@@ -1113,66 +1739,75 @@ function LayerFramePickerModal({ layer, config, cache, onPick, onClose }: LayerF
           Click a frame to load it into the Asset Splitter.
           {hoveredCell && (
             <span className="text-gray-300 ml-2">
-              {dirLabels[hoveredCell.dir]} / frame {hoveredCell.frame + 1}
+              {animations.length > 1 && `${animations[hoveredCell.anim].name} / `}{dirLabels[hoveredCell.dir]} / frame {hoveredCell.frame + 1}
             </span>
           )}
         </p>
 
         {/* Frame grid */}
         <div className="overflow-auto">
-          {/* Column header — frame numbers */}
-          <div className="flex gap-0 mb-0.5" style={{ marginLeft: 56 }}>
-            {Array.from({ length: framesPerDirection }, (_, f) => (
-              <div
-                key={f}
-                className="text-gray-600 text-center flex-shrink-0"
-                style={{ width: CELL_SIZE, fontSize: 9 }}
-              >
-                {f + 1}
-              </div>
-            ))}
-          </div>
-
-          {/* Rows */}
-          <div className="flex flex-col gap-0">
-            {Array.from({ length: directions }, (_, d) => (
-              <div key={d} className="flex items-center gap-0">
-                {/* Direction label */}
-                <span
-                  className="text-gray-500 text-right flex-shrink-0 pr-1 capitalize"
-                  style={{ width: 56, fontSize: 9 }}
-                >
-                  {dirLabels[d]}
-                </span>
+          {animations.map((anim, a) => (
+            <div key={anim.id} className="mb-2">
+              {animations.length > 1 && (
+                <span className="block text-xs text-indigo-300 mb-1">{anim.name}</span>
+              )}
 
-                {Array.from({ length: framesPerDirection }, (_, f) => (
-                  <button
+              {/* Column header — frame numbers */}
+              <div className="flex gap-0 mb-0.5" style={{ marginLeft: 56 }}>
+                {Array.from({ length: anim.frameCount }, (_, f) => (
+                  <div
                     key={f}
-                    onClick={() => onPick(d, f)}
-                    onMouseEnter={() => setHoveredCell({ dir: d, frame: f })}
-                    onMouseLeave={() => setHoveredCell(null)}
-                    className="flex-shrink-0 border border-transparent hover:border-indigo-400 rounded-sm transition-colors relative"
-                    style={{
-                      width: CELL_SIZE,
-                      height: CELL_SIZE,
-                      background: 'repeating-conic-gradient(#1a1a2e 0% 25%, #16213e 0% 50%) 0 0 / 6px 6px',
-                    }}
-                    title={`${dirLabels[d]} / frame ${f + 1}`}
+                    className="text-gray-600 text-center flex-shrink-0"
+                    style={{ width: CELL_SIZE, fontSize: 9 }}
                   >
-                    <FrameThumb
-                      layer={layer}
-                      config={config}
-                      cache={cache}
-                      dirRow={d}
-                      frameIdx={f}
-                      thumbW={thumbW}
-                      thumbH={thumbH}
-                    />
-                  </button>
+                    {f + 1}
+                  </div>
                 ))}
               </div>
-            ))}
-          </div>
+
+              {/* Rows */}
+              <div className="flex flex-col gap-0">
+                {Array.from({ length: directions }, (_, d) => (
+                  <div key={d} className="flex items-center gap-0">
+                    {/* Direction label */}
+                    <span
+                      className="text-gray-500 text-right flex-shrink-0 pr-1 capitalize"
+                      style={{ width: 56, fontSize: 9 }}
+                    >
+                      {dirLabels[d]}
+                    </span>
+
+                    {Array.from({ length: anim.frameCount }, (_, f) => (
+                      <button
+                        key={f}
+                        onClick={() => onPick(a, d, f)}
+                        onMouseEnter={() => setHoveredCell({ anim: a, dir: d, frame: f })}
+                        onMouseLeave={() => setHoveredCell(null)}
+                        className="flex-shrink-0 border border-transparent hover:border-indigo-400 rounded-sm transition-colors relative"
+                        style={{
+                          width: CELL_SIZE,
+                          height: CELL_SIZE,
+                          background: 'repeating-conic-gradient(#1a1a2e 0% 25%, #16213e 0% 50%) 0 0 / 6px 6px',
+                        }}
+                        title={`${anim.name} / ${dirLabels[d]} / frame ${f + 1}`}
+                      >
+                        <FrameThumb
+                          layer={layer}
+                          config={config}
+                          cache={cache}
+                          animIndex={a}
+                          dirRow={d}
+                          frameIdx={f}
+                          thumbW={thumbW}
+                          thumbH={thumbH}
+                        />
+                      </button>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
         </div>
 
         {/* Footer */}
@@ -1187,10 +1822,11 @@ function LayerFramePickerModal({ layer, config, cache, onPick, onClose }: LayerF
 }
 
 /** Renders a single frame thumbnail for the picker grid. */
-function FrameThumb({ layer, config, cache, dirRow, frameIdx, thumbW, thumbH }: {
+function FrameThumb({ layer, config, cache, animIndex, dirRow, frameIdx, thumbW, thumbH }: {
   layer: import('../types').Layer;
   config: import('../types').ProjectConfig;
   cache: ColorShiftCache;
+  animIndex: number;
   dirRow: number;
   frameIdx: number;
   thumbW: number;
@@ -1204,13 +1840,13 @@ function FrameThumb({ layer, config, cache, dirRow, frameIdx, thumbW, thumbH }:
     const src = document.createElement('canvas');
     src.width = config.frameWidth;
     src.height = config.frameHeight;
-    compositeFrame(src, [layer], config, dirRow, frameIdx, cache);
+    compositeFrame(src, [layer], config, animIndex, dirRow, frameIdx, cache.exact());
     cv.width = thumbW;
     cv.height = thumbH;
     const ctx = cv.getContext('2d')!;
     ctx.imageSmoothingEnabled = false;
     ctx.drawImage(src, 0, 0, thumbW, thumbH);
-  }, [layer, config, cache, dirRow, frameIdx, thumbW, thumbH]);
+  }, [layer, config, cache, animIndex, dirRow, frameIdx, thumbW, thumbH]);
 
   return (
     <canvas
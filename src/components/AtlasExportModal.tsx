@@ -0,0 +1,215 @@
+/**
+ * AtlasExportModal
+ *
+ * Packs the already-rendered frames into a trimmed texture atlas and lets the
+ * user tune the packer before downloading atlas.png + atlas.json as a ZIP.
+ *
+ * Props:
+ *   inputs      – every composited frame, named and timed (see ExportBar)
+ *   animations  – animation key → frame names, written into the JSON
+ *   scale       – export scale the frames were rendered at (recorded in meta)
+ *   onClose     – dismiss
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import JSZip from 'jszip';
+import { saveAs } from 'file-saver';
+import type { AtlasInput, AtlasJsonStyle, AtlasOptions } from '../atlas';
+import { packAtlas, atlasToJson, DEFAULT_ATLAS_OPTIONS } from '../atlas';
+import { surfaceToBlob } from '../surface';
+import { NumericInput } from './NumericInput';
+
+interface AtlasExportModalProps {
+  inputs: AtlasInput[];
+  animations: Record<string, string[]>;
+  scale: number;
+  onClose: () => void;
+}
+
+const MAX_SIZES = [512, 1024, 2048, 4096, 8192];
+
+export function AtlasExportModal({ inputs, animations, scale, onClose }: AtlasExportModalProps) {
+  const [options, setOptions] = useState<AtlasOptions>(DEFAULT_ATLAS_OPTIONS);
+  const [style, setStyle] = useState<AtlasJsonStyle>('hash');
+  const [busy, setBusy] = useState(false);
+
+  // Re-pack whenever an option changes; a failed pack surfaces as an error message
+  const result = useMemo(() => {
+    try {
+      return { atlas: packAtlas(inputs, options), error: null };
+    } catch (e) {
+      return { atlas: null, error: e instanceof Error ? e.message : 'Packing failed' };
+    }
+  }, [inputs, options]);
+
+  const previewRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const cv = previewRef.current;
+    if (!cv || !result.atlas) return;
+    cv.width = result.atlas.canvas.width;
+    cv.height = result.atlas.canvas.height;
+    cv.getContext('2d')!.drawImage(result.atlas.canvas, 0, 0);
+  }, [result]);
+
+  function set<K extends keyof AtlasOptions>(key: K, value: AtlasOptions[K]) {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  }
+
+  async function handleDownload() {
+    if (!result.atlas || busy) return;
+    setBusy(true);
+    try {
+      const suffix = scale > 1 ? `@${scale}x` : '';
+      const imageName = `atlas${suffix}.png`;
+      const blob = await surfaceToBlob(result.atlas.canvas);
+      const zip = new JSZip();
+      zip.file(imageName, blob);
+      zip.file(`atlas${suffix}.json`, atlasToJson(result.atlas, imageName, style, animations, scale));
+      saveAs(await zip.generateAsync({ type: 'blob' }), `atlas${suffix}.zip`);
+      onClose();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const atlas = result.atlas;
+  const previewScale = atlas ? Math.min(2, 480 / Math.max(atlas.canvas.width, atlas.canvas.height)) : 1;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center z-50"
+      onMouseDown={onClose}
+    >
+      <div
+        className="bg-gray-900 border border-gray-700 rounded-xl shadow-2xl p-6 flex flex-col gap-5 overflow-y-auto"
+        style={{ width: 560, maxHeight: '90vh' }}
+        onMouseDown={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-base font-bold text-white">Export Texture Atlas</h2>
+            <p className="text-xs text-gray-500 mt-0.5">
+              {inputs.length} frames packed into one PNG with a TexturePacker JSON descriptor (Phaser, PixiJS).
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white text-xl leading-none">✕</button>
+        </div>
+
+        {/* Packer options */}
+        <div className="flex flex-col gap-3">
+          <div className="flex flex-col gap-1">
+            <label className="text-xs text-gray-400">Max size</label>
+            <div className="flex gap-1">
+              {MAX_SIZES.map(size => (
+                <button
+                  key={size}
+                  onClick={() => set('maxSize', size)}
+                  className={`text-xs px-2 py-1 rounded ${options.maxSize === size ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+                >
+                  {size}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex gap-4 items-end">
+            <div className="flex flex-col gap-1">
+              <label className="text-xs text-gray-400">Padding (px)</label>
+              <NumericInput value={options.padding} min={0} max={32}
+                onChange={v => set('padding', v)}
+                className="bg-gray-800 border border-gray-600 text-white text-sm px-3 py-1.5 rounded w-20" />
+            </div>
+            <div className="flex flex-col gap-1">
+              <label className="text-xs text-gray-400">Extrude (px)</label>
+              <NumericInput value={options.extrude} min={0} max={8}
+                onChange={v => set('extrude', v)}
+                className="bg-gray-800 border border-gray-600 text-white text-sm px-3 py-1.5 rounded w-20" />
+            </div>
+          </div>
+
+          <div className="flex gap-4">
+            <label className="flex items-center gap-2 cursor-pointer select-none">
+              <input type="checkbox" checked={options.trim}
+                onChange={e => set('trim', e.target.checked)}
+                className="accent-indigo-500 w-3.5 h-3.5" />
+              <span className="text-xs text-gray-300">Trim transparent edges</span>
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer select-none">
+              <input type="checkbox" checked={options.powerOfTwo}
+                onChange={e => set('powerOfTwo', e.target.checked)}
+                className="accent-indigo-500 w-3.5 h-3.5" />
+              <span className="text-xs text-gray-300">Power-of-two size</span>
+            </label>
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <label className="text-xs text-gray-400">JSON format</label>
+            <div className="flex gap-1">
+              {(['hash', 'array'] as const).map(s => (
+                <button
+                  key={s}
+                  onClick={() => setStyle(s)}
+                  className={`text-xs px-2 py-1 rounded ${style === s ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+                >
+                  JSON ({s})
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Preview */}
+        <div className="flex flex-col gap-2">
+          <span className="text-xs font-semibold text-gray-300 uppercase tracking-wider">
+            Preview
+            {atlas && (
+              <span className="text-gray-600 normal-case font-normal ml-1">
+                ({atlas.canvas.width}×{atlas.canvas.height}px)
+              </span>
+            )}
+          </span>
+          {result.error ? (
+            <p className="text-xs text-red-400">{result.error}</p>
+          ) : (
+            <div
+              className="border border-gray-700 rounded overflow-auto"
+              style={{
+                background: 'repeating-conic-gradient(#1a1a2e 0% 25%, #16213e 0% 50%) 0 0 / 8px 8px',
+                maxHeight: 320,
+              }}
+            >
+              <canvas
+                ref={previewRef}
+                style={{
+                  display: 'block',
+                  imageRendering: 'pixelated',
+                  width: (atlas?.canvas.width ?? 0) * previewScale,
+                  height: (atlas?.canvas.height ?? 0) * previewScale,
+                }}
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-2">
+          <button
+            onClick={onClose}
+            className="flex-1 text-sm py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={!atlas || busy}
+            className="flex-1 text-sm py-2 bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded font-bold"
+          >
+            {busy ? 'Exporting…' : 'Download ZIP'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+/**
+ * AutosaveModal
+ *
+ * Lists recent autosaves (newest first) so a lost session can be restored.
+ * Shown automatically on startup when autosaves from earlier sessions exist,
+ * and on demand from the header.
+ *
+ * Props:
+ *   entries    – autosave metadata from listAutosaves()
+ *   startup    – true when offered on launch (changes the wording)
+ *   busy       – a restore is in progress
+ *   error      – message from a failed restore
+ *   onRestore  – load the chosen autosave, replacing the current project
+ *   onDelete   – discard one autosave
+ *   onClose    – dismiss
+ */
+
+import type { AutosaveEntry } from '../autosave';
+import { SESSION_ID } from '../autosave';
+
+interface AutosaveModalProps {
+  entries: AutosaveEntry[];
+  startup: boolean;
+  busy: boolean;
+  error: string | null;
+  onRestore: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+function formatTime(ms: number): string {
+  const d = new Date(ms);
+  const sameDay = d.toDateString() === new Date().toDateString();
+  return sameDay
+    ? d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : d.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+export function AutosaveModal({ entries, startup, busy, error, onRestore, onDelete, onClose }: AutosaveModalProps) {
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center z-50"
+      onMouseDown={onClose}
+    >
+      <div
+        className="bg-gray-900 border border-gray-700 rounded-xl shadow-2xl p-6 flex flex-col gap-4"
+        style={{ maxWidth: 480, width: '90vw' }}
+        onMouseDown={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-base font-bold text-white">
+              {startup ? 'Restore previous session?' : 'Autosaves'}
+            </h2>
+            <p className="text-xs text-gray-500 mt-0.5">
+              SpriteBat autosaves your project in this browser every 30 seconds while you work.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white text-xl leading-none">✕</button>
+        </div>
+
+        {entries.length === 0 && <p className="text-xs text-gray-500">No autosaves yet.</p>}
+
+        <div className="flex flex-col gap-1">
+          {entries.map(entry => (
+            <div key={entry.id} className="flex items-center gap-2 bg-gray-800 rounded px-3 py-2">
+              <div className="flex-1 min-w-0">
+                <div className="text-xs text-gray-200 truncate">{entry.label}</div>
+                <div className="text-xs text-gray-500">
+                  {formatTime(entry.savedAt)} · {entry.layerCount} layer{entry.layerCount !== 1 ? 's' : ''}
+                  {entry.libraryCount > 0 && ` · ${entry.libraryCount} asset${entry.libraryCount !== 1 ? 's' : ''}`}
+                  {entry.id === SESSION_ID && <span className="text-indigo-400"> · this session</span>}
+                </div>
+              </div>
+              <button
+                onClick={() => onRestore(entry.id)}
+                disabled={busy}
+                className="text-xs bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white px-2 py-1 rounded"
+              >
+                Restore
+              </button>
+              <button
+                onClick={() => onDelete(entry.id)}
+                disabled={busy}
+                className="text-xs text-gray-500 hover:text-red-400 disabled:opacity-50"
+                title="Delete autosave"
+              >✕</button>
+            </div>
+          ))}
+        </div>
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        {!startup && (
+          <div className="text-xs text-gray-500 bg-gray-800 rounded px-3 py-2">
+            ⚠ Restoring replaces the current project.
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            onClick={onClose}
+            className="text-xs bg-gray-700 hover:bg-gray-600 text-gray-300 px-3 py-1.5 rounded transition-colors"
+          >
+            {startup ? 'Start fresh' : 'Close'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
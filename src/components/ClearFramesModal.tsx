@@ -7,7 +7,7 @@
  *
  * Props:
  *   layer   – the layer whose cells will be cleared
- *   config  – project config (frame size, directions, framesPerDirection, defaultInputLayout)
+ *   config  – project config (frame size, directions, animations, defaultInputLayout)
  *   onApply – called with (newImage, newObjectUrl); caller handles UPDATE_LAYER + cache invalidation
  *   onClose – cancel
  */
@@ -15,7 +15,7 @@
 import { useRef, useEffect, useState } from 'react';
 import type { Layer, ProjectConfig } from '../types';
 import { DIRECTIONS_4, DIRECTIONS_8 } from '../types';
-import { frameRect, flatIndex } from '../types';
+import { frameCell, cellOrigin, layoutCellSize } from '../types';
 
 interface ClearFramesModalProps {
   layer: Layer;
@@ -25,17 +25,18 @@ interface ClearFramesModalProps {
 }
 
 export function ClearFramesModal({ layer, config, onApply, onClose }: ClearFramesModalProps) {
-  const { directions, framesPerDirection, frameWidth, frameHeight } = config;
+  const { directions, animations } = config;
   const dirLabels = directions === 4 ? DIRECTIONS_4 : DIRECTIONS_8;
 
-  // Selected cells: Set of "dirRow_frameIdx" strings
+  // Selected cells: Set of "animIdx_dirRow_frameIdx" strings
   const [selected, setSelected] = useState<Set<string>>(new Set());
   const [busy, setBusy] = useState(false);
 
   // Preview canvas — shows current layer image
   const previewRef = useRef<HTMLCanvasElement>(null);
 
-  const CELL_SIZE = Math.max(20, Math.min(40, Math.floor(300 / framesPerDirection)));
+  const maxFrames = Math.max(...animations.map(a => a.frameCount));
+  const CELL_SIZE = Math.max(20, Math.min(40, Math.floor(300 / maxFrames)));
 
   // Draw layer image into the preview canvas on open
   useEffect(() => {
@@ -46,10 +47,10 @@ export function ClearFramesModal({ layer, config, onApply, onClose }: ClearFrame
     cv.getContext('2d')!.drawImage(layer.image, 0, 0);
   }, [layer.image]);
 
-  function key(dir: number, frame: number) { return `${dir}_${frame}`; }
+  function key(anim: number, dir: number, frame: number) { return `${anim}_${dir}_${frame}`; }
 
-  function toggle(dir: number, frame: number) {
-    const k = key(dir, frame);
+  function toggle(anim: number, dir: number, frame: number) {
+    const k = key(anim, dir, frame);
     setSelected(prev => {
       const next = new Set(prev);
       if (next.has(k)) { next.delete(k); } else { next.add(k); }
@@ -59,26 +60,28 @@ export function ClearFramesModal({ layer, config, onApply, onClose }: ClearFrame
 
   function selectAll() {
     const all = new Set<string>();
-    for (let d = 0; d < directions; d++)
-      for (let f = 0; f < framesPerDirection; f++)
-        all.add(key(d, f));
+    animations.forEach((anim, a) => {
+      for (let d = 0; d < directions; d++)
+        for (let f = 0; f < anim.frameCount; f++)
+          all.add(key(a, d, f));
+    });
     setSelected(all);
   }
 
   function selectNone() { setSelected(new Set()); }
 
-  function selectRow(dir: number) {
+  function selectRow(anim: number, dir: number) {
     setSelected(prev => {
       const next = new Set(prev);
-      for (let f = 0; f < framesPerDirection; f++) next.add(key(dir, f));
+      for (let f = 0; f < animations[anim].frameCount; f++) next.add(key(anim, dir, f));
       return next;
     });
   }
 
-  function selectCol(frame: number) {
+  function selectCol(anim: number, frame: number) {
     setSelected(prev => {
       const next = new Set(prev);
-      for (let d = 0; d < directions; d++) next.add(key(d, frame));
+      for (let d = 0; d < directions; d++) next.add(key(anim, d, frame));
       return next;
     });
   }
@@ -96,10 +99,11 @@ export function ClearFramesModal({ layer, config, onApply, onClose }: ClearFrame
 
     // Erase each selected cell using the layer's inputLayout
     for (const k of selected) {
-      const [d, f] = k.split('_').map(Number);
-      const n = flatIndex(d, f, framesPerDirection);
-      const { sx, sy } = frameRect(n, layer.inputLayout, frameWidth, frameHeight);
-      ctx.clearRect(sx, sy, frameWidth, frameHeight);
+      const [a, d, f] = k.split('_').map(Number);
+      const { col, row } = frameCell(config, layer.inputLayout, a, d, f);
+      const { x, y } = cellOrigin(config, layer.inputLayout, col, row);
+      const { w, h } = layoutCellSize(config, layer.inputLayout);
+      ctx.clearRect(x, y, w, h);
     }
 
     cv.toBlob(blob => {
@@ -168,54 +172,62 @@ export function ClearFramesModal({ layer, config, onApply, onClose }: ClearFrame
             </div>
           </div>
 
-          {/* Column header — frame numbers */}
-          <div className="flex gap-px mb-px ml-14">
-            {Array.from({ length: framesPerDirection }, (_, f) => (
-              <button
-                key={f}
-                onClick={() => selectCol(f)}
-                className="text-gray-600 hover:text-gray-300 text-center flex-shrink-0"
-                style={{ width: CELL_SIZE, fontSize: 9 }}
-                title={`Select column — frame ${f + 1}`}
-              >
-                {f + 1}
-              </button>
-            ))}
-          </div>
+          {animations.map((anim, a) => (
+            <div key={anim.id} className="mb-2">
+              {animations.length > 1 && (
+                <span className="block text-xs text-indigo-300 mb-1">{anim.name}</span>
+              )}
+
+              {/* Column header — frame numbers */}
+              <div className="flex gap-px mb-px ml-14">
+                {Array.from({ length: anim.frameCount }, (_, f) => (
+                  <button
+                    key={f}
+                    onClick={() => selectCol(a, f)}
+                    className="text-gray-600 hover:text-gray-300 text-center flex-shrink-0"
+                    style={{ width: CELL_SIZE, fontSize: 9 }}
+                    title={`Select column — frame ${f + 1}`}
+                  >
+                    {f + 1}
+                  </button>
+                ))}
+              </div>
 
-          {/* Rows */}
-          <div className="flex flex-col gap-px">
-            {Array.from({ length: directions }, (_, d) => (
-              <div key={d} className="flex items-center gap-px">
-                {/* Direction label — click to select whole row */}
-                <button
-                  onClick={() => selectRow(d)}
-                  className="text-gray-500 hover:text-gray-300 text-right flex-shrink-0 pr-1 capitalize"
-                  style={{ width: 52, fontSize: 9 }}
-                  title={`Select row — direction ${dirLabels[d]}`}
-                >
-                  {dirLabels[d]}
-                </button>
-
-                {Array.from({ length: framesPerDirection }, (_, f) => {
-                  const isOn = selected.has(key(d, f));
-                  return (
+              {/* Rows */}
+              <div className="flex flex-col gap-px">
+                {Array.from({ length: directions }, (_, d) => (
+                  <div key={d} className="flex items-center gap-px">
+                    {/* Direction label — click to select whole row */}
                     <button
-                      key={f}
-                      onClick={() => toggle(d, f)}
-                      className={`flex-shrink-0 rounded-sm transition-colors ${
-                        isOn
-                          ? 'bg-red-600 hover:bg-red-500'
-                          : 'bg-gray-700 hover:bg-gray-600'
-                      }`}
-                      style={{ width: CELL_SIZE, height: CELL_SIZE }}
-                      title={`${dirLabels[d]} / frame ${f + 1}`}
-                    />
-                  );
-                })}
+                      onClick={() => selectRow(a, d)}
+                      className="text-gray-500 hover:text-gray-300 text-right flex-shrink-0 pr-1 capitalize"
+                      style={{ width: 52, fontSize: 9 }}
+                      title={`Select row — direction ${dirLabels[d]}`}
+                    >
+                      {dirLabels[d]}
+                    </button>
+
+                    {Array.from({ length: anim.frameCount }, (_, f) => {
+                      const isOn = selected.has(key(a, d, f));
+                      return (
+                        <button
+                          key={f}
+                          onClick={() => toggle(a, d, f)}
+                          className={`flex-shrink-0 rounded-sm transition-colors ${
+                            isOn
+                              ? 'bg-red-600 hover:bg-red-500'
+                              : 'bg-gray-700 hover:bg-gray-600'
+                          }`}
+                          style={{ width: CELL_SIZE, height: CELL_SIZE }}
+                          title={`${anim.name} / ${dirLabels[d]} / frame ${f + 1}`}
+                        />
+                      );
+                    })}
+                  </div>
+                ))}
               </div>
-            ))}
-          </div>
+            </div>
+          ))}
         </div>
 
         {/* Footer */}
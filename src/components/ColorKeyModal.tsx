@@ -0,0 +1,186 @@
+/**
+ * ColorKeyModal
+ *
+ * Shown when an imported image has no transparency at all — typically an old
+ * rip on a solid magenta or cyan background — or when the user imports with
+ * "Remove background…". Every pixel within the tolerance of the key colour is
+ * made transparent; the preview shows the result over a checkerboard before
+ * anything is imported.
+ *
+ * Props:
+ *   file   – the image being imported
+ *   pixels – its decoded pixels
+ *   opaque – whether the image has no transparency (the automatic prompt)
+ *   onDone – called with the keyed PNG, the original file ("Import as is"), or null to skip it
+ */
+
+import { useRef, useEffect, useMemo, useState } from 'react';
+import type { RgbaBuffer } from '../surface';
+import { surfaceFromPixels, surfaceToBlob, writePixels } from '../surface';
+import { clearColor } from '../selection';
+import { parseHex, toHex } from '../colorShift';
+import { NumericInput } from './NumericInput';
+
+interface ColorKeyModalProps {
+  file: File;
+  pixels: RgbaBuffer;
+  opaque: boolean;
+  onDone: (file: File | null) => void;
+}
+
+function keyed(pixels: RgbaBuffer, key: string, tolerance: number): RgbaBuffer {
+  const out = { ...pixels, data: pixels.data.slice() };
+  clearColor(out, parseHex(key), tolerance);
+  return out;
+}
+
+function colorAt(pixels: RgbaBuffer, x: number, y: number): string {
+  const i = (y * pixels.width + x) * 4;
+  return toHex(pixels.data[i], pixels.data[i + 1], pixels.data[i + 2]);
+}
+
+export function ColorKeyModal({ file, pixels, opaque, onDone }: ColorKeyModalProps) {
+  // The top-left pixel is almost always background on these sheets
+  const [keyColor, setKeyColor] = useState(() => colorAt(pixels, 0, 0));
+  const [tolerance, setTolerance] = useState(8);
+  const [busy, setBusy] = useState(false);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+
+  const previewScale = Math.max(1, Math.min(4, Math.floor(360 / Math.max(pixels.width, pixels.height))));
+  const previewW = pixels.width * previewScale;
+  const previewH = pixels.height * previewScale;
+
+  const result = useMemo(() => keyed(pixels, keyColor, tolerance), [pixels, keyColor, tolerance]);
+  // Only count pixels the key cleared, not ones that were transparent already
+  const cleared = useMemo(() => {
+    let n = 0;
+    for (let i = 3; i < result.data.length; i += 4) if (result.data[i] === 0 && pixels.data[i] !== 0) n++;
+    return n;
+  }, [result, pixels]);
+
+  useEffect(() => {
+    const cv = previewRef.current;
+    if (!cv) return;
+    cv.width = result.width;
+    cv.height = result.height;
+    writePixels(cv, result);
+  }, [result]);
+
+  // Click the preview to key out the colour under the cursor instead
+  function handlePreviewClick(e: React.MouseEvent<HTMLCanvasElement>) {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.floor((e.clientX - rect.left) * pixels.width / rect.width);
+    const y = Math.floor((e.clientY - rect.top) * pixels.height / rect.height);
+    if (x < 0 || y < 0 || x >= pixels.width || y >= pixels.height) return;
+    setKeyColor(colorAt(pixels, x, y));
+  }
+
+  async function handleApply() {
+    setBusy(true);
+    try {
+      const blob = await surfaceToBlob(surfaceFromPixels(result));
+      onDone(new File([blob], file.name.replace(/\.[^.]+$/, '') + '.png', { type: 'image/png' }));
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Failed to remove the background');
+      setBusy(false);
+    }
+  }
+
+  const total = pixels.width * pixels.height;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60"
+      onClick={e => e.target === e.currentTarget && onDone(null)}
+    >
+      <div
+        className="bg-gray-900 border border-gray-700 rounded-xl shadow-2xl flex flex-col gap-4 p-5"
+        style={{ maxWidth: 560, width: '95vw', maxHeight: '90vh', overflowY: 'auto' }}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-bold text-gray-200">Remove Background</span>
+          <button onClick={() => onDone(null)} className="text-gray-500 hover:text-white text-lg leading-none">✕</button>
+        </div>
+
+        <span className="text-xs text-gray-500">
+          <span className="text-gray-300">{file.name}</span> ({pixels.width}×{pixels.height}px){' '}
+          {opaque
+            ? 'has no transparency. Turn its background colour transparent before importing?'
+            : 'will have every pixel near the key colour made transparent before importing.'}
+        </span>
+
+        {/* Preview of the keyed result */}
+        <div
+          className="rounded border border-gray-700 flex items-center justify-center self-center overflow-auto"
+          style={{
+            background: 'repeating-conic-gradient(#1a1a2e 0% 25%, #16213e 0% 50%) 0 0 / 8px 8px',
+            maxWidth: '100%', maxHeight: 380, padding: 4,
+          }}
+        >
+          <canvas
+            ref={previewRef}
+            onClick={handlePreviewClick}
+            title="Click to use this colour as the key"
+            style={{ imageRendering: 'pixelated', width: previewW, height: previewH, cursor: 'crosshair', flexShrink: 0 }}
+          />
+        </div>
+
+        {/* Key options */}
+        <div className="flex items-center gap-3 text-xs text-gray-400">
+          <label className="flex items-center gap-1.5">
+            Key
+            <input
+              type="color"
+              value={keyColor}
+              onChange={e => setKeyColor(e.target.value)}
+              className="w-5 h-5 p-0 border border-gray-600 rounded-sm bg-transparent cursor-pointer"
+            />
+          </label>
+          <button
+            className="text-xs bg-gray-700 hover:bg-gray-600 text-gray-300 px-2 py-0.5 rounded"
+            onClick={() => setKeyColor(colorAt(pixels, 0, 0))}
+            title="Use the colour of the top-left pixel"
+          >
+            Sample ↖
+          </button>
+          <label className="flex items-center gap-1.5" title="How far (0–255 per channel) a colour may differ from the key and still be removed">
+            Tolerance
+            <NumericInput
+              value={tolerance}
+              min={0} max={255}
+              onChange={setTolerance}
+              className="bg-gray-800 border border-gray-600 text-white text-xs px-1 py-0.5 rounded w-12"
+            />
+          </label>
+          <span className="ml-auto text-gray-600">
+            {total ? Math.round(cleared / total * 100) : 0}% removed
+          </span>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={() => onDone(null)}
+            className="text-xs bg-gray-700 hover:bg-gray-600 text-gray-300 px-3 py-1.5 rounded"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onDone(file)}
+            className="text-xs bg-gray-700 hover:bg-gray-600 text-gray-300 px-3 py-1.5 rounded"
+          >
+            Import As Is
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={busy}
+            className="text-xs bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 text-white px-3 py-1.5 rounded font-medium"
+          >
+            {busy ? 'Removing…' : 'Remove Background'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
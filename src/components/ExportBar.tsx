@@ -1,27 +1,24 @@
 import { useState } from 'react';
 import JSZip from 'jszip';
 import { saveAs } from 'file-saver';
-import { GIFEncoder, quantize, applyPalette } from 'gifenc';
 import type { AppState } from '../types';
-import { DIRECTIONS_4, DIRECTIONS_8 } from '../types';
+import { DIRECTIONS_4, DIRECTIONS_8, frameDurations } from '../types';
 import { ColorShiftCache } from '../colorShift';
 import { renderFullSheet, renderAllFrames, compositeFrame } from '../compositing';
-import { getDirectionRow } from '../state';
+import { getDirectionRow, getAnimationIndex } from '../state';
+import { surfaceToBlob } from '../surface';
+import type { ExportScale } from '../exporting';
+import { SCALE_OPTIONS, fileSafe, scaleSurface, buildFramesZip, buildGifsZip, renderGif } from '../exporting';
+import type { AtlasInput } from '../atlas';
+import { buildSpriteFrames, buildAnimatedSpriteScene } from '../godot';
+import { AtlasExportModal } from './AtlasExportModal';
+import { VariantExportModal } from './VariantExportModal';
 
 interface ExportBarProps {
   state: AppState;
   cache: ColorShiftCache;
 }
 
-function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
-  return new Promise((resolve, reject) => {
-    canvas.toBlob(blob => {
-      if (blob) resolve(blob);
-      else reject(new Error('Canvas toBlob failed'));
-    }, 'image/png');
-  });
-}
-
 function downloadBlob(blob: Blob, filename: string) {
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
@@ -31,37 +28,29 @@ function downloadBlob(blob: Blob, filename: string) {
   URL.revokeObjectURL(url);
 }
 
-/**
- * Scale a canvas by an integer multiplier using nearest-neighbour (no interpolation).
- * Returns a new canvas — the original is untouched.
- */
-function scaleCanvas(src: HTMLCanvasElement, scale: number): HTMLCanvasElement {
-  if (scale === 1) return src;
-  const out = document.createElement('canvas');
-  out.width = src.width * scale;
-  out.height = src.height * scale;
-  const ctx = out.getContext('2d')!;
-  ctx.imageSmoothingEnabled = false;
-  ctx.drawImage(src, 0, 0, out.width, out.height);
-  return out;
-}
-
-const SCALE_OPTIONS = [1, 2, 3, 4] as const;
-type ExportScale = typeof SCALE_OPTIONS[number];
-
-export function ExportBar({ state, cache }: ExportBarProps) {
-  const { layers, config, previewDirection, previewFrame, selectedLayerId } = state;
+export function ExportBar({ state, cache: liveCache }: ExportBarProps) {
+  // Exports must never pick up colours still being recomputed in a worker
+  const cache = liveCache.exact();
+  const { layers, config, previewAnimation, previewDirection, previewFrame, selectedLayerId } = state;
   const [exporting, setExporting] = useState<string | null>(null);
   const [exportScale, setExportScale] = useState<ExportScale>(1);
+  const [atlasFrames, setAtlasFrames] = useState<{ inputs: AtlasInput[]; animations: Record<string, string[]> } | null>(null);
+  const [showVariants, setShowVariants] = useState(false);
 
   const selectedLayer = layers.find(l => l.id === selectedLayerId) ?? null;
   const selectedLayerReady = !!(selectedLayer?.visible && selectedLayer?.image);
 
+  const animIndex = getAnimationIndex(config, previewAnimation);
+  const anim = config.animations[animIndex];
+  const multiAnim = config.animations.length > 1;
+  // Only disambiguate file names when there's more than one animation
+  const animPrefix = multiAnim ? `${fileSafe(anim.name)}-` : '';
+
   async function exportFullSheet() {
     setExporting('sheet');
     try {
-      const canvas = scaleCanvas(renderFullSheet(layers, config, cache), exportScale);
-      const blob = await canvasToBlob(canvas);
+      const canvas = scaleSurface(renderFullSheet(layers, config, cache), exportScale);
+      const blob = await surfaceToBlob(canvas);
       const suffix = exportScale > 1 ? `@${exportScale}x` : '';
       downloadBlob(blob, `sprite-sheet${suffix}.png`);
     } finally {
@@ -69,6 +58,18 @@ export function ExportBar({ state, cache }: ExportBarProps) {
     }
   }
 
+  async function exportAnimationSheet() {
+    setExporting('animSheet');
+    try {
+      const canvas = scaleSurface(renderFullSheet(layers, config, cache, animIndex), exportScale);
+      const blob = await surfaceToBlob(canvas);
+      const suffix = exportScale > 1 ? `@${exportScale}x` : '';
+      downloadBlob(blob, `${fileSafe(anim.name)}-sheet${suffix}.png`);
+    } finally {
+      setExporting(null);
+    }
+  }
+
   async function exportCurrentFrame() {
     setExporting('frame');
     try {
@@ -76,11 +77,11 @@ export function ExportBar({ state, cache }: ExportBarProps) {
       const canvas = document.createElement('canvas');
       canvas.width = config.frameWidth;
       canvas.height = config.frameHeight;
-      compositeFrame(canvas, layers, config, dirRow, previewFrame, cache);
-      const scaled = scaleCanvas(canvas, exportScale);
-      const blob = await canvasToBlob(scaled);
+      compositeFrame(canvas, layers, config, animIndex, dirRow, previewFrame, cache);
+      const scaled = scaleSurface(canvas, exportScale);
+      const blob = await surfaceToBlob(scaled);
       const suffix = exportScale > 1 ? `@${exportScale}x` : '';
-      downloadBlob(blob, `frame-${previewDirection}-${previewFrame + 1}${suffix}.png`);
+      downloadBlob(blob, `frame-${animPrefix}${previewDirection}-${previewFrame + 1}${suffix}.png`);
     } finally {
       setExporting(null);
     }
@@ -89,29 +90,61 @@ export function ExportBar({ state, cache }: ExportBarProps) {
   async function exportAllFrames() {
     setExporting('frames');
     try {
-      const frames = renderAllFrames(layers, config, cache);
+      const zip = await buildFramesZip(layers, config, cache, exportScale, state.previewFps);
+      const zipBlob = await zip.generateAsync({ type: 'blob' });
+      const suffix = exportScale > 1 ? `@${exportScale}x` : '';
+      saveAs(zipBlob, `frames${suffix}.zip`);
+    } finally {
+      setExporting(null);
+    }
+  }
+
+  /** Sheet PNG + Godot SpriteFrames (.tres) + AnimatedSprite2D scene (.tscn), zipped together. */
+  async function exportGodot() {
+    setExporting('godot');
+    try {
+      const suffix = exportScale > 1 ? `@${exportScale}x` : '';
+      const base = `sprite-sheet${suffix}`;
+      const canvas = scaleSurface(renderFullSheet(layers, config, cache), exportScale);
       const zip = new JSZip();
-      const folder = zip.folder('frames')!;
-      const dirs = config.directions === 4 ? [...DIRECTIONS_4] : [...DIRECTIONS_8];
+      zip.file(`${base}.png`, await surfaceToBlob(canvas));
+      zip.file(`${base}.tres`, buildSpriteFrames(config, {
+        texturePath: `${base}.png`,
+        scale:       exportScale,
+        fps:         state.previewFps,
+        mode:        state.previewMode,
+      }));
+      zip.file(`${base}.tscn`, buildAnimatedSpriteScene(`${base}.tres`, 'Sprite', `${anim.name}_${previewDirection}`));
+      const zipBlob = await zip.generateAsync({ type: 'blob' });
+      saveAs(zipBlob, `godot${suffix}.zip`);
+    } finally {
+      setExporting(null);
+    }
+  }
 
-      let idx = 0;
+  /** Render every frame once and hand them to the atlas modal for packing. */
+  function openAtlasExport() {
+    const frames = renderAllFrames(layers, config, cache);
+    const dirs = config.directions === 4 ? [...DIRECTIONS_4] : [...DIRECTIONS_8];
+    const inputs: AtlasInput[] = [];
+    const animations: Record<string, string[]> = {};
+
+    // renderAllFrames order: animation → direction → frame
+    let idx = 0;
+    for (const a of config.animations) {
+      const durations = frameDurations(a, state.previewFps);
       for (let row = 0; row < config.directions; row++) {
-        for (let col = 0; col < config.framesPerDirection; col++) {
-          const scaled = scaleCanvas(frames[idx], exportScale);
-          const blob = await canvasToBlob(scaled);
-          const dirName = dirs[row];
-          const frameName = `${String(col + 1).padStart(3, '0')}`;
-          folder.file(`${dirName}/${frameName}.png`, blob);
+        const key = `${a.name}_${dirs[row]}`;
+        animations[key] = [];
+        for (let f = 0; f < a.frameCount; f++) {
+          const name = `${key}_${String(f).padStart(3, '0')}`;
+          inputs.push({ name, canvas: scaleSurface(frames[idx], exportScale), duration: durations[f] });
+          animations[key].push(name);
           idx++;
         }
       }
-
-      const zipBlob = await zip.generateAsync({ type: 'blob' });
-      const suffix = exportScale > 1 ? `@${exportScale}x` : '';
-      saveAs(zipBlob, `frames${suffix}.zip`);
-    } finally {
-      setExporting(null);
     }
+    setAtlasFrames({ inputs, animations });
   }
 
   async function exportCurrentDirection() {
@@ -120,19 +153,19 @@ export function ExportBar({ state, cache }: ExportBarProps) {
       const dirRow = getDirectionRow(previewDirection, config.directions);
       const zip = new JSZip();
 
-      for (let col = 0; col < config.framesPerDirection; col++) {
+      for (let col = 0; col < anim.frameCount; col++) {
         const canvas = document.createElement('canvas');
         canvas.width = config.frameWidth;
         canvas.height = config.frameHeight;
-        compositeFrame(canvas, layers, config, dirRow, col, cache);
-        const scaled = scaleCanvas(canvas, exportScale);
-        const blob = await canvasToBlob(scaled);
-        zip.file(`${previewDirection}-${String(col + 1).padStart(3, '0')}.png`, blob);
+        compositeFrame(canvas, layers, config, animIndex, dirRow, col, cache);
+        const scaled = scaleSurface(canvas, exportScale);
+        const blob = await surfaceToBlob(scaled);
+        zip.file(`${animPrefix}${previewDirection}-${String(col + 1).padStart(3, '0')}.png`, blob);
       }
 
       const zipBlob = await zip.generateAsync({ type: 'blob' });
       const suffix = exportScale > 1 ? `@${exportScale}x` : '';
-      saveAs(zipBlob, `frames-${previewDirection}${suffix}.zip`);
+      saveAs(zipBlob, `frames-${animPrefix}${previewDirection}${suffix}.zip`);
     } finally {
       setExporting(null);
     }
@@ -143,8 +176,8 @@ export function ExportBar({ state, cache }: ExportBarProps) {
     setExporting('layerSheet');
     try {
       // Render only this one layer as if it were the only visible layer
-      const canvas = scaleCanvas(renderFullSheet([selectedLayer], config, cache), exportScale);
-      const blob = await canvasToBlob(canvas);
+      const canvas = scaleSurface(renderFullSheet([selectedLayer], config, cache), exportScale);
+      const blob = await surfaceToBlob(canvas);
       const suffix = exportScale > 1 ? `@${exportScale}x` : '';
       const name = selectedLayer.fileName.replace(/\.[^.]+$/, '') || selectedLayer.name;
       downloadBlob(blob, `${name}-sheet${suffix}.png`);
@@ -161,91 +194,26 @@ export function ExportBar({ state, cache }: ExportBarProps) {
       const canvas = document.createElement('canvas');
       canvas.width = config.frameWidth;
       canvas.height = config.frameHeight;
-      compositeFrame(canvas, [selectedLayer], config, dirRow, previewFrame, cache);
-      const scaled = scaleCanvas(canvas, exportScale);
-      const blob = await canvasToBlob(scaled);
+      compositeFrame(canvas, [selectedLayer], config, animIndex, dirRow, previewFrame, cache);
+      const scaled = scaleSurface(canvas, exportScale);
+      const blob = await surfaceToBlob(scaled);
       const suffix = exportScale > 1 ? `@${exportScale}x` : '';
       const name = selectedLayer.fileName.replace(/\.[^.]+$/, '') || selectedLayer.name;
-      downloadBlob(blob, `${name}-${previewDirection}-${previewFrame + 1}${suffix}.png`);
+      downloadBlob(blob, `${name}-${animPrefix}${previewDirection}-${previewFrame + 1}${suffix}.png`);
     } finally {
       setExporting(null);
     }
   }
 
-  /**
-   * Apply the current playback mode to the frame order.
-   * 'forward'  — unchanged
-   * 'reverse'  — reversed
-   * 'pingpong' — forward then reversed (minus duplicate endpoints)
-   */
-  function applyPlaybackMode(frames: HTMLCanvasElement[]): HTMLCanvasElement[] {
-    const mode = state.previewMode;
-    if (mode === 'reverse') return [...frames].reverse();
-    if (mode === 'pingpong') {
-      if (frames.length <= 2) return frames;
-      const back = [...frames].reverse().slice(1, -1);   // drop first & last (already in forward pass)
-      return [...frames, ...back];
-    }
-    return frames;
-  }
-
-  /** Encode an array of frame canvases into an animated GIF blob with transparency. */
-  function encodeGif(frames: HTMLCanvasElement[], delayMs: number): Blob {
-    const w = frames[0].width, h = frames[0].height;
-    const gif = GIFEncoder();
-
-    for (let i = 0; i < frames.length; i++) {
-      const ctx = frames[i].getContext('2d')!;
-      const rgba = ctx.getImageData(0, 0, w, h).data;
-      const palette = quantize(rgba, 256, { format: 'rgba4444', clearAlpha: true, clearAlphaThreshold: 128 });
-      const index = applyPalette(rgba, palette, 'rgba4444');
-
-      // Find the palette entry with alpha=0 for GIF transparency
-      let transparentIndex = 0;
-      let hasTransparent = false;
-      for (let p = 0; p < palette.length; p++) {
-        if (palette[p].length >= 4 && (palette[p] as [number, number, number, number])[3] === 0) {
-          transparentIndex = p;
-          hasTransparent = true;
-          break;
-        }
-      }
-
-      gif.writeFrame(index, w, h, {
-        palette,
-        delay: delayMs,
-        repeat: 0,                          // loop forever
-        dispose: 2,                         // restore to background (needed for transparency between frames)
-        transparent: hasTransparent,
-        transparentIndex,
-      });
-    }
-
-    gif.finish();
-    const bytes = gif.bytes();
-    return new Blob([bytes.slice().buffer as ArrayBuffer], { type: 'image/gif' });
-  }
-
   async function exportGifDirection() {
     setExporting('gifDir');
     try {
       const dirRow = getDirectionRow(previewDirection, config.directions);
-      const delayMs = Math.round(1000 / state.previewFps);
-      const rawFrames: HTMLCanvasElement[] = [];
-
-      for (let f = 0; f < config.framesPerDirection; f++) {
-        const cv = document.createElement('canvas');
-        cv.width = config.frameWidth;
-        cv.height = config.frameHeight;
-        compositeFrame(cv, layers, config, dirRow, f, cache);
-        rawFrames.push(scaleCanvas(cv, exportScale));
-      }
-
-      const frames = applyPlaybackMode(rawFrames);
-      const blob = encodeGif(frames, delayMs);
+      const bytes = renderGif(layers, config, cache, animIndex, dirRow, exportScale, state.previewFps, state.previewMode);
+      const blob = new Blob([bytes.slice().buffer as ArrayBuffer], { type: 'image/gif' });
       const suffix = exportScale > 1 ? `@${exportScale}x` : '';
       const modeTag = state.previewMode !== 'forward' ? `-${state.previewMode}` : '';
-      downloadBlob(blob, `${previewDirection}${modeTag}${suffix}.gif`);
+      downloadBlob(blob, `${animPrefix}${previewDirection}${modeTag}${suffix}.gif`);
     } finally {
       setExporting(null);
     }
@@ -254,24 +222,7 @@ export function ExportBar({ state, cache }: ExportBarProps) {
   async function exportGifAllDirections() {
     setExporting('gifAll');
     try {
-      const dirs = config.directions === 4 ? [...DIRECTIONS_4] : [...DIRECTIONS_8];
-      const delayMs = Math.round(1000 / state.previewFps);
-      const zip = new JSZip();
-
-      for (let d = 0; d < config.directions; d++) {
-        const rawFrames: HTMLCanvasElement[] = [];
-        for (let f = 0; f < config.framesPerDirection; f++) {
-          const cv = document.createElement('canvas');
-          cv.width = config.frameWidth;
-          cv.height = config.frameHeight;
-          compositeFrame(cv, layers, config, d, f, cache);
-          rawFrames.push(scaleCanvas(cv, exportScale));
-        }
-        const frames = applyPlaybackMode(rawFrames);
-        const blob = encodeGif(frames, delayMs);
-        zip.file(`${dirs[d]}.gif`, blob);
-      }
-
+      const zip = buildGifsZip(layers, config, cache, exportScale, state.previewFps, state.previewMode);
       const zipBlob = await zip.generateAsync({ type: 'blob' });
       const suffix = exportScale > 1 ? `@${exportScale}x` : '';
       saveAs(zipBlob, `gifs${suffix}.zip`);
@@ -281,6 +232,7 @@ export function ExportBar({ state, cache }: ExportBarProps) {
   }
 
   const hasLayers = layers.some(l => l.visible && l.image);
+  const hasVariants = layers.some(l => l.variant && l.image);
 
   return (
     <div className="flex items-center gap-x-2 gap-y-1 px-4 py-2 bg-gray-900 border-t border-gray-700 flex-shrink-0 flex-wrap">
@@ -315,11 +267,22 @@ export function ExportBar({ state, cache }: ExportBarProps) {
         {exporting === 'sheet' ? '⏳' : '📄'} Sheet
       </button>
 
+      {multiAnim && (
+        <button
+          onClick={exportAnimationSheet}
+          disabled={!hasLayers || !!exporting}
+          className="text-xs bg-indigo-700 hover:bg-indigo-600 disabled:bg-gray-700 disabled:text-gray-500 text-white px-2 py-1.5 rounded transition-colors flex items-center gap-1"
+          title={`Export only the "${anim.name}" animation as a sprite sheet PNG`}
+        >
+          {exporting === 'animSheet' ? '⏳' : '📄'} Anim Sheet
+        </button>
+      )}
+
       <button
         onClick={exportCurrentDirection}
         disabled={!hasLayers || !!exporting}
         className="text-xs bg-indigo-700 hover:bg-indigo-600 disabled:bg-gray-700 disabled:text-gray-500 text-white px-2 py-1.5 rounded transition-colors flex items-center gap-1"
-        title={`Export all frames for current direction (${previewDirection}) as ZIP`}
+        title={`Export all ${anim.name} frames for current direction (${previewDirection}) as ZIP`}
       >
         {exporting === 'dir' ? '⏳' : '🎞'} Dir ZIP
       </button>
@@ -333,6 +296,35 @@ export function ExportBar({ state, cache }: ExportBarProps) {
         {exporting === 'frames' ? '⏳' : '📦'} All ZIP
       </button>
 
+      <button
+        onClick={openAtlasExport}
+        disabled={!hasLayers || !!exporting}
+        className="text-xs bg-indigo-700 hover:bg-indigo-600 disabled:bg-gray-700 disabled:text-gray-500 text-white px-2 py-1.5 rounded transition-colors flex items-center gap-1"
+        title="Export trimmed frames packed into a texture atlas with JSON metadata"
+      >
+        🧩 Atlas
+      </button>
+
+      <button
+        onClick={exportGodot}
+        disabled={!hasLayers || !!exporting}
+        className="text-xs bg-indigo-700 hover:bg-indigo-600 disabled:bg-gray-700 disabled:text-gray-500 text-white px-2 py-1.5 rounded transition-colors flex items-center gap-1"
+        title={`Export sheet + Godot SpriteFrames (.tres) and AnimatedSprite2D scene at ${state.previewFps} FPS (${state.previewMode})`}
+      >
+        {exporting === 'godot' ? '⏳' : '🤖'} Godot
+      </button>
+
+      {hasVariants && (
+        <button
+          onClick={() => setShowVariants(true)}
+          disabled={!!exporting}
+          className="text-xs bg-indigo-700 hover:bg-indigo-600 disabled:bg-gray-700 disabled:text-gray-500 text-white px-2 py-1.5 rounded transition-colors flex items-center gap-1"
+          title="Export a sheet for every combination of variant parts (or a seeded random sample) with a manifest"
+        >
+          👥 Variants
+        </button>
+      )}
+
       <button
         onClick={exportCurrentFrame}
         disabled={!hasLayers || !!exporting}
@@ -370,7 +362,7 @@ export function ExportBar({ state, cache }: ExportBarProps) {
         onClick={exportGifDirection}
         disabled={!hasLayers || !!exporting}
         className="text-xs bg-amber-700 hover:bg-amber-600 disabled:bg-gray-700 disabled:text-gray-500 text-white px-2 py-1.5 rounded transition-colors flex items-center gap-1"
-        title={`Export ${previewDirection} animation as GIF at ${state.previewFps} FPS`}
+        title={`Export ${anim.name} ${previewDirection} animation as GIF using its frame timings`}
       >
         {exporting === 'gifDir' ? '⏳' : '🎞'} Dir GIF
       </button>
@@ -379,7 +371,7 @@ export function ExportBar({ state, cache }: ExportBarProps) {
         onClick={exportGifAllDirections}
         disabled={!hasLayers || !!exporting}
         className="text-xs bg-amber-700 hover:bg-amber-600 disabled:bg-gray-700 disabled:text-gray-500 text-white px-2 py-1.5 rounded transition-colors flex items-center gap-1"
-        title={`Export all ${config.directions} directions as separate GIFs in a ZIP at ${state.previewFps} FPS`}
+        title={`Export every animation × ${config.directions} directions as separate GIFs in a ZIP using their frame timings`}
       >
         {exporting === 'gifAll' ? '⏳' : '📦'} All GIFs
       </button>
@@ -387,6 +379,24 @@ export function ExportBar({ state, cache }: ExportBarProps) {
       {!hasLayers && (
         <span className="text-xs text-gray-600 ml-2">Add visible layers with images to enable export</span>
       )}
+
+      {atlasFrames && (
+        <AtlasExportModal
+          inputs={atlasFrames.inputs}
+          animations={atlasFrames.animations}
+          scale={exportScale}
+          onClose={() => setAtlasFrames(null)}
+        />
+      )}
+
+      {showVariants && (
+        <VariantExportModal
+          layers={layers}
+          renderSheet={(stack, variantCache) => scaleSurface(renderFullSheet(stack, config, variantCache), exportScale)}
+          scale={exportScale}
+          onClose={() => setShowVariants(false)}
+        />
+      )}
     </div>
   );
 }
@@ -1,42 +1,63 @@
 import { useState } from 'react';
-import type { Layer, ProjectConfig } from '../types';
+import type { FrameOffset, Layer, ProjectConfig } from '../types';
+import { DIRECTIONS_4, DIRECTIONS_8, filledFrameOffsets, hasFrameOffsets } from '../types';
 import { NumericInput } from './NumericInput';
 
 interface Props {
   layer: Layer;
   config: ProjectConfig;
-  onApply: (frameOffsets: Array<{ x: number; y: number }>) => void;
+  /** Direction row shown first. */
+  initialDirection?: number;
+  onApply: (frameOffsets: FrameOffset[][]) => void;
   onClose: () => void;
 }
 
-export function FrameOffsetsModal({ layer, config, onApply, onClose }: Props) {
-  const { framesPerDirection } = config;
+export function FrameOffsetsModal({ layer, config, initialDirection = 0, onApply, onClose }: Props) {
+  const dirs = config.directions === 4 ? DIRECTIONS_4 : DIRECTIONS_8;
+  // One row per frame on the shared timeline (every animation, back to back)
+  const multiAnim = config.animations.length > 1;
+  const rows = config.animations.flatMap(anim =>
+    Array.from({ length: anim.frameCount }, (_, f) => ({ anim, f }))
+  );
 
   // Initialise local state from existing frameOffsets, defaulting to 0,0 for each frame
-  const [offsets, setOffsets] = useState<Array<{ x: number; y: number }>>(() =>
-    Array.from({ length: framesPerDirection }, (_, i) => ({
-      x: layer.frameOffsets?.[i]?.x ?? 0,
-      y: layer.frameOffsets?.[i]?.y ?? 0,
-    }))
-  );
+  const [offsets, setOffsets] = useState<FrameOffset[][]>(() => filledFrameOffsets(config, layer.frameOffsets));
+  const [dir, setDir] = useState(initialDirection);
+
+  // Copy tool
+  const [copyFrom, setCopyFrom] = useState(initialDirection);
+  const [copyTo, setCopyTo] = useState<number | 'all'>('all');
+  const [mirror, setMirror] = useState(false);
 
   function setFrame(index: number, axis: 'x' | 'y', value: number) {
-    setOffsets(prev => {
-      const next = [...prev];
-      next[index] = { ...next[index], [axis]: value };
-      return next;
-    });
+    setOffsets(prev => prev.map((row, d) =>
+      d === dir ? row.map((o, i) => (i === index ? { ...o, [axis]: value } : o)) : row
+    ));
+  }
+
+  /** Copy one direction's offsets onto another (or all others), optionally flipping X. */
+  function handleCopy() {
+    const source = offsets[copyFrom];
+    setOffsets(prev => prev.map((row, d) => {
+      if (d === copyFrom || (copyTo !== 'all' && d !== copyTo)) return row;
+      return source.map(o => ({ x: mirror ? -o.x : o.x, y: o.y }));
+    }));
+  }
+
+  function handleClearDirection() {
+    setOffsets(prev => prev.map((row, d) => (d === dir ? row.map(() => ({ x: 0, y: 0 })) : row)));
   }
 
   function handleClearAll() {
-    setOffsets(Array.from({ length: framesPerDirection }, () => ({ x: 0, y: 0 })));
+    setOffsets(filledFrameOffsets(config, undefined));
   }
 
   function handleApply() {
     onApply(offsets);
   }
 
-  const hasAny = offsets.some(o => o.x !== 0 || o.y !== 0);
+  const hasAny = hasFrameOffsets(offsets);
+  const dirHasAny = (d: number) => offsets[d].some(o => o.x !== 0 || o.y !== 0);
 
   return (
     <div
@@ -45,7 +66,7 @@ export function FrameOffsetsModal({ layer, config, onApply, onClose }: Props) {
     >
       <div
         className="bg-gray-900 border border-gray-700 rounded-xl shadow-2xl p-6 flex flex-col gap-5 overflow-y-auto"
-        style={{ width: 420, maxHeight: '85vh' }}
+        style={{ width: 460, maxHeight: '85vh' }}
         onMouseDown={e => e.stopPropagation()}
       >
         {/* Header */}
@@ -53,7 +74,7 @@ export function FrameOffsetsModal({ layer, config, onApply, onClose }: Props) {
           <div>
             <h2 className="text-base font-bold text-white">Per-Frame Offsets</h2>
             <p className="text-xs text-gray-500 mt-0.5">
-              Nudge "<span className="text-gray-300">{layer.name}</span>" per frame — useful for bobbing animations.
+              Nudge "<span className="text-gray-300">{layer.name}</span>" per direction and frame — useful for bobbing animations.
               <br />
               Added on top of the layer's global offset ({layer.offsetX},{layer.offsetY}).
             </p>
@@ -61,6 +82,20 @@ export function FrameOffsetsModal({ layer, config, onApply, onClose }: Props) {
           <button onClick={onClose} className="text-gray-500 hover:text-white text-xl leading-none">✕</button>
         </div>
 
+        {/* Direction tabs */}
+        <div className="flex flex-wrap gap-1">
+          {dirs.map((d, i) => (
+            <button
+              key={d}
+              onClick={() => setDir(i)}
+              className={`text-xs px-2 py-1 rounded ${dir === i ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+            >
+              {d}
+              {dirHasAny(i) && <span className={`ml-1 ${dir === i ? 'text-white' : 'text-indigo-400'}`}>●</span>}
+            </button>
+          ))}
+        </div>
+
         {/* Frame offset table */}
         <div className="flex flex-col gap-0.5">
           <div className="grid grid-cols-3 gap-x-2 px-1 mb-1">
@@ -70,38 +105,81 @@ export function FrameOffsetsModal({ layer, config, onApply, onClose }: Props) {
           </div>
 
           <div className="flex flex-col gap-1 overflow-y-auto" style={{ maxHeight: 320 }}>
-            {offsets.map((off, i) => (
-              <div
-                key={i}
-                className={`grid grid-cols-3 gap-x-2 items-center px-1 py-0.5 rounded ${
-                  off.x !== 0 || off.y !== 0 ? 'bg-indigo-950/40' : 'hover:bg-gray-800/40'
-                }`}
-              >
-                <span className="text-xs text-gray-400">
-                  Frame {i + 1}
-                  {(off.x !== 0 || off.y !== 0) && (
-                    <span className="ml-1 text-indigo-400 text-xs">●</span>
-                  )}
-                </span>
-                <NumericInput
-                  value={off.x}
-                  min={-512}
-                  max={512}
-                  onChange={v => setFrame(i, 'x', v)}
-                  className="bg-gray-800 border border-gray-600 text-white text-xs px-2 py-1 rounded w-full text-center"
-                />
-                <NumericInput
-                  value={off.y}
-                  min={-512}
-                  max={512}
-                  onChange={v => setFrame(i, 'y', v)}
-                  className="bg-gray-800 border border-gray-600 text-white text-xs px-2 py-1 rounded w-full text-center"
-                />
+            {offsets[dir].map((off, i) => (
+              <div key={i} className="flex flex-col gap-1">
+                {multiAnim && rows[i].f === 0 && (
+                  <span className="text-xs font-semibold text-indigo-300 px-1 pt-1">{rows[i].anim.name}</span>
+                )}
+                <div
+                  className={`grid grid-cols-3 gap-x-2 items-center px-1 py-0.5 rounded ${
+                    off.x !== 0 || off.y !== 0 ? 'bg-indigo-950/40' : 'hover:bg-gray-800/40'
+                  }`}
+                >
+                  <span className="text-xs text-gray-400">
+                    Frame {rows[i].f + 1}
+                    {(off.x !== 0 || off.y !== 0) && (
+                      <span className="ml-1 text-indigo-400 text-xs">●</span>
+                    )}
+                  </span>
+                  <NumericInput
+                    value={off.x}
+                    min={-512}
+                    max={512}
+                    onChange={v => setFrame(i, 'x', v)}
+                    className="bg-gray-800 border border-gray-600 text-white text-xs px-2 py-1 rounded w-full text-center"
+                  />
+                  <NumericInput
+                    value={off.y}
+                    min={-512}
+                    max={512}
+                    onChange={v => setFrame(i, 'y', v)}
+                    className="bg-gray-800 border border-gray-600 text-white text-xs px-2 py-1 rounded w-full text-center"
+                  />
+                </div>
               </div>
             ))}
           </div>
         </div>
 
+        {/* Copy between directions */}
+        <div className="flex flex-col gap-1.5 bg-gray-800/60 rounded px-3 py-2">
+          <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Copy offsets</span>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={copyFrom}
+              onChange={e => setCopyFrom(Number(e.target.value))}
+              className="bg-gray-800 border border-gray-600 text-white text-xs px-1 py-1 rounded"
+            >
+              {dirs.map((d, i) => <option key={d} value={i}>{d}</option>)}
+            </select>
+            <span className="text-gray-500 text-xs">→</span>
+            <select
+              value={copyTo}
+              onChange={e => setCopyTo(e.target.value === 'all' ? 'all' : Number(e.target.value))}
+              className="bg-gray-800 border border-gray-600 text-white text-xs px-1 py-1 rounded"
+            >
+              <option value="all">all other directions</option>
+              {dirs.map((d, i) => i !== copyFrom && <option key={d} value={i}>{d}</option>)}
+            </select>
+            <label className="flex items-center gap-1 cursor-pointer select-none" title="Negate X, e.g. to turn left-facing offsets into right-facing ones">
+              <input
+                type="checkbox"
+                checked={mirror}
+                onChange={e => setMirror(e.target.checked)}
+                className="accent-indigo-500 w-3.5 h-3.5"
+              />
+              <span className="text-xs text-gray-300">Mirror X</span>
+            </label>
+            <button
+              onClick={handleCopy}
+              disabled={copyTo === copyFrom}
+              className="text-xs px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:text-gray-600 text-gray-300 rounded"
+            >
+              Copy
+            </button>
+          </div>
+        </div>
+
         {/* Hint */}
         <p className="text-xs text-gray-600">
           X+ = right, Y+ = down. These are applied at render time; no image data is changed until you use "Tile to Sheet".
@@ -109,6 +187,13 @@ export function FrameOffsetsModal({ layer, config, onApply, onClose }: Props) {
 
         {/* Actions */}
         <div className="flex gap-2">
+          <button
+            onClick={handleClearDirection}
+            disabled={!dirHasAny(dir)}
+            className="text-xs px-3 py-2 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-600 text-gray-300 rounded transition-colors"
+          >
+            Clear {dirs[dir]}
+          </button>
           <button
             onClick={handleClearAll}
             disabled={!hasAny}
@@ -9,15 +9,17 @@
  * Props:
  *   assetCanvas  – the source image as an HTMLCanvasElement (single frame)
  *   assetName    – default layer name
- *   config       – project config (frame size, directions, framesPerDirection)
+ *   config       – project config (frame size, directions, animations)
  *   onImport(layer) – called with the finished Layer; caller dispatches ADD_LAYER
  *   onClose      – called when the modal is dismissed without importing
  */
 
 import { useRef, useEffect, useState } from 'react';
 import type { Layer, LayerType, ProjectConfig } from '../types';
-import { DIRECTIONS_4, DIRECTIONS_8 } from '../types';
+import { DIRECTIONS_4, DIRECTIONS_8, sheetSize } from '../types';
 import { tileToSheet } from '../compositing';
+import type { Surface } from '../surface';
+import { context2d, createSurface, surfaceToBlob } from '../surface';
 
 interface ImportFrameModalProps {
   assetCanvas: HTMLCanvasElement;
@@ -28,13 +30,13 @@ interface ImportFrameModalProps {
 }
 
 export function ImportFrameModal({ assetCanvas, assetName, config, onImport, onClose }: ImportFrameModalProps) {
-  const { directions, framesPerDirection, frameWidth, frameHeight, defaultInputLayout } = config;
+  const { directions, animations, defaultInputLayout } = config;
   const dirLabels = directions === 4 ? DIRECTIONS_4 : DIRECTIONS_8;
 
-  // Selected cells: Set of "dirRow_frameIdx" strings
+  // Selected cells: Set of "animIdx_dirRow_frameIdx" strings
   const [selected, setSelected] = useState<Set<string>>(() => {
-    // Default: only frame 0 of direction 0
-    return new Set(['0_0']);
+    // Default: only frame 0 of direction 0 of the first animation
+    return new Set(['0_0_0']);
   });
   const [name, setName] = useState(assetName);
   const [busy, setBusy] = useState(false);
@@ -42,7 +44,8 @@ export function ImportFrameModal({ assetCanvas, assetName, config, onImport, onC
   // Preview canvas — re-renders when selection changes
   const previewRef = useRef<HTMLCanvasElement>(null);
 
-  const CELL_SIZE = Math.max(20, Math.min(40, Math.floor(300 / framesPerDirection)));
+  const maxFrames = Math.max(...animations.map(a => a.frameCount));
+  const CELL_SIZE = Math.max(20, Math.min(40, Math.floor(300 / maxFrames)));
 
   useEffect(() => {
     const cv = previewRef.current;
@@ -52,10 +55,10 @@ export function ImportFrameModal({ assetCanvas, assetName, config, onImport, onC
     cv.getContext('2d')!.drawImage(assetCanvas, 0, 0);
   }, [assetCanvas]);
 
-  function key(dir: number, frame: number) { return `${dir}_${frame}`; }
+  function key(anim: number, dir: number, frame: number) { return `${anim}_${dir}_${frame}`; }
 
-  function toggle(dir: number, frame: number) {
-    const k = key(dir, frame);
+  function toggle(anim: number, dir: number, frame: number) {
+    const k = key(anim, dir, frame);
     setSelected(prev => {
       const next = new Set(prev);
       if (next.has(k)) { next.delete(k); } else { next.add(k); }
@@ -65,26 +68,28 @@ export function ImportFrameModal({ assetCanvas, assetName, config, onImport, onC
 
   function selectAll() {
     const all = new Set<string>();
-    for (let d = 0; d < directions; d++)
-      for (let f = 0; f < framesPerDirection; f++)
-        all.add(key(d, f));
+    animations.forEach((anim, a) => {
+      for (let d = 0; d < directions; d++)
+        for (let f = 0; f < anim.frameCount; f++)
+          all.add(key(a, d, f));
+    });
     setSelected(all);
   }
 
   function selectNone() { setSelected(new Set()); }
 
-  function selectRow(dir: number) {
+  function selectRow(anim: number, dir: number) {
     setSelected(prev => {
       const next = new Set(prev);
-      for (let f = 0; f < framesPerDirection; f++) next.add(key(dir, f));
+      for (let f = 0; f < animations[anim].frameCount; f++) next.add(key(anim, dir, f));
       return next;
     });
   }
 
-  function selectCol(frame: number) {
+  function selectCol(anim: number, frame: number) {
     setSelected(prev => {
       const next = new Set(prev);
-      for (let d = 0; d < directions; d++) next.add(key(d, frame));
+      for (let d = 0; d < directions; d++) next.add(key(anim, d, frame));
       return next;
     });
   }
@@ -94,43 +99,43 @@ export function ImportFrameModal({ assetCanvas, assetName, config, onImport, onC
     setBusy(true);
 
     // Build per-cell list — selection may be sparse (e.g. dir0-frame1 but not dir1-frame1)
+    const animSet = new Set<number>();
     const dirSet = new Set<number>();
     const frameSet = new Set<number>();
-    const cells: Array<{ dir: number; frame: number }> = [];
+    const cells: Array<{ anim: number; dir: number; frame: number }> = [];
     for (const k of selected) {
-      const [d, f] = k.split('_').map(Number);
-      cells.push({ dir: d, frame: f });
+      const [a, d, f] = k.split('_').map(Number);
+      cells.push({ anim: a, dir: d, frame: f });
+      animSet.add(a);
       dirSet.add(d);
       frameSet.add(f);
     }
 
-    // tileToSheet stamps all (dir, frame) combinations of dirMask × frameMask
+    // tileToSheet stamps all (anim, dir, frame) combinations of animMask × dirMask × frameMask
     // For a non-rectangular selection we need to call it per-cell and composite.
     // We check if the selection IS rectangular first for the fast path.
-    const isRectangular = cells.length === dirSet.size * frameSet.size;
+    const isRectangular = cells.length === animSet.size * dirSet.size * frameSet.size;
 
-    let sheet: HTMLCanvasElement;
+    let sheet: Surface;
     if (isRectangular) {
       sheet = tileToSheet(
         assetCanvas, config,
+        Array.from(animSet).sort((a, b) => a - b),
         Array.from(dirSet).sort((a, b) => a - b),
         Array.from(frameSet).sort((a, b) => a - b)
       );
     } else {
       // Composite one cell at a time
-      const { cols, rows } = defaultInputLayout;
-      sheet = document.createElement('canvas');
-      sheet.width = cols * frameWidth;
-      sheet.height = rows * frameHeight;
-      const ctx = sheet.getContext('2d')!;
-      for (const { dir, frame } of cells) {
-        const single = tileToSheet(assetCanvas, config, [dir], [frame]);
+      const { width, height } = sheetSize(config, defaultInputLayout);
+      sheet = createSurface(width, height);
+      const ctx = context2d(sheet);
+      for (const { anim, dir, frame } of cells) {
+        const single = tileToSheet(assetCanvas, config, [anim], [dir], [frame]);
         ctx.drawImage(single, 0, 0);
       }
     }
 
-    sheet.toBlob(blob => {
-      if (!blob) { setBusy(false); return; }
+    surfaceToBlob(sheet).then(blob => {
       const objectUrl = URL.createObjectURL(blob);
       const img = new Image();
       img.onload = () => {
@@ -151,7 +156,7 @@ export function ImportFrameModal({ assetCanvas, assetName, config, onImport, onC
         onImport(layer);
       };
       img.src = objectUrl;
-    }, 'image/png');
+    }).catch(() => setBusy(false));
   }
 
   const previewScale = Math.min(4, Math.floor(120 / Math.max(assetCanvas.width, assetCanvas.height)));
@@ -202,50 +207,58 @@ export function ImportFrameModal({ assetCanvas, assetName, config, onImport, onC
             </div>
           </div>
 
-          {/* Column header — frame numbers */}
-          <div className="flex gap-px mb-px ml-14">
-            {Array.from({ length: framesPerDirection }, (_, f) => (
-              <button
-                key={f}
-                onClick={() => selectCol(f)}
-                className="text-gray-600 hover:text-gray-300 text-center flex-shrink-0"
-                style={{ width: CELL_SIZE, fontSize: 9 }}
-                title={`Select all of frame ${f + 1}`}
-              >
-                {f + 1}
-              </button>
-            ))}
-          </div>
+          {animations.map((anim, a) => (
+            <div key={anim.id} className="mb-2">
+              {animations.length > 1 && (
+                <span className="block text-xs text-indigo-300 mb-1">{anim.name}</span>
+              )}
 
-          {/* Rows */}
-          <div className="flex flex-col gap-px">
-            {Array.from({ length: directions }, (_, d) => (
-              <div key={d} className="flex items-center gap-px">
-                {/* Direction label — click to select whole row */}
-                <button
-                  onClick={() => selectRow(d)}
-                  className="text-gray-500 hover:text-gray-300 text-right flex-shrink-0 pr-1 capitalize"
-                  style={{ width: 52, fontSize: 9 }}
-                  title={`Select all of direction ${dirLabels[d]}`}
-                >
-                  {dirLabels[d]}
-                </button>
+              {/* Column header — frame numbers */}
+              <div className="flex gap-px mb-px ml-14">
+                {Array.from({ length: anim.frameCount }, (_, f) => (
+                  <button
+                    key={f}
+                    onClick={() => selectCol(a, f)}
+                    className="text-gray-600 hover:text-gray-300 text-center flex-shrink-0"
+                    style={{ width: CELL_SIZE, fontSize: 9 }}
+                    title={`Select all of frame ${f + 1}`}
+                  >
+                    {f + 1}
+                  </button>
+                ))}
+              </div>
 
-                {Array.from({ length: framesPerDirection }, (_, f) => {
-                  const isOn = selected.has(key(d, f));
-                  return (
+              {/* Rows */}
+              <div className="flex flex-col gap-px">
+                {Array.from({ length: directions }, (_, d) => (
+                  <div key={d} className="flex items-center gap-px">
+                    {/* Direction label — click to select whole row */}
                     <button
-                      key={f}
-                      onClick={() => toggle(d, f)}
-                      className={`flex-shrink-0 rounded-sm transition-colors ${isOn ? 'bg-indigo-500 hover:bg-indigo-400' : 'bg-gray-700 hover:bg-gray-600'}`}
-                      style={{ width: CELL_SIZE, height: CELL_SIZE }}
-                      title={`${dirLabels[d]} / frame ${f + 1}`}
-                    />
-                  );
-                })}
+                      onClick={() => selectRow(a, d)}
+                      className="text-gray-500 hover:text-gray-300 text-right flex-shrink-0 pr-1 capitalize"
+                      style={{ width: 52, fontSize: 9 }}
+                      title={`Select all of direction ${dirLabels[d]}`}
+                    >
+                      {dirLabels[d]}
+                    </button>
+
+                    {Array.from({ length: anim.frameCount }, (_, f) => {
+                      const isOn = selected.has(key(a, d, f));
+                      return (
+                        <button
+                          key={f}
+                          onClick={() => toggle(a, d, f)}
+                          className={`flex-shrink-0 rounded-sm transition-colors ${isOn ? 'bg-indigo-500 hover:bg-indigo-400' : 'bg-gray-700 hover:bg-gray-600'}`}
+                          style={{ width: CELL_SIZE, height: CELL_SIZE }}
+                          title={`${anim.name} / ${dirLabels[d]} / frame ${f + 1}`}
+                        />
+                      );
+                    })}
+                  </div>
+                ))}
               </div>
-            ))}
-          </div>
+            </div>
+          ))}
         </div>
 
         {/* Footer */}
@@ -1,12 +1,20 @@
-import React, { useRef, useState, useCallback } from 'react';
-import type { Layer, LayerType, AppAction, ProjectConfig } from '../types';
+import React, { useRef, useState, useCallback, useEffect } from 'react';
+import type { BlendMode, Direction, Layer, LayerType, AppAction, HslRange, LibraryAsset, Palette, ProjectConfig } from '../types';
+import { totalFrames, rowsNeeded, hasFrameOffsets, DEFAULT_HSL_RANGE, BLEND_MODES, LAYER_TYPES } from '../types';
 import { NumericInput } from './NumericInput';
 import { TileToSheetModal } from './TileToSheetModal';
 import { ClearFramesModal } from './ClearFramesModal';
-import { ColorShiftCache } from '../colorShift';
+import { PaletteMapModal } from './PaletteMapModal';
+import { FrameOffsetsModal } from './FrameOffsetsModal';
+import { VariantPresetsModal } from './VariantPresetsModal';
+import { RandomizerModal } from './RandomizerModal';
+import { ColorKeyModal } from './ColorKeyModal';
+import { ColorShiftCache, rgbToHsl, hslRangeWeight } from '../colorShift';
 import { renderFullSheet } from '../compositing';
-
-const LAYER_TYPES: LayerType[] = ['Base', 'Hair', 'Top', 'Bottom', 'Accessory', 'Hat', 'Weapon', 'Custom'];
+import { surfaceToBlob } from '../surface';
+import { getDirectionRow } from '../state';
+import { parseAseprite, asepriteToLayers } from '../aseprite';
+import { useColorKey } from '../hooks/useColorKey';
 
 const TYPE_COLORS: Record<LayerType, string> = {
   Base: '#6366f1',
@@ -19,35 +27,72 @@ const TYPE_COLORS: Record<LayerType, string> = {
   Custom: '#6b7280',
 };
 
+// Blend modes where drawing two layers one after the other equals drawing
+// them pre-flattened with the same mode
+const STACKING_MODES: BlendMode[] = ['normal', 'multiply', 'screen', 'lighter'];
+
+/**
+ * Why layers[index] can't be merged onto the layer below, or null if it can.
+ * A bottom layer that is itself clipped shares its base further down, which
+ * the two-layer merge can't see. Unclipped layers become one layer with one
+ * blend mode, which only looks the same when both share a mode that stacks.
+ */
+function mergeBlocker(layers: Layer[], index: number): string | null {
+  const top = layers[index];
+  const bottom = layers[index - 1];
+  if (index >= 2 && bottom.clipToBelow) {
+    return 'The layer below is clipped to another layer — merge it into its base first';
+  }
+  if (top.clipToBelow) return null;
+  const topMode = top.blendMode ?? 'normal';
+  const bottomMode = bottom.blendMode ?? 'normal';
+  const label = (mode: BlendMode) => BLEND_MODES.find(m => m.value === mode)?.label ?? mode;
+  if (topMode !== bottomMode) {
+    return `Blend modes differ (${label(topMode)} onto ${label(bottomMode)}) — give both layers the same mode to merge`;
+  }
+  if (!STACKING_MODES.includes(topMode)) {
+    return `${label(topMode)} layers can't be flattened into one`;
+  }
+  return null;
+}
+
 interface LayersPanelProps {
   layers: Layer[];
   selectedLayerId: string | null;
   config: ProjectConfig;
+  library: LibraryAsset[];
   dispatch: React.Dispatch<AppAction>;
   cache: ColorShiftCache;
+  previewAnimation: string;
+  previewFps: number;
   mobile?: boolean;
   onClose?: () => void;
 }
 
-export function LayersPanel({ layers, selectedLayerId, config, dispatch, cache, mobile, onClose }: LayersPanelProps) {
+export function LayersPanel({ layers, selectedLayerId, config, library, dispatch, cache, previewAnimation, previewFps, mobile, onClose }: LayersPanelProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
   const [draggingIndex, setDraggingIndex] = useState<number | null>(null);
+  const [importMessage, setImportMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const [showRandomizer, setShowRandomizer] = useState(false);
+  const colorKey = useColorKey();
+  // Whether the file picker was opened with "Remove background…"
+  const removeBackgroundRef = useRef(false);
+
+  function guessLayerType(name: string): LayerType {
+    const lower = name.toLowerCase();
+    return LAYER_TYPES.find(t => lower.includes(t.toLowerCase())) ?? 'Custom';
+  }
 
   function createLayer(file: File): Promise<Layer> {
     return new Promise((resolve) => {
       const objectUrl = URL.createObjectURL(file);
       const img = new Image();
       img.onload = () => {
-        const lower = file.name.toLowerCase();
-        let type: LayerType = 'Custom';
-        for (const t of LAYER_TYPES) {
-          if (lower.includes(t.toLowerCase())) { type = t; break; }
-        }
         resolve({
           id: crypto.randomUUID(),
           name: file.name.replace(/\.[^.]+$/, ''),
-          type,
+          type: guessLayerType(file.name),
           visible: true,
           opacity: 100,
           hsl: { hue: 0, saturation: 0, lightness: 0 },
@@ -64,12 +109,42 @@ export function LayersPanel({ layers, selectedLayerId, config, dispatch, cache,
     });
   }
 
-  async function handleFiles(files: FileList) {
+  /** Import every image layer of an Aseprite file, bottom to top, plus its frame timings. */
+  async function importAseprite(file: File) {
+    const ase = await parseAseprite(await file.arrayBuffer());
+    const targetAnim = Math.max(0, config.animations.findIndex(a => a.id === previewAnimation));
+    const result = await asepriteToLayers(ase, config, file.name, targetAnim, previewFps);
+    dispatch({
+      type: 'IMPORT_LAYERS',
+      layers: result.layers.map(layer => ({ ...layer, type: guessLayerType(layer.name) })),
+      durations: result.durations,
+    });
+    return result.warnings.map(w => `${file.name}: ${w}`);
+  }
+
+  async function handleFiles(files: FileList, removeBackground = false) {
+    setImportMessage(null);
+    const warnings: string[] = [];
+    const errors: string[] = [];
     for (const file of Array.from(files)) {
+      if (/\.(ase|aseprite)$/i.test(file.name)) {
+        try {
+          warnings.push(...await importAseprite(file));
+        } catch (e) {
+          errors.push(`${file.name}: ${e instanceof Error ? e.message : 'Import failed'}`);
+        }
+        continue;
+      }
       if (!file.type.includes('png') && !file.type.includes('image')) continue;
-      const layer = await createLayer(file);
+      // Opaque sheets get the chance to have their background keyed out first
+      const keyed = await colorKey.keyBackground(file, removeBackground);
+      if (!keyed) continue;
+      const layer = await createLayer(keyed);
       dispatch({ type: 'ADD_LAYER', layer });
     }
+    if (errors.length || warnings.length) {
+      setImportMessage({ text: [...errors, ...warnings].join('\n'), error: errors.length > 0 });
+    }
   }
 
   function handleDrop(e: React.DragEvent) {
@@ -102,13 +177,17 @@ export function LayersPanel({ layers, selectedLayerId, config, dispatch, cache,
   }
 
   function handleMergeDown(index: number) {
-    if (index < 1) return;
+    if (index < 1 || mergeBlocker(layers, index)) return;
     const topLayer = layers[index];
     const bottomLayer = layers[index - 1];
-    // Composite just these two layers into a full sheet
-    const sheet = renderFullSheet([bottomLayer, topLayer], config, cache);
-    sheet.toBlob(blob => {
-      if (!blob) return;
+    // A clipping top layer is part of the bottom layer's clip group: flatten
+    // the group with the base at full strength and keep the base's opacity,
+    // so layers still clipped above see the same alpha. Otherwise the layers
+    // share a stacking blend mode: flatten them with it and keep it.
+    const clipped = !!topLayer.clipToBelow;
+    const base = clipped ? { ...bottomLayer, opacity: 100, blendMode: undefined } : bottomLayer;
+    const sheet = renderFullSheet([base, topLayer], config, cache.exact());
+    surfaceToBlob(sheet).then(blob => {
       const objectUrl = URL.createObjectURL(blob);
       const img = new Image();
       img.onload = () => {
@@ -117,7 +196,9 @@ export function LayersPanel({ layers, selectedLayerId, config, dispatch, cache,
           name: `${bottomLayer.name} + ${topLayer.name}`,
           type: bottomLayer.type,
           visible: true,
-          opacity: 100,
+          opacity: clipped ? bottomLayer.opacity : 100,
+          blendMode: bottomLayer.blendMode,
+          clipToBelow: bottomLayer.clipToBelow,
           hsl: { hue: 0, saturation: 0, lightness: 0 },
           image: img,
           objectUrl,
@@ -129,7 +210,7 @@ export function LayersPanel({ layers, selectedLayerId, config, dispatch, cache,
         dispatch({ type: 'MERGE_LAYERS_DOWN', index, mergedLayer });
       };
       img.src = objectUrl;
-    }, 'image/png');
+    });
   }
 
   const reversedLayers = [...layers].reverse();
@@ -139,10 +220,24 @@ export function LayersPanel({ layers, selectedLayerId, config, dispatch, cache,
       <div className="flex items-center justify-between px-3 py-2 border-b border-gray-700">
         <span className="text-xs font-bold text-gray-300 uppercase tracking-wider">Layers</span>
         <div className="flex items-center gap-1.5">
+          <button
+            className="text-xs bg-gray-700 hover:bg-gray-600 text-gray-300 px-2 py-1 rounded transition-colors"
+            onClick={() => setShowRandomizer(true)}
+            title="Generate a random character from variant layers and tagged Library assets"
+          >
+            🎲
+          </button>
+          <button
+            className="text-xs bg-gray-700 hover:bg-gray-600 text-gray-300 px-2 py-1 rounded transition-colors"
+            onClick={() => { removeBackgroundRef.current = true; fileInputRef.current?.click(); }}
+            title="Remove background… — add a layer from an image, turning its background colour transparent first"
+          >
+            −BG
+          </button>
           <button
             className="text-xs bg-indigo-600 hover:bg-indigo-500 text-white px-2 py-1 rounded transition-colors"
-            onClick={() => fileInputRef.current?.click()}
-            title="Add layer from PNG file"
+            onClick={() => { removeBackgroundRef.current = false; fileInputRef.current?.click(); }}
+            title="Add layer from PNG or Aseprite file"
           >
             + Add
           </button>
@@ -158,6 +253,15 @@ export function LayersPanel({ layers, selectedLayerId, config, dispatch, cache,
         </div>
       </div>
 
+      {importMessage && (
+        <div
+          className={`flex items-start gap-2 px-3 py-2 border-b border-gray-700 text-xs whitespace-pre-line ${importMessage.error ? 'text-red-400' : 'text-amber-400'}`}
+        >
+          <span className="flex-1">{importMessage.text}</span>
+          <button onClick={() => setImportMessage(null)} className="text-gray-500 hover:text-white" title="Dismiss">✕</button>
+        </div>
+      )}
+
       <div
         className="flex-1 overflow-y-auto"
         onDrop={handleDrop}
@@ -166,13 +270,14 @@ export function LayersPanel({ layers, selectedLayerId, config, dispatch, cache,
         {layers.length === 0 && (
           <div className="flex flex-col items-center justify-center h-32 text-gray-500 text-xs text-center px-4 mt-4">
             <span className="text-2xl mb-2">🗂️</span>
-            Drop PNG sprite sheets here or click Add
+            Drop PNG sprite sheets or Aseprite files here or click Add
           </div>
         )}
 
         {reversedLayers.map((layer, reversedIndex) => {
           const index = layers.length - 1 - reversedIndex;
           const isSelected = layer.id === selectedLayerId;
+          const mergeBlocked = index > 0 ? mergeBlocker(layers, index) : null;
           const isDragOver = dragOverIndex === index;
 
           return (
@@ -193,6 +298,9 @@ export function LayersPanel({ layers, selectedLayerId, config, dispatch, cache,
               onDragEnd={onDragEnd}
             >
               <span className="drag-handle text-gray-600 text-xs select-none" title="Drag to reorder">⠿</span>
+              {layer.clipToBelow && index > 0 && (
+                <span className="text-indigo-400 text-xs -ml-1" title="Clipped to the layer below">↳</span>
+              )}
 
               <span
                 className="text-xs px-1 rounded font-bold flex-shrink-0"
@@ -205,6 +313,10 @@ export function LayersPanel({ layers, selectedLayerId, config, dispatch, cache,
                 {layer.name}
               </span>
 
+              {layer.variant && (
+                <span className="text-indigo-400 text-xs flex-shrink-0" title={`${layer.type} variant candidate`}>◇</span>
+              )}
+
               {/* Layout badge */}
               <span className="text-gray-600 text-xs flex-shrink-0" title="Input layout (cols×rows)">
                 {layer.inputLayout.cols}×{layer.inputLayout.rows}
@@ -223,12 +335,13 @@ export function LayersPanel({ layers, selectedLayerId, config, dispatch, cache,
 
               {index > 0 && (
                 <button
-                  className="text-gray-600 hover:text-amber-400 flex-shrink-0 text-sm"
+                  className="text-gray-600 hover:text-amber-400 disabled:opacity-40 disabled:hover:text-gray-600 flex-shrink-0 text-sm"
                   onClick={e => {
                     e.stopPropagation();
                     handleMergeDown(index);
                   }}
-                  title="Merge down — composite this layer onto the one below"
+                  disabled={mergeBlocked !== null}
+                  title={mergeBlocked ?? 'Merge down — composite this layer onto the one below'}
                 >
                   ⤵
                 </button>
@@ -252,11 +365,30 @@ export function LayersPanel({ layers, selectedLayerId, config, dispatch, cache,
       <input
         ref={fileInputRef}
         type="file"
-        accept="image/png,image/*"
+        accept="image/png,image/*,.ase,.aseprite"
         multiple
         className="hidden"
-        onChange={e => { if (e.target.files) { handleFiles(e.target.files); e.target.value = ''; } }}
+        onChange={e => { if (e.target.files) { handleFiles(e.target.files, removeBackgroundRef.current); e.target.value = ''; } }}
       />
+
+      {colorKey.request && (
+        <ColorKeyModal
+          file={colorKey.request.file}
+          pixels={colorKey.request.pixels}
+          opaque={colorKey.request.opaque}
+          onDone={colorKey.settle}
+        />
+      )}
+
+      {showRandomizer && (
+        <RandomizerModal
+          layers={layers}
+          library={library}
+          config={config}
+          dispatch={dispatch}
+          onClose={() => setShowRandomizer(false)}
+        />
+      )}
     </div>
   );
 }
@@ -266,14 +398,19 @@ interface LayerPropertiesProps {
   config: ProjectConfig;
   dispatch: React.Dispatch<AppAction>;
   cache: ColorShiftCache;
+  palettes: Palette[];
   frameOffsetMode: boolean;
+  previewDirection: Direction;
   mobile?: boolean;
 }
 
-export function LayerProperties({ layer, config, dispatch, cache, frameOffsetMode, mobile }: LayerPropertiesProps) {
+export function LayerProperties({ layer, config, dispatch, cache, palettes, frameOffsetMode, previewDirection, mobile }: LayerPropertiesProps) {
   const [showTileModal, setShowTileModal] = useState(false);
   const [showClearModal, setShowClearModal] = useState(false);
   const [showHslModal, setShowHslModal] = useState(false);
+  const [showPaletteModal, setShowPaletteModal] = useState(false);
+  const [showOffsetsModal, setShowOffsetsModal] = useState(false);
+  const [showPresetsModal, setShowPresetsModal] = useState(false);
 
   if (!layer) {
     return (
@@ -283,8 +420,7 @@ export function LayerProperties({ layer, config, dispatch, cache, frameOffsetMod
     );
   }
 
-  const LAYER_TYPES_LIST: LayerType[] = ['Base', 'Hair', 'Top', 'Bottom', 'Accessory', 'Hat', 'Weapon', 'Custom'];
-  const total = config.directions * config.framesPerDirection;
+  const total = totalFrames(config);
 
   function update(updates: Partial<Layer>) {
     dispatch({ type: 'UPDATE_LAYER', id: layer!.id, updates });
@@ -295,7 +431,11 @@ export function LayerProperties({ layer, config, dispatch, cache, frameOffsetMod
     dispatch({ type: 'UPDATE_LAYER_TRANSIENT', id: layer!.id, updates });
   }
 
-  const layoutOk = layer.inputLayout.cols * layer.inputLayout.rows >= total;
+  // Each animation starts on a fresh row, so check rows rather than raw cell count
+  const minRows = rowsNeeded(config, layer.inputLayout.cols);
+  const layoutOk = layer.inputLayout.rows >= minRows;
+  // HSL sliders do nothing while a palette map is active
+  const paletteMode = layer.colorMode === 'palette';
 
   return (
     <div className={`flex flex-wrap items-center gap-x-3 gap-y-3 px-4 py-1.5 ${mobile ? 'pb-3' : 'h-full'}`}>
@@ -320,27 +460,79 @@ export function LayerProperties({ layer, config, dispatch, cache, frameOffsetMod
             onChange={e => update({ type: e.target.value as LayerType })}
             className="bg-gray-800 border border-gray-600 text-white text-xs px-1 py-1 rounded"
           >
-            {LAYER_TYPES_LIST.map(t => <option key={t} value={t}>{t}</option>)}
+            {LAYER_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+        </div>
+
+        {/* Blend mode */}
+        <div className="flex flex-col gap-0.5">
+          <label className="text-xs text-gray-400">Blend</label>
+          <select
+            value={layer.blendMode ?? 'normal'}
+            onChange={e => update({ blendMode: e.target.value as BlendMode })}
+            className="bg-gray-800 border border-gray-600 text-white text-xs px-1 py-1 rounded"
+            title="How this layer combines with the layers beneath it"
+          >
+            {BLEND_MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
           </select>
         </div>
 
+        {/* Clipping */}
+        <div className="flex flex-col gap-0.5">
+          <label className="text-xs text-gray-400">Clip</label>
+          <label className="flex items-center gap-1 h-6 cursor-pointer select-none" title="Clip this layer to the shape of the layer below">
+            <input
+              type="checkbox"
+              checked={!!layer.clipToBelow}
+              onChange={e => update({ clipToBelow: e.target.checked || undefined })}
+              className="accent-indigo-500 w-3.5 h-3.5"
+            />
+            <span className="text-xs text-gray-300">↳ Below</span>
+          </label>
+        </div>
+
+        {/* Variant slot */}
+        <div className="flex flex-col gap-0.5">
+          <label className="text-xs text-gray-400">Variant</label>
+          <div className="flex items-center gap-1 h-6">
+            <label className="flex items-center gap-1 cursor-pointer select-none" title={`Make this one of several interchangeable ${layer.type} parts for variant export`}>
+              <input
+                type="checkbox"
+                checked={!!layer.variant}
+                onChange={e => update({ variant: e.target.checked ? { presets: [] } : undefined })}
+                className="accent-indigo-500 w-3.5 h-3.5"
+              />
+              <span className="text-xs text-gray-300">{layer.type}</span>
+            </label>
+            {layer.variant && (
+              <button
+                className="text-xs px-1.5 py-0.5 rounded bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors whitespace-nowrap"
+                onClick={() => setShowPresetsModal(true)}
+                title="HSL presets this part is exported in"
+              >
+                🎨 {layer.variant.presets.length}
+              </button>
+            )}
+          </div>
+        </div>
+
         {/* Input layout */}
         <div className="flex flex-col gap-0.5">
           <label className={`text-xs ${layoutOk ? 'text-gray-400' : 'text-red-400'}`}>
-            Layout <span className="text-gray-600">(≥{total})</span>
+            Layout <span className="text-gray-600">(≥{minRows} rows)</span>
           </label>
           <div className="flex items-center gap-1">
             <NumericInput
               value={layer.inputLayout.cols}
               min={1} max={total * 2}
-              onChange={cols => update({ inputLayout: { cols, rows: layer.inputLayout.rows } })}
+              onChange={cols => update({ inputLayout: { ...layer.inputLayout, cols } })}
               className="bg-gray-800 border border-gray-600 text-white text-xs px-1 py-1 rounded w-10"
             />
             <span className="text-gray-600 text-xs">×</span>
             <NumericInput
               value={layer.inputLayout.rows}
               min={1} max={total * 2}
-              onChange={rows => update({ inputLayout: { cols: layer.inputLayout.cols, rows } })}
+              onChange={rows => update({ inputLayout: { ...layer.inputLayout, rows } })}
               className="bg-gray-800 border border-gray-600 text-white text-xs px-1 py-1 rounded w-10"
             />
             <button
@@ -349,6 +541,23 @@ export function LayerProperties({ layer, config, dispatch, cache, frameOffsetMod
               title="Reset to project default"
             >↺</button>
           </div>
+          {/* Border and gaps of third-party sheets */}
+          <div className="flex items-center gap-1">
+            <span className="text-gray-600 text-xs" title="Margin around the sheet">m</span>
+            <NumericInput
+              value={layer.inputLayout.margin ?? 0}
+              min={0} max={256}
+              onChange={margin => update({ inputLayout: { ...layer.inputLayout, margin } })}
+              className="bg-gray-800 border border-gray-600 text-white text-xs px-1 py-1 rounded w-10"
+            />
+            <span className="text-gray-600 text-xs" title="Spacing between cells">s</span>
+            <NumericInput
+              value={layer.inputLayout.spacing ?? 0}
+              min={0} max={256}
+              onChange={spacing => update({ inputLayout: { ...layer.inputLayout, spacing } })}
+              className="bg-gray-800 border border-gray-600 text-white text-xs px-1 py-1 rounded w-10"
+            />
+          </div>
         </div>
       </div>
 
@@ -357,7 +566,7 @@ export function LayerProperties({ layer, config, dispatch, cache, frameOffsetMod
         <div className="w-px self-stretch bg-gray-700" />
 
         {/* Hue */}
-        <div className="flex flex-col gap-1.5" style={{ minWidth: 80 }}>
+        <div className={`flex flex-col gap-1.5 ${paletteMode ? 'opacity-40 pointer-events-none' : ''}`} style={{ minWidth: 80 }}>
           <label className="text-xs text-gray-400">Hue <span className="text-gray-500">{layer.hsl.hue}°</span></label>
           <input
             type="range" min={-180} max={180} step={1}
@@ -368,7 +577,7 @@ export function LayerProperties({ layer, config, dispatch, cache, frameOffsetMod
         </div>
 
         {/* Saturation */}
-        <div className="flex flex-col gap-1.5" style={{ minWidth: 80 }}>
+        <div className={`flex flex-col gap-1.5 ${paletteMode ? 'opacity-40 pointer-events-none' : ''}`} style={{ minWidth: 80 }}>
           <label className="text-xs text-gray-400">Sat <span className="text-gray-500">{layer.hsl.saturation}</span></label>
           <input
             type="range" min={-100} max={100} step={1}
@@ -379,7 +588,7 @@ export function LayerProperties({ layer, config, dispatch, cache, frameOffsetMod
         </div>
 
         {/* Lightness */}
-        <div className="flex flex-col gap-1.5" style={{ minWidth: 80 }}>
+        <div className={`flex flex-col gap-1.5 ${paletteMode ? 'opacity-40 pointer-events-none' : ''}`} style={{ minWidth: 80 }}>
           <label className="text-xs text-gray-400">Light <span className="text-gray-500">{layer.hsl.lightness}</span></label>
           <input
             type="range" min={-100} max={100} step={1}
@@ -408,6 +617,18 @@ export function LayerProperties({ layer, config, dispatch, cache, frameOffsetMod
         >
           Adjust
         </button>
+
+        {/* Palette map — exact colour swaps instead of HSL */}
+        <button
+          className={`text-xs px-1.5 py-1 rounded transition-colors whitespace-nowrap ${
+            paletteMode ? 'bg-indigo-600 hover:bg-indigo-500 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+          }`}
+          onClick={() => setShowPaletteModal(true)}
+          disabled={!layer.image}
+          title="Recolour with exact source → target colour ramps"
+        >
+          🎨 Palette
+        </button>
       </div>
 
       {/* Section 3: Offset + action buttons */}
@@ -450,7 +671,7 @@ export function LayerProperties({ layer, config, dispatch, cache, frameOffsetMod
           ✂ Clear
         </button>
 
-        {layer.frameOffsets?.some(o => o.x !== 0 || o.y !== 0) && (
+        {hasFrameOffsets(layer.frameOffsets) && (
           <span className="text-amber-400 text-xs leading-none">●</span>
         )}
         <button
@@ -460,11 +681,16 @@ export function LayerProperties({ layer, config, dispatch, cache, frameOffsetMod
               : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
           }`}
           onClick={() => dispatch({ type: 'SET_FRAME_OFFSET_MODE', active: !frameOffsetMode })}
-          title="Toggle frame offset drag mode — drag the canvas to nudge this layer per frame"
+          title="Toggle frame offset drag mode — drag the canvas to nudge this layer for the current direction and frame"
         >
           ↕ Offsets
         </button>
-        {layer.frameOffsets?.some(o => o.x !== 0 || o.y !== 0) && (
+        <button
+          className="text-xs px-1.5 py-1 rounded bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors"
+          onClick={() => setShowOffsetsModal(true)}
+          title="Edit frame offsets per direction as a table, or copy them between directions"
+        >⋯</button>
+        {hasFrameOffsets(layer.frameOffsets) && (
           <button
             className="text-xs px-1.5 py-1 rounded bg-gray-700 hover:bg-red-900 text-gray-400 hover:text-red-300 transition-colors"
             onClick={() => update({ frameOffsets: undefined })}
@@ -512,10 +738,50 @@ export function LayerProperties({ layer, config, dispatch, cache, frameOffsetMod
         />
       )}
 
+      {/* Variant colour presets */}
+      {showPresetsModal && layer.variant && (
+        <VariantPresetsModal
+          layer={{ ...layer, variant: layer.variant }}
+          onChange={presets => update({ variant: { presets } })}
+          onApply={hsl => update({ hsl })}
+          onClose={() => setShowPresetsModal(false)}
+        />
+      )}
+
+      {/* Per-direction frame offsets table */}
+      {showOffsetsModal && (
+        <FrameOffsetsModal
+          layer={layer}
+          config={config}
+          initialDirection={Math.max(0, getDirectionRow(previewDirection, config.directions))}
+          onApply={frameOffsets => {
+            update({ frameOffsets: hasFrameOffsets(frameOffsets) ? frameOffsets : undefined });
+            setShowOffsetsModal(false);
+          }}
+          onClose={() => setShowOffsetsModal(false)}
+        />
+      )}
+
+      {/* Palette map modal */}
+      {showPaletteModal && layer.image && (
+        <PaletteMapModal
+          layer={{ ...layer, image: layer.image }}
+          palettes={palettes}
+          onApply={updates => {
+            update(updates);
+            setShowPaletteModal(false);
+          }}
+          onSavePalette={palette => dispatch({ type: 'ADD_PALETTE', palette })}
+          onDeletePalette={id => dispatch({ type: 'REMOVE_PALETTE', id })}
+          onClose={() => setShowPaletteModal(false)}
+        />
+      )}
+
       {/* HSL & Opacity dialog */}
       {showHslModal && (
         <HslDialog
           hsl={layer.hsl}
+          image={layer.image}
           opacity={layer.opacity}
           onUpdate={updates => update(updates)}
           onTransientUpdate={updates => updateTransient(updates)}
@@ -532,7 +798,8 @@ export function LayerProperties({ layer, config, dispatch, cache, frameOffsetMod
 // ── HSL & Opacity Dialog ────────────────────────────────────────────────────
 
 interface HslDialogProps {
-  hsl: { hue: number; saturation: number; lightness: number };
+  hsl: Layer['hsl'];
+  image: HTMLImageElement | null;
   opacity: number;
   onUpdate: (updates: Partial<Layer>) => void;
   onTransientUpdate: (updates: Partial<Layer>) => void;
@@ -541,7 +808,7 @@ interface HslDialogProps {
   mobile?: boolean;
 }
 
-function HslDialog({ hsl, opacity, onUpdate, onTransientUpdate, onSnapshot, onClose, mobile }: HslDialogProps) {
+function HslDialog({ hsl, image, opacity, onUpdate, onTransientUpdate, onSnapshot, onClose, mobile }: HslDialogProps) {
   const panelRef = useRef<HTMLDivElement>(null);
   const dragRef = useRef<{ startX: number; startY: number; origX: number; origY: number } | null>(null);
   const [pos, setPos] = useState({ x: 0, y: 0 });
@@ -578,8 +845,56 @@ function HslDialog({ hsl, opacity, onUpdate, onTransientUpdate, onSnapshot, onCl
     dragRef.current = null;
   }
 
+  // ── Colour range mask ──
+  const range = hsl.range;
+  const maskRef = useRef<HTMLCanvasElement>(null);
+  const maskScale = image ? Math.min(4, 240 / Math.max(image.naturalWidth, image.naturalHeight)) : 1;
+
+  // Live mask preview: matching pixels keep their colour, the rest fade to dim grey
+  useEffect(() => {
+    const cv = maskRef.current;
+    if (!cv || !image || !range) return;
+    cv.width = image.naturalWidth;
+    cv.height = image.naturalHeight;
+    const ctx = cv.getContext('2d')!;
+    ctx.drawImage(image, 0, 0);
+    const imageData = ctx.getImageData(0, 0, cv.width, cv.height);
+    const data = imageData.data;
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] === 0) continue;
+      const [h, s, l] = rgbToHsl(data[i], data[i + 1], data[i + 2]);
+      const w = hslRangeWeight(h, s, l, range);
+      const grey = 40;
+      data[i] = Math.round(grey + (data[i] - grey) * w);
+      data[i + 1] = Math.round(grey + (data[i + 1] - grey) * w);
+      data[i + 2] = Math.round(grey + (data[i + 2] - grey) * w);
+    }
+    ctx.putImageData(imageData, 0, 0);
+  }, [image, range]);
+
+  function setRange(updates: Partial<HslRange>, transient = false) {
+    const next = { hsl: { ...hsl, range: { ...(range ?? DEFAULT_HSL_RANGE), ...updates } } };
+    if (transient) onTransientUpdate(next);
+    else onUpdate(next);
+  }
+
+  /** Click the mask preview to centre the hue range on that pixel. */
+  function pickHue(e: React.MouseEvent<HTMLCanvasElement>) {
+    if (!image) return;
+    const x = Math.floor(e.nativeEvent.offsetX / maskScale);
+    const y = Math.floor(e.nativeEvent.offsetY / maskScale);
+    const canvas = document.createElement('canvas');
+    canvas.width = 1;
+    canvas.height = 1;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(image, x, y, 1, 1, 0, 0, 1, 1);
+    const [r, g, b, a] = ctx.getImageData(0, 0, 1, 1).data;
+    if (a === 0) return;
+    setRange({ hueCenter: Math.round(rgbToHsl(r, g, b)[0]) });
+  }
+
   const sliderContent = (
-    <div className="flex flex-col gap-3 p-4">
+    <div className="flex flex-col gap-3 p-4 max-h-[75vh] overflow-y-auto">
       {/* Hue */}
       <div className="flex flex-col gap-1">
         <label className="text-xs text-gray-400">Hue (-180 to 180)</label>
@@ -660,6 +975,89 @@ function HslDialog({ hsl, opacity, onUpdate, onTransientUpdate, onSnapshot, onCl
         </div>
       </div>
 
+      {/* Colour range */}
+      <div className="flex flex-col gap-2 border-t border-gray-700 pt-3">
+        <label className="flex items-center gap-2 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={!!range}
+            onChange={e => onUpdate({ hsl: { ...hsl, range: e.target.checked ? { ...DEFAULT_HSL_RANGE } : undefined } })}
+            className="accent-indigo-500 w-3.5 h-3.5"
+          />
+          <span className="text-xs text-gray-300">Only shift a colour range</span>
+        </label>
+
+        {range && (
+          <>
+            <div className="flex flex-col gap-1">
+              <label className="text-xs text-gray-400">Hue centre <span className="text-gray-500">{range.hueCenter}°</span></label>
+              <input
+                type="range" min={0} max={360} step={1}
+                value={range.hueCenter}
+                onPointerDown={onSnapshot}
+                onChange={e => setRange({ hueCenter: Number(e.target.value) }, true)}
+                style={{ background: 'linear-gradient(to right, #f00, #ff0, #0f0, #0ff, #00f, #f0f, #f00)', borderRadius: 4 }}
+              />
+            </div>
+            <div className="flex flex-col gap-1">
+              <label className="text-xs text-gray-400">Hue width <span className="text-gray-500">{range.hueWidth}°</span></label>
+              <input
+                type="range" min={0} max={360} step={1}
+                value={range.hueWidth}
+                onPointerDown={onSnapshot}
+                onChange={e => setRange({ hueWidth: Number(e.target.value) }, true)}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-xs text-gray-400 w-16">Sat %</label>
+              <NumericInput value={range.satMin} min={0} max={100} onChange={v => setRange({ satMin: v })}
+                className="bg-gray-900 border border-gray-600 text-white text-xs px-2 py-1 rounded w-14 text-right" />
+              <span className="text-gray-600 text-xs">–</span>
+              <NumericInput value={range.satMax} min={0} max={100} onChange={v => setRange({ satMax: v })}
+                className="bg-gray-900 border border-gray-600 text-white text-xs px-2 py-1 rounded w-14 text-right" />
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-xs text-gray-400 w-16">Light %</label>
+              <NumericInput value={range.lightMin} min={0} max={100} onChange={v => setRange({ lightMin: v })}
+                className="bg-gray-900 border border-gray-600 text-white text-xs px-2 py-1 rounded w-14 text-right" />
+              <span className="text-gray-600 text-xs">–</span>
+              <NumericInput value={range.lightMax} min={0} max={100} onChange={v => setRange({ lightMax: v })}
+                className="bg-gray-900 border border-gray-600 text-white text-xs px-2 py-1 rounded w-14 text-right" />
+            </div>
+            <div className="flex flex-col gap-1">
+              <label className="text-xs text-gray-400">Softness <span className="text-gray-500">{range.softness}</span></label>
+              <input
+                type="range" min={0} max={100} step={1}
+                value={range.softness}
+                onPointerDown={onSnapshot}
+                onChange={e => setRange({ softness: Number(e.target.value) }, true)}
+              />
+            </div>
+            {image && (
+              <div className="flex flex-col gap-1">
+                <label className="text-xs text-gray-400">Affected pixels <span className="text-gray-600">(click to pick a hue)</span></label>
+                <div
+                  className="border border-gray-700 rounded overflow-auto"
+                  style={{ background: 'repeating-conic-gradient(#1a1a2e 0% 25%, #16213e 0% 50%) 0 0 / 8px 8px', maxHeight: 200 }}
+                >
+                  <canvas
+                    ref={maskRef}
+                    onClick={pickHue}
+                    className="cursor-crosshair"
+                    style={{
+                      display: 'block',
+                      imageRendering: 'pixelated',
+                      width: image.naturalWidth * maskScale,
+                      height: image.naturalHeight * maskScale,
+                    }}
+                  />
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
       {/* Actions */}
       <div className="flex justify-between pt-1">
         <button
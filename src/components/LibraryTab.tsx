@@ -1,8 +1,10 @@
 import React, { useState, useRef, useMemo, useEffect } from 'react';
 import type { AppAction, AppState, LibraryAsset } from '../types';
 import { ImportFrameModal } from './ImportFrameModal';
+import { ColorKeyModal } from './ColorKeyModal';
 import { loadProject, saveLibrary } from '../project';
 import { useIsMobile } from '../hooks/useIsMobile';
+import { useColorKey } from '../hooks/useColorKey';
 
 interface LibraryTabProps {
   state: AppState;
@@ -24,6 +26,10 @@ export function LibraryTab({ state, dispatch }: LibraryTabProps) {
   const [savingLibrary, setSavingLibrary] = useState(false);
   // Asset pending import — shows the frame picker modal
   const [importingAsset, setImportingAsset] = useState<LibraryAsset | null>(null);
+  // Opaque images pending background removal
+  const colorKey = useColorKey();
+  // Whether the file picker was opened with "Remove background…"
+  const removeBackgroundRef = useRef(false);
   // Drag-to-reorder state
   const [draggingId, setDraggingId] = useState<string | null>(null);
   const [dragOverId, setDragOverId] = useState<string | null>(null);
@@ -153,9 +159,11 @@ export function LibraryTab({ state, dispatch }: LibraryTabProps) {
     });
   }
 
-  function importFiles(files: FileList | File[]) {
+  async function importFiles(files: FileList | File[], removeBackground = false) {
     const images = Array.from(files).filter(f => f.type.startsWith('image/'));
-    for (const file of images) {
+    for (const original of images) {
+      const file = await colorKey.keyBackground(original, removeBackground);
+      if (!file) continue;
       const objectUrl = URL.createObjectURL(file);
       const img = new Image();
       img.onload = () => {
@@ -264,13 +272,21 @@ export function LibraryTab({ state, dispatch }: LibraryTabProps) {
         <span className="text-xs text-gray-500">{library.length} asset{library.length !== 1 ? 's' : ''}</span>
 
         <button
-          onClick={() => fileInputRef.current?.click()}
+          onClick={() => { removeBackgroundRef.current = false; fileInputRef.current?.click(); }}
           className="text-xs bg-indigo-600 hover:bg-indigo-500 text-white px-2.5 py-1 rounded flex items-center gap-1"
           title="Import image files into the library"
         >
           + Import Images
         </button>
 
+        <button
+          onClick={() => { removeBackgroundRef.current = true; fileInputRef.current?.click(); }}
+          className="text-xs bg-gray-700 hover:bg-gray-600 text-gray-300 px-2.5 py-1 rounded flex items-center gap-1"
+          title="Import image files, turning each one's background colour transparent first"
+        >
+          Remove Background…
+        </button>
+
         <button
           onClick={() => projectInputRef.current?.click()}
           disabled={importingProject}
@@ -307,7 +323,7 @@ export function LibraryTab({ state, dispatch }: LibraryTabProps) {
           accept="image/*"
           multiple
           className="hidden"
-          onChange={e => { if (e.target.files) { importFiles(e.target.files); e.target.value = ''; } }}
+          onChange={e => { if (e.target.files) { importFiles(e.target.files, removeBackgroundRef.current); e.target.value = ''; } }}
         />
         <input
           ref={projectInputRef}
@@ -500,6 +516,15 @@ export function LibraryTab({ state, dispatch }: LibraryTabProps) {
         </div>
       </div>
 
+      {colorKey.request && (
+        <ColorKeyModal
+          file={colorKey.request.file}
+          pixels={colorKey.request.pixels}
+          opaque={colorKey.request.opaque}
+          onDone={colorKey.settle}
+        />
+      )}
+
       {/* Frame picker modal */}
       {importingAsset && (() => {
         const cv = document.createElement('canvas');
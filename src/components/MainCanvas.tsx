@@ -1,15 +1,22 @@
-import React, { useRef, useEffect, useMemo, useCallback } from 'react';
-import type { AppState, AppAction, Layer } from '../types';
-import { frameRect, flatIndex } from '../types';
+import React, { useRef, useEffect, useMemo, useCallback, useState } from 'react';
+import type { AppState, AppAction, Layer, PixelTool, ProjectConfig } from '../types';
+import type { SheetLayout } from '../types';
+import { DIRECTIONS_4, DIRECTIONS_8, frameRect, frameCell, cellToFrame, cellAt, cellOrigin, layoutCellSize, sheetSize, timelineIndex, timelineLength, filledFrameOffsets, mirroredFrom } from '../types';
 import { ColorShiftCache } from '../colorShift';
-import { compositeFrame, renderFullSheet } from '../compositing';
-import { getDirectionRow } from '../state';
+import type { RenderPool } from '../renderPool';
+import type { SurfaceSource } from '../surface';
+import { compositeFrame, renderFullSheet, drawOnionSkin, SheetRenderer } from '../compositing';
+import { frameToSource, sourceCell, linePixels, pickColor, floodFill } from '../pixelTools';
+import { NumericInput } from './NumericInput';
+import { getDirectionRow, getAnimationIndex } from '../state';
 import { useIsMobile } from '../hooks/useIsMobile';
+import { useCacheVersion } from '../hooks/useCacheVersion';
 
 interface MainCanvasProps {
   state: AppState;
   dispatch: React.Dispatch<AppAction>;
   cache: ColorShiftCache;
+  pool: RenderPool | null;
 }
 
 // ── Source sheet overlay ───────────────────────────────────────────────────────
@@ -19,31 +26,55 @@ interface MainCanvasProps {
 
 interface SourceSheetProps {
   layer: Layer;
-  config: { frameWidth: number; frameHeight: number; framesPerDirection: number; directions: number; exportLayout: { cols: number; rows: number } };
+  config: ProjectConfig;
+  animIndex: number;
   dirRow: number;
   frameIndex: number;
   zoom: number;
   cache: ColorShiftCache;
 }
 
-function SourceSheetOverlay({ layer, config, dirRow, frameIndex, zoom, cache }: SourceSheetProps) {
+/** Grid lines along every cell edge of `layout`, spanning the sheet inside its margin. */
+function drawLayoutGrid(ctx: CanvasRenderingContext2D, config: ProjectConfig, layout: SheetLayout, color: string) {
+  const { w, h } = layoutCellSize(config, layout);
+  const { width, height } = sheetSize(config, layout);
+  const margin = layout.margin ?? 0;
+  const xs = new Set<number>();
+  const ys = new Set<number>();
+  for (let c = 0; c < layout.cols; c++) {
+    const { x } = cellOrigin(config, layout, c, 0);
+    xs.add(x).add(x + w);
+  }
+  for (let r = 0; r < layout.rows; r++) {
+    const { y } = cellOrigin(config, layout, 0, r);
+    ys.add(y).add(y + h);
+  }
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 0.5;
+  for (const y of ys) {
+    ctx.beginPath(); ctx.moveTo(margin, y); ctx.lineTo(width - margin, y); ctx.stroke();
+  }
+  for (const x of xs) {
+    ctx.beginPath(); ctx.moveTo(x, margin); ctx.lineTo(x, height - margin); ctx.stroke();
+  }
+}
+
+function SourceSheetOverlay({ layer, config, animIndex, dirRow, frameIndex, zoom, cache }: SourceSheetProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const { frameWidth, frameHeight, framesPerDirection, directions, exportLayout } = config;
+  const cacheVersion = useCacheVersion(cache);
+  const { frameWidth, directions, exportLayout } = config;
   const { cols, rows } = exportLayout;
-  const total = framesPerDirection * directions;
 
   // Current-frame highlight uses export layout position
-  const currentN = flatIndex(dirRow, frameIndex, framesPerDirection);
-  const hlCol = currentN % cols;
-  const hlRow = Math.floor(currentN / cols);
-  const highlightX = hlCol * frameWidth;
-  const highlightY = hlRow * frameHeight;
+  const { col: hlCol, row: hlRow } = frameCell(config, exportLayout, animIndex, dirRow, frameIndex);
+  const currentN = hlRow * cols + hlCol;
+  const { width: naturalW, height: naturalH } = sheetSize(config, exportLayout);
 
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas || !layer.image) return;
-    const w = cols * frameWidth;
-    const h = rows * frameHeight;
+    const w = naturalW;
+    const h = naturalH;
     canvas.width = w;
     canvas.height = h;
     const ctx = canvas.getContext('2d')!;
@@ -51,56 +82,57 @@ function SourceSheetOverlay({ layer, config, dirRow, frameIndex, zoom, cache }:
 
     // Composite this layer into each export-grid cell, applying offset + HSL —
     // exactly as compositeFrame does, but for a single layer.
-    const shiftedCanvas = cache.get(layer.id, layer.image, layer.hsl);
+    const shiftedCanvas = cache.get(layer.id, layer.image, layer);
     ctx.globalAlpha = layer.opacity / 100;
 
-    for (let d = 0; d < directions; d++) {
-      for (let f = 0; f < framesPerDirection; f++) {
-        const n = flatIndex(d, f, framesPerDirection);
-        if (n >= total) continue;
-
-        // Where this frame lives in the export sheet
-        const destCol = n % cols;
-        const destRow = Math.floor(n / cols);
-        const destX = destCol * frameWidth;
-        const destY = destRow * frameHeight;
-
-        // Where to sample from in the (potentially HSL-shifted) source image
-        const { sx, sy } = frameRect(n, layer.inputLayout, frameWidth, frameHeight);
-
-        // Per-frame and global offsets
-        const fof = layer.frameOffsets?.[f];
-        const ox = layer.offsetX + (fof?.x ?? 0);
-        const oy = layer.offsetY + (fof?.y ?? 0);
-
-        ctx.drawImage(
-          shiftedCanvas,
-          sx, sy, frameWidth, frameHeight,
-          destX + ox, destY + oy, frameWidth, frameHeight
-        );
+    config.animations.forEach((anim, a) => {
+      for (let d = 0; d < directions; d++) {
+        for (let f = 0; f < anim.frameCount; f++) {
+          // Where this frame lives in the export sheet; drawing stays inside its cell
+          const out = frameRect(config, exportLayout, a, d, f);
+          const destX = out.sx - out.dx;
+          const destY = out.sy - out.dy;
+          ctx.save();
+          ctx.beginPath();
+          ctx.rect(out.sx, out.sy, out.sw, out.sh);
+          ctx.clip();
+
+          // Where to sample from in the (potentially HSL-shifted) source image —
+          // mirrored directions sample their source direction and flip it
+          const mirrorRow = mirroredFrom(config, d);
+          const srcRow = mirrorRow ?? d;
+          const src = frameRect(config, layer.inputLayout, a, srcRow, f);
+
+          // Per-frame and global offsets
+          const fof = layer.frameOffsets?.[srcRow]?.[timelineIndex(config, a, f)];
+          const ox = layer.offsetX + (fof?.x ?? 0);
+          const oy = layer.offsetY + (fof?.y ?? 0);
+
+          if (mirrorRow !== null) {
+            ctx.translate(destX * 2 + frameWidth, 0);
+            ctx.scale(-1, 1);
+          }
+          ctx.drawImage(
+            shiftedCanvas,
+            src.sx, src.sy, src.sw, src.sh,
+            destX + src.dx + ox, destY + src.dy + oy, src.sw, src.sh
+          );
+          ctx.restore();
+        }
       }
-    }
+    });
     ctx.globalAlpha = 1;
 
     // Draw grid lines
-    ctx.strokeStyle = 'rgba(99,102,241,0.35)';
-    ctx.lineWidth = 0.5;
-    for (let r = 0; r <= rows; r++) {
-      ctx.beginPath(); ctx.moveTo(0, r * frameHeight); ctx.lineTo(w, r * frameHeight); ctx.stroke();
-    }
-    for (let c = 0; c <= cols; c++) {
-      ctx.beginPath(); ctx.moveTo(c * frameWidth, 0); ctx.lineTo(c * frameWidth, h); ctx.stroke();
-    }
+    drawLayoutGrid(ctx, config, exportLayout, 'rgba(99,102,241,0.35)');
 
     // Highlight current frame
+    const hl = frameRect(config, exportLayout, animIndex, dirRow, frameIndex);
     ctx.strokeStyle = '#6366f1';
     ctx.lineWidth = 1.5;
-    ctx.strokeRect(highlightX + 0.75, highlightY + 0.75, frameWidth - 1.5, frameHeight - 1.5);
+    ctx.strokeRect(hl.sx + 0.75, hl.sy + 0.75, hl.sw - 1.5, hl.sh - 1.5);
 
-  }, [layer, cols, rows, frameWidth, frameHeight, total, directions, framesPerDirection, currentN, highlightX, highlightY, cache]);
-
-  const naturalW = cols * frameWidth;
-  const naturalH = rows * frameHeight;
+  }, [layer, config, naturalW, naturalH, frameWidth, directions, exportLayout, animIndex, dirRow, frameIndex, cache, cacheVersion]);
 
   return (
     <div className="flex flex-col items-center gap-1">
@@ -125,31 +157,154 @@ function SourceSheetOverlay({ layer, config, dirRow, frameIndex, zoom, cache }:
   );
 }
 
+// ── Pixel tools ────────────────────────────────────────────────────────────────
+
+const PIXEL_TOOLS: { tool: PixelTool; icon: string; label: string }[] = [
+  { tool: 'pencil',     icon: '✏️', label: 'Pencil' },
+  { tool: 'eraser',     icon: '🧽', label: 'Eraser' },
+  { tool: 'fill',       icon: '🪣', label: 'Fill (stays inside this frame\'s cell)' },
+  { tool: 'eyedropper', icon: '💧', label: 'Eyedropper (picks from the layer\'s own pixels)' },
+];
+
+/** A pencil/eraser stroke in progress, painted into a copy of the layer's sheet. */
+interface PixelStroke {
+  layerId: string;
+  sheet: HTMLCanvasElement;
+  last: { x: number; y: number };
+  changed: boolean;
+}
+
+/** Copy a layer image onto a canvas so it can be edited. */
+function sheetCanvas(image: HTMLImageElement): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  canvas.getContext('2d', { willReadFrequently: true })!.drawImage(image, 0, 0);
+  return canvas;
+}
+
 // ── Main component ─────────────────────────────────────────────────────────────
 
-export function MainCanvas({ state, dispatch, cache }: MainCanvasProps) {
+export function MainCanvas({ state, dispatch, cache, pool }: MainCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const cacheVersion = useCacheVersion(cache);
   const isMobile = useIsMobile();
-  const { config, layers, previewDirection, previewFrame, canvasZoom, sheetZoom, selectedLayerId, frameOffsetMode } = state;
+  const { config, layers, previewAnimation, previewDirection, previewFrame, canvasZoom, sheetZoom, selectedLayerId, frameOffsetMode, pixelTool, pixelColor, onionSkin } = state;
+
+  const animIndex = getAnimationIndex(config, previewAnimation);
+  const anim = config.animations[animIndex];
+  // frameOffsets are indexed on the shared timeline, not by frame-within-animation
+  const offsetIndex = timelineIndex(config, animIndex, previewFrame);
 
   const dirRow = useMemo(
     () => getDirectionRow(previewDirection, config.directions),
     [previewDirection, config.directions]
   );
+  // A mirrored direction shows its source direction flipped, so dragging edits
+  // the source's offsets with X reversed
+  const mirrorRow = mirroredFrom(config, dirRow);
+  const offsetRow = mirrorRow ?? dirRow;
+  const dragSignX = mirrorRow === null ? 1 : -1;
 
   // Drag state — stored in refs so pointer handlers don't need to be recreated
   const dragRef = useRef<{ startX: number; startY: number; origX: number; origY: number } | null>(null);
 
   const selectedLayer = layers.find(l => l.id === selectedLayerId) ?? null;
 
+  // Pixel editing — the stroke lives in a ref; the finished sheet is committed
+  // as one UPDATE_LAYER so each stroke is a single undo step
+  const strokeRef = useRef<PixelStroke | null>(null);
+  const committingRef = useRef(false);
+
+  /** Replace a layer's image with an edited sheet canvas. */
+  const commitSheet = useCallback((layerId: string, sheet: HTMLCanvasElement) => {
+    committingRef.current = true;
+    sheet.toBlob(blob => {
+      if (!blob) { committingRef.current = false; return; }
+      const objectUrl = URL.createObjectURL(blob);
+      const img = new Image();
+      img.onload = () => {
+        cache.invalidate(layerId);
+        dispatch({ type: 'UPDATE_LAYER', id: layerId, updates: { image: img, objectUrl } });
+        committingRef.current = false;
+      };
+      img.src = objectUrl;
+    }, 'image/png');
+  }, [cache, dispatch]);
+
+  /** Frame pixel under the pointer. */
+  const framePoint = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.floor((e.clientX - rect.left) * config.frameWidth / rect.width),
+      y: Math.floor((e.clientY - rect.top) * config.frameHeight / rect.height),
+    };
+  }, [config.frameWidth, config.frameHeight]);
+
+  /** Pencil / eraser along frame pixels, into the stroke's sheet and onto the canvas as feedback. */
+  const paintStroke = useCallback((stroke: PixelStroke, points: { x: number; y: number }[]) => {
+    if (!selectedLayer) return;
+    const sctx = stroke.sheet.getContext('2d')!;
+    const view = canvasRef.current?.getContext('2d');
+    sctx.fillStyle = pixelColor;
+    if (view) view.fillStyle = pixelColor;
+    for (const p of points) {
+      const src = frameToSource(config, selectedLayer, animIndex, dirRow, previewFrame, p.x, p.y);
+      if (!src) continue;
+      if (pixelTool === 'eraser') {
+        sctx.clearRect(src.x, src.y, 1, 1);
+        view?.clearRect(p.x, p.y, 1, 1);
+      } else {
+        sctx.fillRect(src.x, src.y, 1, 1);
+        view?.fillRect(p.x, p.y, 1, 1);
+      }
+      stroke.changed = true;
+    }
+  }, [selectedLayer, config, animIndex, dirRow, previewFrame, pixelTool, pixelColor]);
+
+  const onPixelToolDown = useCallback((e: React.PointerEvent<HTMLCanvasElement>, layer: Layer & { image: HTMLImageElement }) => {
+    const p = framePoint(e);
+    const src = frameToSource(config, layer, animIndex, dirRow, previewFrame, p.x, p.y);
+
+    if (pixelTool === 'eyedropper') {
+      if (!src) return;
+      const color = pickColor(sheetCanvas(layer.image).getContext('2d')!, src.x, src.y);
+      if (color) {
+        dispatch({ type: 'SET_PIXEL_COLOR', color });
+        dispatch({ type: 'SET_PIXEL_TOOL', tool: 'pencil' });
+      }
+      return;
+    }
+
+    if (pixelTool === 'fill') {
+      if (!src) return;
+      const sheet = sheetCanvas(layer.image);
+      floodFill(sheet.getContext('2d')!, src.x, src.y, sourceCell(config, layer, animIndex, dirRow, previewFrame), pixelColor);
+      commitSheet(layer.id, sheet);
+      return;
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const stroke: PixelStroke = { layerId: layer.id, sheet: sheetCanvas(layer.image), last: p, changed: false };
+    strokeRef.current = stroke;
+    paintStroke(stroke, [p]);
+  }, [framePoint, paintStroke, commitSheet, config, animIndex, dirRow, previewFrame, pixelTool, pixelColor, dispatch]);
+
   const onPointerDown = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
     if (!selectedLayer) return;
+    if (pixelTool) {
+      // Ignore input until the previous edit's image has loaded, or it would be lost
+      if (selectedLayer.image && !committingRef.current) {
+        onPixelToolDown(e, selectedLayer as Layer & { image: HTMLImageElement });
+      }
+      return;
+    }
     e.currentTarget.setPointerCapture(e.pointerId);
     // Snapshot the pre-drag state so the entire drag can be undone in one step
     dispatch({ type: 'SNAPSHOT' });
     if (frameOffsetMode) {
-      // Drag moves the per-frame offset for the current frame
-      const fof = selectedLayer.frameOffsets?.[previewFrame];
+      // Drag moves the per-frame offset for the current direction + frame
+      const fof = selectedLayer.frameOffsets?.[offsetRow]?.[offsetIndex];
       dragRef.current = {
         startX: e.clientX,
         startY: e.clientY,
@@ -165,24 +320,27 @@ export function MainCanvas({ state, dispatch, cache }: MainCanvasProps) {
         origY: selectedLayer.offsetY,
       };
     }
-  }, [selectedLayer, frameOffsetMode, previewFrame, dispatch]);
+  }, [selectedLayer, pixelTool, onPixelToolDown, frameOffsetMode, offsetRow, offsetIndex, dispatch]);
 
   const onPointerMove = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = strokeRef.current;
+    if (stroke) {
+      const p = framePoint(e);
+      if (p.x === stroke.last.x && p.y === stroke.last.y) return;
+      paintStroke(stroke, linePixels(stroke.last.x, stroke.last.y, p.x, p.y).slice(1));
+      stroke.last = p;
+      return;
+    }
     if (!dragRef.current || !selectedLayer) return;
     const { startX, startY, origX, origY } = dragRef.current;
     // Scale mouse delta from display pixels → sprite pixels
-    const dx = Math.round((e.clientX - startX) / canvasZoom);
+    const dx = Math.round((e.clientX - startX) / canvasZoom) * dragSignX;
     const dy = Math.round((e.clientY - startY) / canvasZoom);
 
     if (frameOffsetMode) {
-      // Build a new frameOffsets array with this frame's offset updated
-      const count = config.framesPerDirection;
-      const current = selectedLayer.frameOffsets ?? [];
-      const next: Array<{ x: number; y: number }> = Array.from({ length: count }, (_, i) => ({
-        x: current[i]?.x ?? 0,
-        y: current[i]?.y ?? 0,
-      }));
-      next[previewFrame] = { x: origX + dx, y: origY + dy };
+      // Build a new frameOffsets grid with this direction + frame's offset updated
+      const next = filledFrameOffsets(config, selectedLayer.frameOffsets);
+      next[offsetRow][offsetIndex] = { x: origX + dx, y: origY + dy };
       // Transient during drag — no undo step per pixel
       dispatch({
         type: 'UPDATE_LAYER_TRANSIENT',
@@ -197,13 +355,19 @@ export function MainCanvas({ state, dispatch, cache }: MainCanvasProps) {
         updates: { offsetX: origX + dx, offsetY: origY + dy },
       });
     }
-  }, [selectedLayer, canvasZoom, frameOffsetMode, previewFrame, config.framesPerDirection, dispatch]);
+  }, [selectedLayer, framePoint, paintStroke, canvasZoom, frameOffsetMode, offsetRow, dragSignX, offsetIndex, config, dispatch]);
 
   const onPointerUp = useCallback(() => {
+    const stroke = strokeRef.current;
+    if (stroke) {
+      strokeRef.current = null;
+      if (stroke.changed) commitSheet(stroke.layerId, stroke.sheet);
+      return;
+    }
     // Transient updates already modified state during drag.
     // The SNAPSHOT at drag start ensures undo restores the pre-drag position.
     dragRef.current = null;
-  }, []);
+  }, [commitSheet]);
 
   // Redraw whenever relevant state changes
   useEffect(() => {
@@ -211,58 +375,77 @@ export function MainCanvas({ state, dispatch, cache }: MainCanvasProps) {
     if (!canvas) return;
     canvas.width = config.frameWidth;
     canvas.height = config.frameHeight;
-    compositeFrame(canvas, layers, config, dirRow, previewFrame, cache);
-  }, [layers, config, dirRow, previewFrame, cache]);
+    compositeFrame(canvas, layers, config, animIndex, dirRow, previewFrame, cache);
+    if (onionSkin.enabled) {
+      const ghostLayers = onionSkin.selectedOnly && selectedLayer ? [selectedLayer] : layers;
+      drawOnionSkin(canvas, ghostLayers, config, animIndex, dirRow, previewFrame, cache, onionSkin);
+    }
+  }, [layers, config, animIndex, dirRow, previewFrame, cache, cacheVersion, onionSkin, selectedLayer]);
 
   // Sheet preview mirrors the export layout exactly.
-  const { exportLayout, framesPerDirection, directions, frameWidth, frameHeight } = config;
-  const exportCols = exportLayout.cols;
-  const exportRows = exportLayout.rows;
-  const totalFrameCount = directions * framesPerDirection;
+  const { exportLayout, frameWidth, frameHeight } = config;
+  const { width: sheetNativeWidth, height: sheetNativeHeight } = sheetSize(config, exportLayout);
 
   // Full composited sheet preview canvas
   const sheetRef = useRef<HTMLCanvasElement>(null);
 
+  // The sheet renders in a worker when there is one; the last finished
+  // render stays on screen until the next one arrives. Either way only the
+  // cells a change touches are redrawn.
+  const [sheetRenderer] = useState(() => new SheetRenderer());
+  const inlineSheet = useMemo(
+    () => (pool ? null : sheetRenderer.render(layers, config, cache)),
+    [pool, sheetRenderer, layers, config, cache]
+  );
+  const [workerSheet, setWorkerSheet] = useState<SurfaceSource | null>(null);
+  // Each worker render is a new full-sheet bitmap: close the shown one as
+  // soon as it's replaced, and on unmount, rather than waiting for GC
+  const shownBitmapRef = useRef<ImageBitmap | null>(null);
+  useEffect(() => {
+    if (!pool) return;
+    let current = true;
+    const show = (sheet: SurfaceSource, bitmap: ImageBitmap | null) => {
+      shownBitmapRef.current?.close();
+      shownBitmapRef.current = bitmap;
+      setWorkerSheet(sheet);
+    };
+    pool.sheet(layers, config).then(
+      bitmap => {
+        if (!bitmap) return;
+        if (current) show(bitmap, bitmap);
+        else bitmap.close();
+      },
+      () => {
+        if (current) show(renderFullSheet(layers, config, cache.exact()), null);
+      }
+    );
+    return () => { current = false; };
+  }, [pool, layers, config, cache]);
+  useEffect(() => () => {
+    shownBitmapRef.current?.close();
+    shownBitmapRef.current = null;
+  }, []);
+  const sheetImage = inlineSheet ?? workerSheet;
+
   useEffect(() => {
     const canvas = sheetRef.current;
     if (!canvas) return;
-    const sheetW = frameWidth * exportCols;
-    const sheetH = frameHeight * exportRows;
-    canvas.width = sheetW;
-    canvas.height = sheetH;
+    canvas.width = sheetNativeWidth;
+    canvas.height = sheetNativeHeight;
     const ctx = canvas.getContext('2d')!;
-    ctx.clearRect(0, 0, sheetW, sheetH);
-    ctx.drawImage(renderFullSheet(layers, config, cache), 0, 0);
+    ctx.clearRect(0, 0, sheetNativeWidth, sheetNativeHeight);
+    if (sheetImage) ctx.drawImage(sheetImage, 0, 0);
 
     // Draw grid lines on top
-    ctx.strokeStyle = 'rgba(99,102,241,0.3)';
-    ctx.lineWidth = 0.5;
-    for (let row = 0; row <= exportRows; row++) {
-      ctx.beginPath();
-      ctx.moveTo(0, row * frameHeight);
-      ctx.lineTo(sheetW, row * frameHeight);
-      ctx.stroke();
-    }
-    for (let col = 0; col <= exportCols; col++) {
-      ctx.beginPath();
-      ctx.moveTo(col * frameWidth, 0);
-      ctx.lineTo(col * frameWidth, sheetH);
-      ctx.stroke();
-    }
+    drawLayoutGrid(ctx, config, exportLayout, 'rgba(99,102,241,0.3)');
 
-    // Highlight the current (dirRow, previewFrame) cell in the export grid
-    const currentN = flatIndex(dirRow, previewFrame, framesPerDirection);
-    const hlCol = currentN % exportCols;
-    const hlRow = Math.floor(currentN / exportCols);
+    // Highlight the current (animation, dirRow, previewFrame) cell in the export grid
+    const hl = frameRect(config, exportLayout, animIndex, dirRow, previewFrame);
     ctx.strokeStyle = '#6366f1';
     ctx.lineWidth = 1.5;
-    ctx.strokeRect(
-      hlCol * frameWidth + 0.75,
-      hlRow * frameHeight + 0.75,
-      frameWidth - 1.5,
-      frameHeight - 1.5
-    );
-  }, [layers, config, dirRow, previewFrame, cache, exportCols, exportRows, totalFrameCount, directions, framesPerDirection, frameWidth, frameHeight]);
+    ctx.strokeRect(hl.sx + 0.75, hl.sy + 0.75, hl.sw - 1.5, hl.sh - 1.5);
+    // `layers`: the inline renderer updates the same surface in place
+  }, [sheetImage, layers, config, animIndex, dirRow, previewFrame, exportLayout, sheetNativeWidth, sheetNativeHeight]);
 
   function handleSheetClick(e: React.MouseEvent<HTMLCanvasElement>) {
     const canvas = sheetRef.current;
@@ -272,19 +455,19 @@ export function MainCanvas({ state, dispatch, cache }: MainCanvasProps) {
     const scaleY = canvas.height / rect.height;
     const x = (e.clientX - rect.left) * scaleX;
     const y = (e.clientY - rect.top) * scaleY;
-    const clickCol = Math.floor(x / frameWidth);
-    const clickRow = Math.floor(y / frameHeight);
+    const cell = cellAt(config, exportLayout, Math.floor(x), Math.floor(y));
+    if (!cell) return;
 
-    // Reverse-map click position → flat index → (dirRow, frameIdx)
-    const n = clickRow * exportCols + clickCol;
-    if (n < 0 || n >= totalFrameCount) return;
-    const d = Math.floor(n / framesPerDirection);
-    const f = n % framesPerDirection;
+    // Reverse-map click position → (animation, dirRow, frameIdx)
+    const hit = cellToFrame(config, exportLayout, cell.col, cell.row);
+    if (!hit) return;
+    const { animIndex: a, directionRow: d, frameIndex: f } = hit;
 
     const dirs4 = ['down', 'left', 'right', 'up'] as const;
     const dirs8 = ['down', 'down-left', 'left', 'up-left', 'up', 'up-right', 'right', 'down-right'] as const;
     const dirs = config.directions === 4 ? dirs4 : dirs8;
     if (d >= 0 && d < dirs.length) {
+      dispatch({ type: 'SET_PREVIEW_ANIMATION', animationId: config.animations[a].id });
       dispatch({ type: 'SET_PREVIEW_DIRECTION', direction: dirs[d] });
       dispatch({ type: 'SET_PREVIEW_FRAME', frame: f });
     }
@@ -293,8 +476,6 @@ export function MainCanvas({ state, dispatch, cache }: MainCanvasProps) {
   const displaySize = frameWidth * canvasZoom;
   const displayHeight = frameHeight * canvasZoom;
 
-  const sheetNativeWidth = frameWidth * exportCols;
-  const sheetNativeHeight = frameHeight * exportRows;
   // The outer container is overflow-auto, so just apply zoom directly — no cap needed.
   const sheetScale = sheetZoom;
 
@@ -323,24 +504,108 @@ export function MainCanvas({ state, dispatch, cache }: MainCanvasProps) {
             {z < 1 ? `1/${1/z}` : `${z}x`}
           </button>
         ))}
+        <div className="w-px h-4 bg-gray-700" />
+        <button
+          onClick={() => dispatch({ type: 'SET_ONION_SKIN', updates: { enabled: !onionSkin.enabled } })}
+          className={`text-xs px-2 py-0.5 rounded ${onionSkin.enabled ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+          title="Show neighbouring frames over the current frame (preview only)"
+        >
+          🧅 Onion
+        </button>
+        {onionSkin.enabled && (
+          <>
+            <label className="flex items-center gap-1 text-xs text-gray-400" title="Previous frames and their tint">
+              ◀
+              <NumericInput
+                value={onionSkin.before}
+                min={0} max={10}
+                onChange={before => dispatch({ type: 'SET_ONION_SKIN', updates: { before } })}
+                className="bg-gray-800 border border-gray-600 text-white text-xs px-1 py-0.5 rounded w-9"
+              />
+              <input
+                type="color"
+                value={onionSkin.beforeColor}
+                onChange={e => dispatch({ type: 'SET_ONION_SKIN', updates: { beforeColor: e.target.value } })}
+                className="w-5 h-5 p-0 border border-gray-600 rounded-sm bg-transparent cursor-pointer"
+              />
+            </label>
+            <label className="flex items-center gap-1 text-xs text-gray-400" title="Next frames and their tint">
+              <NumericInput
+                value={onionSkin.after}
+                min={0} max={10}
+                onChange={after => dispatch({ type: 'SET_ONION_SKIN', updates: { after } })}
+                className="bg-gray-800 border border-gray-600 text-white text-xs px-1 py-0.5 rounded w-9"
+              />
+              <input
+                type="color"
+                value={onionSkin.afterColor}
+                onChange={e => dispatch({ type: 'SET_ONION_SKIN', updates: { afterColor: e.target.value } })}
+                className="w-5 h-5 p-0 border border-gray-600 rounded-sm bg-transparent cursor-pointer"
+              />
+              ▶
+            </label>
+            <label className="flex items-center gap-1 text-xs text-gray-400">
+              {onionSkin.opacity}%
+              <input
+                type="range" min={5} max={100} step={5}
+                value={onionSkin.opacity}
+                onChange={e => dispatch({ type: 'SET_ONION_SKIN', updates: { opacity: Number(e.target.value) } })}
+                className="w-16"
+              />
+            </label>
+            <label className="flex items-center gap-1 cursor-pointer select-none" title="Ghost only the selected layer">
+              <input
+                type="checkbox"
+                checked={onionSkin.selectedOnly}
+                onChange={e => dispatch({ type: 'SET_ONION_SKIN', updates: { selectedOnly: e.target.checked } })}
+                className="accent-indigo-500 w-3.5 h-3.5"
+              />
+              <span className="text-xs text-gray-300">Selected only</span>
+            </label>
+          </>
+        )}
         <span className="text-xs text-gray-600 ml-1">
-          {config.frameWidth}×{config.frameHeight}px · {config.framesPerDirection}f · {config.directions}dir
+          {config.frameWidth}×{config.frameHeight}px · {config.animations.length > 1 ? `${config.animations.length} anims · ` : ''}{timelineLength(config)}f · {config.directions}dir
         </span>
       </div>
 
       <div className="flex flex-col items-center gap-6 p-4 overflow-auto w-full">
         {/* Current frame preview */}
         <div className="flex flex-col items-center gap-2">
-          <span className={`text-xs uppercase tracking-wider ${frameOffsetMode ? 'text-amber-400' : 'text-gray-500'}`}>
-            {frameOffsetMode ? '✦ Frame Offset Mode — drag to set offset for this frame' : 'Current Frame'}
+          <span className={`text-xs uppercase tracking-wider ${frameOffsetMode ? 'text-amber-400' : pixelTool ? 'text-emerald-400' : 'text-gray-500'}`}>
+            {frameOffsetMode
+              ? '✦ Frame Offset Mode — drag to set offset for this frame'
+              : pixelTool
+                ? `✎ Pixel editing — ${selectedLayer?.image ? `"${selectedLayer.name}" source cell` : 'select a layer with an image'}`
+                : 'Current Frame'}
           </span>
+          <div className="flex items-center gap-1">
+            {PIXEL_TOOLS.map(({ tool, icon, label }) => (
+              <button
+                key={tool}
+                onClick={() => dispatch({ type: 'SET_PIXEL_TOOL', tool: pixelTool === tool ? null : tool })}
+                disabled={!selectedLayer?.image}
+                title={label}
+                className={`text-xs px-1.5 py-0.5 rounded disabled:opacity-40 ${pixelTool === tool ? 'bg-emerald-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+              >
+                {icon}
+              </button>
+            ))}
+            <input
+              type="color"
+              value={pixelColor}
+              onChange={e => dispatch({ type: 'SET_PIXEL_COLOR', color: e.target.value })}
+              title="Pencil / fill colour (painted before the layer's colour shift)"
+              className="w-5 h-5 p-0 border border-gray-600 rounded-sm bg-transparent cursor-pointer"
+            />
+          </div>
           <div
             className="rounded"
             style={{
               width: displaySize,
               height: displayHeight,
               background: 'repeating-conic-gradient(#1a1a2e 0% 25%, #16213e 0% 50%) 0 0 / 8px 8px',
-              border: frameOffsetMode ? '2px solid #f59e0b' : '1px solid #374151',
+              border: frameOffsetMode ? '2px solid #f59e0b' : pixelTool ? '2px solid #10b981' : '1px solid #374151',
               boxSizing: 'content-box',
             }}
           >
@@ -360,12 +625,15 @@ export function MainCanvas({ state, dispatch, cache }: MainCanvasProps) {
             />
           </div>
           <span className="text-xs text-gray-600">
-            {previewDirection} · frame {previewFrame + 1}/{config.framesPerDirection}
-            {selectedLayer && !frameOffsetMode && (
+            {config.animations.length > 1 && `${anim.name} · `}{previewDirection} · frame {previewFrame + 1}/{anim.frameCount}
+            {mirrorRow !== null && (
+              <span className="text-indigo-400 ml-1">(mirrored from {(config.directions === 4 ? DIRECTIONS_4 : DIRECTIONS_8)[mirrorRow]})</span>
+            )}
+            {selectedLayer && !frameOffsetMode && !pixelTool && (
               <span className="text-gray-500 ml-2">· drag to reposition "{selectedLayer.name}" · offset {selectedLayer.offsetX},{selectedLayer.offsetY}</span>
             )}
             {selectedLayer && frameOffsetMode && (() => {
-              const fof = selectedLayer.frameOffsets?.[previewFrame];
+              const fof = selectedLayer.frameOffsets?.[offsetRow]?.[offsetIndex];
               return (
                 <span className="text-amber-500 ml-2">
                   · frame offset {fof?.x ?? 0},{fof?.y ?? 0}
@@ -399,7 +667,7 @@ export function MainCanvas({ state, dispatch, cache }: MainCanvasProps) {
             />
           </div>
           <span className="text-xs text-gray-600">
-            {exportCols}×{exportRows} export layout · {sheetNativeWidth}×{sheetNativeHeight}px
+            {exportLayout.cols}×{exportLayout.rows} export layout · {sheetNativeWidth}×{sheetNativeHeight}px
           </span>
         </div>
 
@@ -413,6 +681,7 @@ export function MainCanvas({ state, dispatch, cache }: MainCanvasProps) {
             <SourceSheetOverlay
               layer={selectedLayer}
               config={config}
+              animIndex={animIndex}
               dirRow={dirRow}
               frameIndex={previewFrame}
               zoom={sheetZoom}
@@ -0,0 +1,311 @@
+/**
+ * PaletteMapModal
+ *
+ * Edits a layer's palette map: pick source colours from the layer's own
+ * colours into ramps, then choose the exact target colour for each step.
+ * Target ramps can be saved as named palettes and reused on other layers.
+ *
+ * Props:
+ *   layer            – the layer being recoloured (must have an image)
+ *   palettes         – the project's saved palettes
+ *   onApply          – commit colorMode + paletteMap to the layer
+ *   onSavePalette    – add a palette to the project
+ *   onDeletePalette  – remove a saved palette
+ *   onClose          – dismiss without applying
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { ColorMode, Layer, Palette, PaletteRamp } from '../types';
+import { applyPaletteMap, applyHslShift, extractColors } from '../colorShift';
+
+interface PaletteMapModalProps {
+  layer: Layer & { image: HTMLImageElement };
+  palettes: Palette[];
+  onApply: (updates: Pick<Layer, 'colorMode' | 'paletteMap'>) => void;
+  onSavePalette: (palette: Palette) => void;
+  onDeletePalette: (id: string) => void;
+  onClose: () => void;
+}
+
+const MAX_COLORS = 256;
+
+function Swatch({ color, title, selected, onClick }: {
+  color: string; title?: string; selected?: boolean; onClick?: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      title={title ?? color}
+      className={`w-5 h-5 rounded-sm border flex-shrink-0 ${selected ? 'border-white' : 'border-gray-600 hover:border-gray-300'}`}
+      style={{ backgroundColor: color }}
+    />
+  );
+}
+
+export function PaletteMapModal({ layer, palettes, onApply, onSavePalette, onDeletePalette, onClose }: PaletteMapModalProps) {
+  const [mode, setMode] = useState<ColorMode>(layer.colorMode ?? 'hsl');
+  const [ramps, setRamps] = useState<PaletteRamp[]>(
+    layer.paletteMap?.length ? layer.paletteMap : [{ source: [], target: [] }]
+  );
+  const [active, setActive] = useState(0);
+  const [paletteName, setPaletteName] = useState('');
+
+  // One extra so we can tell the user the layer has too many colours
+  const layerColors = useMemo(() => extractColors(layer.image, MAX_COLORS + 1), [layer.image]);
+  const mapped = useMemo(() => new Set(ramps.flatMap(r => r.source)), [ramps]);
+
+  const previewRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const cv = previewRef.current;
+    if (!cv) return;
+    const shifted = mode === 'palette' ? applyPaletteMap(layer.image, ramps) : applyHslShift(layer.image, layer.hsl);
+    cv.width = shifted.width;
+    cv.height = shifted.height;
+    cv.getContext('2d')!.drawImage(shifted, 0, 0);
+  }, [mode, ramps, layer.image, layer.hsl]);
+
+  function updateRamp(index: number, ramp: PaletteRamp) {
+    setRamps(prev => prev.map((r, i) => (i === index ? ramp : r)));
+  }
+
+  /** Add a layer colour to the active ramp; its target starts as the same colour. */
+  function addSource(color: string) {
+    const ramp = ramps[active];
+    if (!ramp || ramp.source.includes(color)) return;
+    updateRamp(active, {
+      source: [...ramp.source, color],
+      target: ramp.target.length === ramp.source.length ? [...ramp.target, color] : ramp.target,
+    });
+  }
+
+  function removeSource(index: number, at: number) {
+    const ramp = ramps[index];
+    updateRamp(index, {
+      source: ramp.source.filter((_, i) => i !== at),
+      target: ramp.target.length === ramp.source.length ? ramp.target.filter((_, i) => i !== at) : ramp.target,
+    });
+  }
+
+  function setTarget(index: number, at: number, color: string) {
+    const ramp = ramps[index];
+    updateRamp(index, { ...ramp, target: ramp.target.map((c, i) => (i === at ? color : c)) });
+  }
+
+  function addRamp() {
+    setRamps(prev => [...prev, { source: [], target: [] }]);
+    setActive(ramps.length);
+  }
+
+  function removeRamp(index: number) {
+    const next = ramps.filter((_, i) => i !== index);
+    setRamps(next.length ? next : [{ source: [], target: [] }]);
+    setActive(a => Math.max(0, Math.min(a, next.length - 1)));
+  }
+
+  function saveTarget() {
+    const ramp = ramps[active];
+    const name = paletteName.trim();
+    if (!ramp?.target.length || !name) return;
+    onSavePalette({ id: crypto.randomUUID(), name, colors: [...ramp.target] });
+    setPaletteName('');
+  }
+
+  function handleApply() {
+    const paletteMap = ramps.filter(r => r.source.length > 0 && r.target.length > 0);
+    onApply({ colorMode: mode, paletteMap: paletteMap.length ? paletteMap : undefined });
+  }
+
+  const tooMany = layerColors.length > MAX_COLORS;
+  const previewScale = Math.min(4, 480 / Math.max(layer.image.naturalWidth, layer.image.naturalHeight));
+  const activeRamp = ramps[active];
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center z-50"
+      onMouseDown={onClose}
+    >
+      <div
+        className="bg-gray-900 border border-gray-700 rounded-xl shadow-2xl p-6 flex flex-col gap-5 overflow-y-auto"
+        style={{ width: 560, maxHeight: '90vh' }}
+        onMouseDown={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-base font-bold text-white">Palette Map — {layer.name}</h2>
+            <p className="text-xs text-gray-500 mt-0.5">
+              Swap exact colours ramp by ramp instead of shifting the whole layer's hue.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white text-xl leading-none">✕</button>
+        </div>
+
+        {/* Mode */}
+        <div className="flex flex-col gap-1">
+          <label className="text-xs text-gray-400">Colour mode</label>
+          <div className="flex gap-1">
+            {([['hsl', 'HSL shift'], ['palette', 'Palette map']] as const).map(([m, label]) => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`text-xs px-2 py-1 rounded ${mode === m ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Layer colours */}
+        <div className="flex flex-col gap-2">
+          <span className="text-xs font-semibold text-gray-300 uppercase tracking-wider">
+            Layer colours
+            <span className="text-gray-600 normal-case font-normal ml-1">(click to add to ramp {active + 1})</span>
+          </span>
+          {tooMany && (
+            <p className="text-xs text-amber-400">
+              This layer has more than {MAX_COLORS} colours — only the first {MAX_COLORS} are listed.
+            </p>
+          )}
+          <div className="flex flex-wrap gap-1">
+            {layerColors.slice(0, MAX_COLORS).map(c => (
+              <Swatch key={c} color={c} selected={mapped.has(c)} onClick={() => addSource(c)} />
+            ))}
+          </div>
+        </div>
+
+        {/* Ramps */}
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-semibold text-gray-300 uppercase tracking-wider">Ramps</span>
+            <button onClick={addRamp} className="text-xs px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-gray-300">
+              + Add ramp
+            </button>
+          </div>
+          {ramps.map((ramp, r) => (
+            <div
+              key={r}
+              onClick={() => setActive(r)}
+              className={`flex flex-col gap-1.5 p-2 rounded border cursor-pointer ${r === active ? 'border-indigo-500 bg-gray-800' : 'border-gray-700'}`}
+            >
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-gray-400 w-12">Source</span>
+                <div className="flex flex-wrap gap-1 flex-1">
+                  {ramp.source.length === 0 && <span className="text-xs text-gray-600">Pick colours above</span>}
+                  {ramp.source.map((c, i) => (
+                    <Swatch key={c} color={c} title={`${c} — click to remove`} onClick={() => removeSource(r, i)} />
+                  ))}
+                </div>
+                <button
+                  onClick={e => { e.stopPropagation(); removeRamp(r); }}
+                  className="text-xs text-gray-500 hover:text-red-400"
+                  title="Remove ramp"
+                >✕</button>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-gray-400 w-12">Target</span>
+                <div className="flex flex-wrap gap-1 flex-1">
+                  {ramp.target.map((c, i) => (
+                    <input
+                      key={i}
+                      type="color"
+                      value={c}
+                      onChange={e => setTarget(r, i, e.target.value)}
+                      className="w-5 h-5 p-0 border border-gray-600 rounded-sm bg-transparent cursor-pointer"
+                      title={c}
+                    />
+                  ))}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Saved palettes */}
+        <div className="flex flex-col gap-2">
+          <span className="text-xs font-semibold text-gray-300 uppercase tracking-wider">
+            Saved palettes
+            <span className="text-gray-600 normal-case font-normal ml-1">(click to use as ramp {active + 1}'s target)</span>
+          </span>
+          {palettes.length === 0 && <p className="text-xs text-gray-600">No saved palettes yet.</p>}
+          {palettes.map(p => (
+            <div key={p.id} className="flex items-center gap-2">
+              <button
+                onClick={() => activeRamp && updateRamp(active, { ...activeRamp, target: [...p.colors] })}
+                className="flex items-center gap-2 flex-1 text-left hover:bg-gray-800 rounded px-1 py-0.5"
+              >
+                <span className="text-xs text-gray-300 w-24 truncate">{p.name}</span>
+                <span className="flex gap-0.5">
+                  {p.colors.map((c, i) => (
+                    <span key={i} className="w-3 h-3 rounded-sm" style={{ backgroundColor: c }} />
+                  ))}
+                </span>
+              </button>
+              <button
+                onClick={() => onDeletePalette(p.id)}
+                className="text-xs text-gray-500 hover:text-red-400"
+                title="Delete palette"
+              >✕</button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={paletteName}
+              onChange={e => setPaletteName(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && saveTarget()}
+              placeholder="Palette name"
+              className="flex-1 bg-gray-800 border border-gray-600 text-white text-xs px-2 py-1 rounded"
+            />
+            <button
+              onClick={saveTarget}
+              disabled={!activeRamp?.target.length || !paletteName.trim()}
+              className="text-xs px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 disabled:text-gray-600 text-gray-300"
+            >
+              Save ramp {active + 1} target
+            </button>
+          </div>
+        </div>
+
+        {/* Preview */}
+        <div className="flex flex-col gap-2">
+          <span className="text-xs font-semibold text-gray-300 uppercase tracking-wider">Preview</span>
+          <div
+            className="border border-gray-700 rounded overflow-auto"
+            style={{
+              background: 'repeating-conic-gradient(#1a1a2e 0% 25%, #16213e 0% 50%) 0 0 / 8px 8px',
+              maxHeight: 240,
+            }}
+          >
+            <canvas
+              ref={previewRef}
+              style={{
+                display: 'block',
+                imageRendering: 'pixelated',
+                width: layer.image.naturalWidth * previewScale,
+                height: layer.image.naturalHeight * previewScale,
+              }}
+            />
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-2">
+          <button
+            onClick={onClose}
+            className="flex-1 text-sm py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            className="flex-1 text-sm py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded font-bold"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
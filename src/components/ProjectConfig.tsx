@@ -1,14 +1,17 @@
 import { useState } from 'react';
-import type { ProjectConfig as ProjectConfigType, AppAction, SheetLayout } from '../types';
+import type { ProjectConfig as ProjectConfigType, AppAction, Animation, SheetLayout } from '../types';
+import { totalFrames, rowsNeeded, frameCell, sameLayout, sheetSize } from '../types';
 import { NumericInput } from './NumericInput';
 
 // ── helpers ──────────────────────────────────────────────────────────────────
 
-function describeLayout(layout: SheetLayout, total: number) {
+function describeLayout(layout: SheetLayout, config: ProjectConfigType) {
   const cells = layout.cols * layout.rows;
-  const extra = cells - total;
-  if (extra < 0) return { ok: false, msg: `Too few cells — need ${total}, have ${cells}` };
-  if (extra > 0) return { ok: true, msg: `${cells} cells (${extra} empty at end)` };
+  // Animations each start on a fresh row, so the row count is what matters
+  const need = rowsNeeded(config, layout.cols);
+  if (layout.rows < need) return { ok: false, msg: `Too few rows — need ${need} at ${layout.cols} cols, have ${layout.rows}` };
+  const extra = cells - totalFrames(config);
+  if (extra > 0) return { ok: true, msg: `${cells} cells (${extra} empty)` };
   return { ok: true, msg: `${cells} cells — perfect fit` };
 }
 
@@ -38,15 +41,21 @@ function Field({ label, value, min, max, onChange, className }: FieldProps) {
   );
 }
 
+const SMALL_INPUT = 'bg-gray-800 border border-gray-600 text-white text-sm px-3 py-1.5 rounded w-20';
+
 interface LayoutEditorProps {
   label: string;
   layout: SheetLayout;
-  total: number;
+  config: ProjectConfigType;
   onChange: (l: SheetLayout) => void;
 }
 
-function LayoutEditor({ label, layout, total, onChange }: LayoutEditorProps) {
-  const { ok, msg } = describeLayout(layout, total);
+function LayoutEditor({ label, layout, config, onChange }: LayoutEditorProps) {
+  const { ok, msg } = describeLayout(layout, config);
+  const total = totalFrames(config);
+  const animCount = config.animations.length;
+  const maxFrames = Math.max(...config.animations.map(a => a.frameCount));
+  const bandWidth = config.directions * maxFrames;
   return (
     <div className="flex flex-col gap-2">
       <label className="text-xs text-gray-400 font-semibold">{label}</label>
@@ -56,14 +65,14 @@ function LayoutEditor({ label, layout, total, onChange }: LayoutEditorProps) {
           value={layout.cols}
           min={1}
           max={total * 2}
-          onChange={cols => onChange({ cols, rows: layout.rows })}
+          onChange={cols => onChange({ ...layout, cols })}
         />
         <Field
           label="Rows"
           value={layout.rows}
           min={1}
           max={total * 2}
-          onChange={rows => onChange({ cols: layout.cols, rows })}
+          onChange={rows => onChange({ ...layout, rows })}
         />
         <div className="flex flex-col gap-1 pb-0.5">
           <label className="text-xs text-gray-400 invisible">.</label>
@@ -72,16 +81,53 @@ function LayoutEditor({ label, layout, total, onChange }: LayoutEditorProps) {
           </div>
         </div>
       </div>
+      {/* Third-party sheets: border, gaps and cells bigger or smaller than a frame */}
+      <div className="flex items-end gap-3">
+        <Field
+          label="Margin"
+          value={layout.margin ?? 0}
+          min={0}
+          max={256}
+          onChange={margin => onChange({ ...layout, margin })}
+          className={SMALL_INPUT}
+        />
+        <Field
+          label="Spacing"
+          value={layout.spacing ?? 0}
+          min={0}
+          max={256}
+          onChange={spacing => onChange({ ...layout, spacing })}
+          className={SMALL_INPUT}
+        />
+        <Field
+          label="Cell W (0 = frame)"
+          value={layout.cellWidth ?? 0}
+          min={0}
+          max={1024}
+          onChange={w => onChange({ ...layout, cellWidth: w || undefined })}
+          className={SMALL_INPUT}
+        />
+        <Field
+          label="Cell H (0 = frame)"
+          value={layout.cellHeight ?? 0}
+          min={0}
+          max={1024}
+          onChange={h => onChange({ ...layout, cellHeight: h || undefined })}
+          className={SMALL_INPUT}
+        />
+      </div>
       {/* Quick layout presets */}
       <div className="flex flex-wrap gap-1">
         {[
-          { label: `${total}×1 (single row)`, cols: total, rows: 1 },
+          animCount === 1
+            ? { label: `${total}×1 (single row)`, cols: total, rows: 1 }
+            : { label: `${bandWidth}×${animCount} (row per anim)`, cols: bandWidth, rows: animCount },
           { label: `1×${total} (single col)`, cols: 1, rows: total },
-          ...(total > 1 ? [{ label: `classic`, cols: Math.ceil(total / 4), rows: 4 }] : []),
+          ...(total > 1 ? [{ label: `classic`, cols: maxFrames, rows: rowsNeeded(config, maxFrames) }] : []),
         ].map(p => (
           <button
             key={p.label}
-            onClick={() => onChange({ cols: p.cols, rows: p.rows })}
+            onClick={() => onChange({ ...layout, cols: p.cols, rows: p.rows })}
             className="text-xs bg-gray-700 hover:bg-gray-600 text-gray-300 px-2 py-0.5 rounded"
           >
             {p.label}
@@ -94,21 +140,40 @@ function LayoutEditor({ label, layout, total, onChange }: LayoutEditorProps) {
 
 // ── Mini sheet diagram ────────────────────────────────────────────────────────
 
-function SheetDiagram({ layout, total, frameW, frameH }: {
-  layout: SheetLayout; total: number; frameW: number; frameH: number;
+// Alternating fills so adjacent animation bands are easy to tell apart
+const BAND_COLORS = [
+  { fill: '#4338ca33', stroke: '#6366f1' },
+  { fill: '#0f766e33', stroke: '#14b8a6' },
+];
+
+function SheetDiagram({ layout, config }: {
+  layout: SheetLayout; config: ProjectConfigType;
 }) {
+  const { frameWidth: frameW, frameHeight: frameH } = config;
   const MAX_W = 320, MAX_H = 120;
   const cellW = Math.min(Math.floor(MAX_W / layout.cols), Math.floor(MAX_H / layout.rows), 40);
   const cellH = Math.round(cellW * (frameH / frameW));
   const w = cellW * layout.cols;
   const h = cellH * layout.rows;
 
+  // Which animation (if any) occupies each cell
+  const owner = new Map<number, number>();
+  config.animations.forEach((anim, a) => {
+    for (let d = 0; d < config.directions; d++) {
+      for (let f = 0; f < anim.frameCount; f++) {
+        const { col, row } = frameCell(config, layout, a, d, f);
+        owner.set(row * layout.cols + col, a);
+      }
+    }
+  });
+
   return (
     <svg width={w} height={h} style={{ display: 'block', maxWidth: '100%' }}>
       {Array.from({ length: layout.rows * layout.cols }).map((_, i) => {
         const col = i % layout.cols;
         const row = Math.floor(i / layout.cols);
-        const filled = i < total;
+        const a = owner.get(i);
+        const band = a === undefined ? null : BAND_COLORS[a % BAND_COLORS.length];
         return (
           <rect
             key={i}
@@ -116,8 +181,8 @@ function SheetDiagram({ layout, total, frameW, frameH }: {
             y={row * cellH + 0.5}
             width={cellW - 1}
             height={cellH - 1}
-            fill={filled ? '#4338ca33' : '#1f293780'}
-            stroke={filled ? '#6366f1' : '#374151'}
+            fill={band ? band.fill : '#1f293780'}
+            stroke={band ? band.stroke : '#374151'}
             strokeWidth={0.5}
           />
         );
@@ -138,29 +203,64 @@ export function ProjectConfigModal({ config, dispatch, onClose }: ProjectConfigP
   const [local, setLocal] = useState({ ...config });
   const [resetAllLayers, setResetAllLayers] = useState(false);
 
-  const total = local.directions * local.framesPerDirection;
+  const total = totalFrames(local);
 
   // Detect if the default input layout has changed from the saved config
-  const inputLayoutChanged =
-    local.defaultInputLayout.cols !== config.defaultInputLayout.cols ||
-    local.defaultInputLayout.rows !== config.defaultInputLayout.rows;
+  const inputLayoutChanged = !sameLayout(local.defaultInputLayout, config.defaultInputLayout);
 
-  function setTotal(dirs: 4 | 8, fpd: number) {
+  // Leave cols/rows as-is on any of these edits; the validation badge will flag if they're now too small
+  function setDirections(dirs: 4 | 8) {
+    setLocal(prev => ({ ...prev, directions: dirs }));
+  }
+
+  function updateAnimation(index: number, updates: Partial<Animation>) {
     setLocal(prev => ({
       ...prev,
-      directions: dirs,
-      framesPerDirection: fpd,
-      // Leave cols/rows as-is; the validation badge will flag if they're now too small
+      animations: prev.animations.map((a, i) => (i === index ? { ...a, ...updates } : a)),
     }));
   }
 
+  function setFrameCount(index: number, frameCount: number) {
+    const { frameDurations } = local.animations[index];
+    // Keep custom timings in step with the frame count; new frames repeat the last timing
+    updateAnimation(index, frameDurations
+      ? { frameCount, frameDurations: Array.from({ length: frameCount }, (_, f) => frameDurations[Math.min(f, frameDurations.length - 1)]) }
+      : { frameCount });
+  }
+
+  function addAnimation() {
+    setLocal(prev => ({
+      ...prev,
+      animations: [
+        ...prev.animations,
+        { id: crypto.randomUUID(), name: `anim${prev.animations.length + 1}`, frameCount: 1 },
+      ],
+    }));
+  }
+
+  function removeAnimation(index: number) {
+    setLocal(prev => ({ ...prev, animations: prev.animations.filter((_, i) => i !== index) }));
+  }
+
+  function moveAnimation(index: number, delta: -1 | 1) {
+    setLocal(prev => {
+      const animations = [...prev.animations];
+      const [moved] = animations.splice(index, 1);
+      animations.splice(index + delta, 0, moved);
+      return { ...prev, animations };
+    });
+  }
+
   function handleSave() {
     dispatch({ type: 'SET_CONFIG', config: local, resetLayerLayouts: resetAllLayers });
   }
 
-  const inputDesc = describeLayout(local.defaultInputLayout, total);
-  const exportDesc = describeLayout(local.exportLayout, total);
-  const canSave = inputDesc.ok && exportDesc.ok;
+  const inputDesc = describeLayout(local.defaultInputLayout, local);
+  const exportDesc = describeLayout(local.exportLayout, local);
+  // Names double as export folder / file prefixes, so they must be present and unique
+  const names = local.animations.map(a => a.name.trim());
+  const namesOk = names.every(n => n.length > 0) && new Set(names).size === names.length;
+  const canSave = inputDesc.ok && exportDesc.ok && namesOk;
 
   return (
     // Use onMouseDown on backdrop + onMouseDown stopPropagation on dialog.
@@ -191,26 +291,86 @@ export function ProjectConfigModal({ config, dispatch, onClose }: ProjectConfigP
           </div>
         </div>
 
-        {/* ── Animation ── */}
+        {/* ── Animations ── */}
         <div className="flex flex-col gap-2">
-          <span className="text-xs font-semibold text-gray-300 uppercase tracking-wider">Animation</span>
-          <div className="flex gap-4 items-end">
-            <Field label="Frames / Direction" value={local.framesPerDirection} min={1} max={128}
-              onChange={v => setTotal(local.directions, v)} />
-            <div className="flex flex-col gap-1">
-              <label className="text-xs text-gray-400">Directions</label>
-              <div className="flex gap-2">
-                {([4, 8] as const).map(d => (
-                  <button key={d} onClick={() => setTotal(d, local.framesPerDirection)}
-                    className={`text-sm px-3 py-1.5 rounded ${local.directions === d ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}>
-                    {d}dir {d === 4 ? '(↑↓←→)' : '(+diag)'}
-                  </button>
-                ))}
-              </div>
+          <span className="text-xs font-semibold text-gray-300 uppercase tracking-wider">Animations</span>
+          <div className="flex flex-col gap-1">
+            <label className="text-xs text-gray-400">Directions</label>
+            <div className="flex gap-2">
+              {([4, 8] as const).map(d => (
+                <button key={d} onClick={() => setDirections(d)}
+                  className={`text-sm px-3 py-1.5 rounded ${local.directions === d ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}>
+                  {d}dir {d === 4 ? '(↑↓←→)' : '(+diag)'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <label className="text-xs text-gray-400">Mirrored directions</label>
+            <div className="flex gap-2">
+              {([[undefined, 'Off'], ['right', 'Left from right'], ['left', 'Right from left']] as const).map(([m, label]) => (
+                <button key={label} onClick={() => setLocal(p => ({ ...p, mirrorSource: m }))}
+                  className={`text-sm px-3 py-1.5 rounded ${local.mirrorSource === m ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}>
+                  {label}
+                </button>
+              ))}
             </div>
+            {local.mirrorSource && (
+              <p className="text-xs text-gray-500">
+                {local.mirrorSource === 'right' ? 'Left-facing' : 'Right-facing'} directions are drawn by flipping
+                the {local.mirrorSource}-facing cells — their own cells are ignored.
+              </p>
+            )}
           </div>
+
+          <div className="grid grid-cols-[1fr_auto_auto] gap-x-2 gap-y-1 items-center">
+            <span className="text-xs text-gray-400">Name</span>
+            <span className="text-xs text-gray-400">Frames / Dir</span>
+            <span />
+            {local.animations.map((anim, i) => (
+              <div key={anim.id} className="contents">
+                <input
+                  type="text"
+                  value={anim.name}
+                  onChange={e => updateAnimation(i, { name: e.target.value })}
+                  className={`bg-gray-800 border text-white text-sm px-3 py-1.5 rounded ${
+                    anim.name.trim() && names.indexOf(anim.name.trim()) === i ? 'border-gray-600' : 'border-red-500'
+                  }`}
+                />
+                <NumericInput
+                  value={anim.frameCount}
+                  min={1}
+                  max={128}
+                  onChange={v => setFrameCount(i, v)}
+                  className="bg-gray-800 border border-gray-600 text-white text-sm px-3 py-1.5 rounded w-20"
+                />
+                <div className="flex gap-1">
+                  <button onClick={() => moveAnimation(i, -1)} disabled={i === 0}
+                    className="text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-30 text-gray-300 px-1.5 py-1 rounded"
+                    title="Move up">↑</button>
+                  <button onClick={() => moveAnimation(i, 1)} disabled={i === local.animations.length - 1}
+                    className="text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-30 text-gray-300 px-1.5 py-1 rounded"
+                    title="Move down">↓</button>
+                  <button onClick={() => removeAnimation(i)} disabled={local.animations.length === 1}
+                    className="text-xs bg-gray-700 hover:bg-red-700 disabled:opacity-30 text-gray-300 px-1.5 py-1 rounded"
+                    title="Remove animation">✕</button>
+                </div>
+              </div>
+            ))}
+          </div>
+          <button onClick={addAnimation}
+            className="self-start text-xs bg-gray-700 hover:bg-gray-600 text-gray-300 px-2 py-1 rounded">
+            + Add animation
+          </button>
+          {!namesOk && (
+            <p className="text-xs text-red-400">Each animation needs a unique, non-empty name.</p>
+          )}
           <div className="text-xs text-gray-500">
             Total frames: <span className="text-gray-300">{total}</span>
+            {local.animations.length > 1 && (
+              <span className="text-gray-600 ml-1">— each animation starts on a new sheet row</span>
+            )}
           </div>
         </div>
 
@@ -223,11 +383,11 @@ export function ProjectConfigModal({ config, dispatch, onClose }: ProjectConfigP
           <LayoutEditor
             label=""
             layout={local.defaultInputLayout}
-            total={total}
+            config={local}
             onChange={l => setLocal(p => ({ ...p, defaultInputLayout: l }))}
           />
           <div className="mt-1">
-            <SheetDiagram layout={local.defaultInputLayout} total={total} frameW={local.frameWidth} frameH={local.frameHeight} />
+            <SheetDiagram layout={local.defaultInputLayout} config={local} />
           </div>
         </div>
 
@@ -240,14 +400,14 @@ export function ProjectConfigModal({ config, dispatch, onClose }: ProjectConfigP
           <LayoutEditor
             label=""
             layout={local.exportLayout}
-            total={total}
+            config={local}
             onChange={l => setLocal(p => ({ ...p, exportLayout: l }))}
           />
           <div className="mt-1">
-            <SheetDiagram layout={local.exportLayout} total={total} frameW={local.frameWidth} frameH={local.frameHeight} />
+            <SheetDiagram layout={local.exportLayout} config={local} />
           </div>
           <div className="text-xs text-gray-500">
-            Output sheet: <span className="text-gray-300">{local.frameWidth * local.exportLayout.cols} × {local.frameHeight * local.exportLayout.rows} px</span>
+            Output sheet: <span className="text-gray-300">{sheetSize(local, local.exportLayout).width} × {sheetSize(local, local.exportLayout).height} px</span>
           </div>
         </div>
 
@@ -265,9 +425,11 @@ export function ProjectConfigModal({ config, dispatch, onClose }: ProjectConfigP
               const t = p.d * p.f;
               const layout = { cols: p.ic, rows: Math.ceil(t / p.ic) };
               return (
+                // Presets describe a single animation; keep the first one's id + name
                 <button key={p.label} onClick={() => setLocal({
                   frameWidth: p.fw, frameHeight: p.fh,
-                  framesPerDirection: p.f, directions: p.d as 4 | 8,
+                  animations: [{ id: local.animations[0].id, name: local.animations[0].name, frameCount: p.f }],
+                  directions: p.d as 4 | 8,
                   defaultInputLayout: layout,
                   exportLayout: { cols: p.ec, rows: Math.ceil(t / p.ec) },
                 })}
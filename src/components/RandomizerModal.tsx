@@ -0,0 +1,241 @@
+/**
+ * RandomizerModal
+ *
+ * Generates a random character from a seed: one part per slot (variant
+ * layers and type-tagged Library assets) with an HSL shift inside each slot's
+ * ranges. The result is applied to the layer stack as one undo step and shown
+ * as a short recipe JSON that teammates can paste back in. Range edits stay
+ * local until the next Generate or until the modal closes, then go into the
+ * project config as one undo step.
+ *
+ * Props:
+ *   layers    – current layer stack
+ *   library   – Library assets (tagged candidates)
+ *   config    – project config; holds the per-slot ranges
+ *   dispatch  – SET_LAYERS to apply, SET_CONFIG to save edited ranges
+ *   onClose   – dismiss
+ */
+
+import { useMemo, useState } from 'react';
+import type { AppAction, HslRanges, Layer, LayerType, LibraryAsset, ProjectConfig, RandomRange } from '../types';
+import type { CharacterRecipe } from '../randomizer';
+import { randomSlots, generateRecipe, parseRecipe, applyRecipe, DEFAULT_HSL_RANGES } from '../randomizer';
+import { randomSeed } from '../random';
+import { NumericInput } from './NumericInput';
+
+interface RandomizerModalProps {
+  layers: Layer[];
+  library: LibraryAsset[];
+  config: ProjectConfig;
+  dispatch: React.Dispatch<AppAction>;
+  onClose: () => void;
+}
+
+const RANGE_FIELDS: { key: keyof HslRanges; label: string; min: number; max: number }[] = [
+  { key: 'hue',        label: 'H', min: -180, max: 180 },
+  { key: 'saturation', label: 'S', min: -100, max: 100 },
+  { key: 'lightness',  label: 'L', min: -100, max: 100 },
+];
+
+export function RandomizerModal({ layers, library, config, dispatch, onClose }: RandomizerModalProps) {
+  const slots = useMemo(() => randomSlots(layers, library), [layers, library]);
+  const [seed, setSeed] = useState(randomSeed);
+  const [recipe, setRecipe] = useState<CharacterRecipe | null>(null);
+  const [pasted, setPasted] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const [randomRanges, setRandomRanges] = useState(config.randomRanges);
+
+  function setRange(type: LayerType, key: keyof HslRanges, range: RandomRange) {
+    const current = randomRanges?.[type] ?? DEFAULT_HSL_RANGES;
+    setRandomRanges({ ...randomRanges, [type]: { ...current, [key]: range } });
+  }
+
+  /** Save edited ranges to the project, if there are any. */
+  function commitRanges() {
+    if (JSON.stringify(randomRanges) === JSON.stringify(config.randomRanges)) return;
+    dispatch({ type: 'SET_CONFIG', config: { ...config, randomRanges } });
+  }
+
+  function close() {
+    commitRanges();
+    onClose();
+  }
+
+  async function apply(next: CharacterRecipe) {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const result = await applyRecipe(next, layers, library, config);
+      dispatch({ type: 'SET_LAYERS', layers: result.layers });
+      setRecipe(next);
+      setMessage(result.missing.length
+        ? { text: `Not found in this project: ${result.missing.join(', ')}`, error: true }
+        : { text: 'Applied to the layer stack — Save Project to keep this character.', error: false });
+    } catch (e) {
+      setMessage({ text: e instanceof Error ? e.message : 'Randomize failed', error: true });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function generate(withSeed: string) {
+    setSeed(withSeed);
+    commitRanges();
+    apply(generateRecipe(slots, withSeed, randomRanges));
+  }
+
+  function applyPasted() {
+    try {
+      const next = parseRecipe(pasted);
+      if (next.seed) setSeed(next.seed);
+      apply(next);
+    } catch (e) {
+      setMessage({ text: e instanceof Error ? e.message : 'Invalid recipe', error: true });
+    }
+  }
+
+  const recipeJson = recipe ? JSON.stringify(recipe) : '';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center z-50"
+      onMouseDown={close}
+    >
+      <div
+        className="bg-gray-900 border border-gray-700 rounded-xl shadow-2xl p-6 flex flex-col gap-4"
+        style={{ maxWidth: 560, width: '92vw', maxHeight: '90vh', overflowY: 'auto' }}
+        onMouseDown={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-base font-bold text-white">🎲 Random Character</h2>
+            <p className="text-xs text-gray-500 mt-0.5">
+              Picks one part per slot and a colour within its ranges. The same seed always gives the same character in this project.
+            </p>
+          </div>
+          <button onClick={close} className="text-gray-500 hover:text-white text-xl leading-none">✕</button>
+        </div>
+
+        {/* Slots + ranges */}
+        <div className="flex flex-col gap-1">
+          <span className="text-xs font-semibold text-gray-300 uppercase tracking-wider">Slots</span>
+          {slots.length === 0 && (
+            <p className="text-xs text-gray-500">
+              Nothing to pick from yet — tick "Variant" on layers, or tag Library assets with a layer type (hair, top, hat…).
+            </p>
+          )}
+          {slots.map(slot => {
+            const ranges = randomRanges?.[slot.type] ?? DEFAULT_HSL_RANGES;
+            const names = slot.candidates.map(c => (c.source === 'layer' ? c.layer.name : `${c.asset.name} (library)`));
+            return (
+              <div key={slot.type} className="flex items-center gap-2 bg-gray-800 rounded px-3 py-1.5 flex-wrap">
+                <span className="text-xs text-gray-200 w-16 flex-shrink-0">{slot.type}</span>
+                <span className="text-xs text-gray-500 w-16 flex-shrink-0" title={names.join('\n')}>
+                  {slot.candidates.length} part{slot.candidates.length !== 1 ? 's' : ''}
+                </span>
+                {RANGE_FIELDS.map(({ key, label, min, max }) => (
+                  <span key={key} className="flex items-center gap-0.5">
+                    <span className="text-xs text-gray-400 w-3">{label}</span>
+                    <NumericInput
+                      value={ranges[key].min}
+                      min={min} max={ranges[key].max}
+                      onChange={v => setRange(slot.type, key, { ...ranges[key], min: v })}
+                      className="bg-gray-900 border border-gray-600 text-white text-xs px-1 py-0.5 rounded w-11"
+                    />
+                    <span className="text-gray-600 text-xs">–</span>
+                    <NumericInput
+                      value={ranges[key].max}
+                      min={ranges[key].min} max={max}
+                      onChange={v => setRange(slot.type, key, { ...ranges[key], max: v })}
+                      className="bg-gray-900 border border-gray-600 text-white text-xs px-1 py-0.5 rounded w-11"
+                    />
+                  </span>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Seed */}
+        <div className="flex items-center gap-2">
+          <label className="text-xs text-gray-400">Seed</label>
+          <input
+            type="text"
+            value={seed}
+            onChange={e => setSeed(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && slots.length > 0 && generate(seed)}
+            className="flex-1 bg-gray-800 border border-gray-600 text-white text-xs px-2 py-1 rounded"
+          />
+          <button
+            onClick={() => generate(seed)}
+            disabled={busy || slots.length === 0}
+            className="text-xs px-2 py-1 rounded bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-700 disabled:text-gray-500 text-white"
+            title="Build the character for this seed"
+          >
+            Generate
+          </button>
+          <button
+            onClick={() => generate(randomSeed())}
+            disabled={busy || slots.length === 0}
+            className="text-xs px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-300"
+            title="New seed, then generate"
+          >
+            🎲 Randomize
+          </button>
+        </div>
+
+        {/* Result */}
+        {recipe && (
+          <div className="flex flex-col gap-1">
+            <span className="text-xs font-semibold text-gray-300 uppercase tracking-wider">Recipe</span>
+            {recipe.parts.map(p => (
+              <div key={p.slot} className="text-xs text-gray-400">
+                <span className="text-gray-200">{p.slot}</span> · {p.name}
+                <span className="text-gray-600"> · H {p.hsl.hue} S {p.hsl.saturation} L {p.hsl.lightness}</span>
+              </div>
+            ))}
+            <div className="flex gap-2 mt-1">
+              <input
+                type="text"
+                readOnly
+                value={recipeJson}
+                onFocus={e => e.target.select()}
+                className="flex-1 bg-gray-800 border border-gray-700 text-gray-400 text-xs px-2 py-1 rounded font-mono"
+              />
+              <button
+                onClick={() => navigator.clipboard.writeText(recipeJson)}
+                className="text-xs px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-gray-300"
+              >
+                Copy
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Paste a shared recipe */}
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={pasted}
+            onChange={e => setPasted(e.target.value)}
+            placeholder="Paste a recipe JSON"
+            className="flex-1 bg-gray-800 border border-gray-600 text-white text-xs px-2 py-1 rounded font-mono"
+          />
+          <button
+            onClick={applyPasted}
+            disabled={busy || !pasted.trim()}
+            className="text-xs px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 disabled:text-gray-600 text-gray-300"
+          >
+            Apply recipe
+          </button>
+        </div>
+
+        {message && (
+          <p className={`text-xs ${message.error ? 'text-amber-400' : 'text-gray-500'}`}>{message.text}</p>
+        )}
+      </div>
+    </div>
+  );
+}
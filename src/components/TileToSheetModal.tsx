@@ -1,7 +1,8 @@
 import { useRef, useEffect, useState } from 'react';
 import type { Layer, ProjectConfig } from '../types';
-import { DIRECTIONS_4, DIRECTIONS_8 } from '../types';
+import { DIRECTIONS_4, DIRECTIONS_8, sheetSize } from '../types';
 import { tileToSheet } from '../compositing';
+import { surfaceToBlob } from '../surface';
 
 interface Props {
   layer: Layer;
@@ -10,12 +11,18 @@ interface Props {
   onClose: () => void;
 }
 
+type AnimScope = 'all' | 'pick';
 type DirScope = 'all' | 'pick';
 type FrameScope = 'all' | 'pick';
 
 export function TileToSheetModal({ layer, config, onApply, onClose }: Props) {
-  const { directions, framesPerDirection, frameWidth, frameHeight, defaultInputLayout } = config;
+  const { directions, animations, defaultInputLayout } = config;
   const dirLabels = directions === 4 ? DIRECTIONS_4 : DIRECTIONS_8;
+  const maxFrames = Math.max(...animations.map(a => a.frameCount));
+
+  // Which animations to fill
+  const [animScope, setAnimScope] = useState<AnimScope>('all');
+  const [selectedAnims, setSelectedAnims] = useState<number[]>([0]);
 
   // Which direction rows to fill
   const [dirScope, setDirScope] = useState<DirScope>('all');
@@ -33,16 +40,11 @@ export function TileToSheetModal({ layer, config, onApply, onClose }: Props) {
     const canvas = previewRef.current;
     if (!canvas || !layer.image) return;
 
-    // Build a temporary source canvas from the layer image
-    const src = document.createElement('canvas');
-    src.width  = layer.image.naturalWidth;
-    src.height = layer.image.naturalHeight;
-    src.getContext('2d')!.drawImage(layer.image, 0, 0);
-
+    const animMask  = animScope  === 'all' ? null : selectedAnims;
     const dirMask   = dirScope   === 'all' ? null : selectedDirs;
     const frameMask = frameScope === 'all' ? null : selectedFrames;
     // Bake the layer's current offset + per-frame offsets into the sheet so they can be reset to 0 after
-    const result = tileToSheet(src, config, dirMask, frameMask, layer.offsetX, layer.offsetY, layer.frameOffsets);
+    const result = tileToSheet(layer.image, config, animMask, dirMask, frameMask, layer.offsetX, layer.offsetY, layer.frameOffsets);
 
     // Size preview proportionally, max 480px wide
     const maxW = 480;
@@ -52,7 +54,13 @@ export function TileToSheetModal({ layer, config, onApply, onClose }: Props) {
     canvas.style.width  = result.width  * scale + 'px';
     canvas.style.height = result.height * scale + 'px';
     canvas.getContext('2d')!.drawImage(result, 0, 0);
-  }, [layer, config, dirScope, selectedDirs, frameScope, selectedFrames]);
+  }, [layer, config, animScope, selectedAnims, dirScope, selectedDirs, frameScope, selectedFrames]);
+
+  function toggleAnim(idx: number) {
+    setSelectedAnims(prev =>
+      prev.includes(idx) ? prev.filter(a => a !== idx) : [...prev, idx]
+    );
+  }
 
   function toggleDir(idx: number) {
     setSelectedDirs(prev =>
@@ -69,26 +77,20 @@ export function TileToSheetModal({ layer, config, onApply, onClose }: Props) {
   function handleApply() {
     if (!layer.image) return;
 
-    const src = document.createElement('canvas');
-    src.width  = layer.image.naturalWidth;
-    src.height = layer.image.naturalHeight;
-    src.getContext('2d')!.drawImage(layer.image, 0, 0);
-
+    const animMask  = animScope  === 'all' ? null : selectedAnims;
     const dirMask   = dirScope   === 'all' ? null : selectedDirs;
     const frameMask = frameScope === 'all' ? null : selectedFrames;
-    const result = tileToSheet(src, config, dirMask, frameMask, layer.offsetX, layer.offsetY, layer.frameOffsets);
+    const result = tileToSheet(layer.image, config, animMask, dirMask, frameMask, layer.offsetX, layer.offsetY, layer.frameOffsets);
 
-    result.toBlob(blob => {
-      if (!blob) return;
+    surfaceToBlob(result).then(blob => {
       const objectUrl = URL.createObjectURL(blob);
       const img = new Image();
       img.onload = () => onApply(img, objectUrl);
       img.src = objectUrl;
-    }, 'image/png');
+    });
   }
 
-  const sheetW = defaultInputLayout.cols * frameWidth;
-  const sheetH = defaultInputLayout.rows * frameHeight;
+  const { width: sheetW, height: sheetH } = sheetSize(config, defaultInputLayout);
 
   return (
     <div
@@ -112,6 +114,44 @@ export function TileToSheetModal({ layer, config, onApply, onClose }: Props) {
           <button onClick={onClose} className="text-gray-500 hover:text-white text-xl leading-none">✕</button>
         </div>
 
+        {/* Animation scope */}
+        {animations.length > 1 && (
+          <div className="flex flex-col gap-2">
+            <span className="text-xs font-semibold text-gray-300 uppercase tracking-wider">Animations to fill</span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setAnimScope('all')}
+                className={`text-xs px-3 py-1.5 rounded ${animScope === 'all' ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+              >
+                All animations
+              </button>
+              <button
+                onClick={() => setAnimScope('pick')}
+                className={`text-xs px-3 py-1.5 rounded ${animScope === 'pick' ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+              >
+                Pick animations…
+              </button>
+            </div>
+            {animScope === 'pick' && (
+              <div className="grid grid-cols-4 gap-1">
+                {animations.map((a, i) => (
+                  <button
+                    key={a.id}
+                    onClick={() => toggleAnim(i)}
+                    className={`text-xs py-1 rounded truncate ${
+                      selectedAnims.includes(i)
+                        ? 'bg-indigo-600 text-white'
+                        : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                    }`}
+                  >
+                    {a.name}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Direction scope */}
         <div className="flex flex-col gap-2">
           <span className="text-xs font-semibold text-gray-300 uppercase tracking-wider">Directions to fill</span>
@@ -167,7 +207,7 @@ export function TileToSheetModal({ layer, config, onApply, onClose }: Props) {
           </div>
           {frameScope === 'pick' && (
             <div className="flex gap-1 flex-wrap">
-              {Array.from({ length: framesPerDirection }, (_, i) => (
+              {Array.from({ length: maxFrames }, (_, i) => (
                 <button
                   key={i}
                   onClick={() => toggleFrame(i)}
@@ -208,6 +248,9 @@ export function TileToSheetModal({ layer, config, onApply, onClose }: Props) {
         </div>
 
         {/* Validation */}
+        {animScope === 'pick' && selectedAnims.length === 0 && (
+          <p className="text-xs text-amber-400">⚠ Select at least one animation.</p>
+        )}
         {dirScope === 'pick' && selectedDirs.length === 0 && (
           <p className="text-xs text-amber-400">⚠ Select at least one direction.</p>
         )}
@@ -226,6 +269,7 @@ export function TileToSheetModal({ layer, config, onApply, onClose }: Props) {
           <button
             onClick={handleApply}
             disabled={
+              (animScope === 'pick' && selectedAnims.length === 0) ||
               (dirScope === 'pick' && selectedDirs.length === 0) ||
               (frameScope === 'pick' && selectedFrames.length === 0)
             }
@@ -0,0 +1,198 @@
+/**
+ * VariantExportModal
+ *
+ * Batch-exports character variants: every combination of the project's
+ * variant slots, or a seeded random sample of them. Each combination's sheet
+ * goes into a ZIP with manifest.json listing the parts used for each file.
+ *
+ * Props:
+ *   layers       – the full layer stack; candidates are found via `variant`
+ *   renderSheet  – renders a layer stack to a (scaled) sheet, as the Sheet export does
+ *   scale        – export scale, recorded in the manifest and file name
+ *   onClose      – dismiss
+ */
+
+import { useMemo, useState } from 'react';
+import JSZip from 'jszip';
+import { saveAs } from 'file-saver';
+import type { Layer } from '../types';
+import { ColorShiftCache } from '../colorShift';
+import type { Surface } from '../surface';
+import { surfaceToBlob } from '../surface';
+import {
+  variantSlots, combinationCount, allCombinations, sampleCombinations,
+  combinationLayers, combinationParts,
+} from '../variants';
+import { randomSeed } from '../random';
+import { NumericInput } from './NumericInput';
+
+interface VariantExportModalProps {
+  layers: Layer[];
+  renderSheet: (layers: Layer[], cache: ColorShiftCache) => Surface;
+  scale: number;
+  onClose: () => void;
+}
+
+/** Beyond this, exporting every combination is refused in favour of sampling. */
+const MAX_EXPORT = 1000;
+
+export function VariantExportModal({ layers, renderSheet, scale, onClose }: VariantExportModalProps) {
+  const slots = useMemo(() => variantSlots(layers), [layers]);
+  const total = combinationCount(slots);
+
+  const [mode, setMode] = useState<'all' | 'sample'>(total > MAX_EXPORT ? 'sample' : 'all');
+  const [count, setCount] = useState(Math.min(total, 20));
+  const [seed, setSeed] = useState(randomSeed);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const exportCount = mode === 'all' ? total : Math.min(count, total);
+  const tooMany = exportCount > MAX_EXPORT;
+
+  async function handleExport() {
+    if (progress || tooMany || slots.length === 0) return;
+    setError(null);
+    try {
+      const combos = mode === 'all' ? allCombinations(slots) : sampleCombinations(slots, count, seed);
+      // A private cache: preset copies would otherwise pile up in the editor's cache
+      const cache = new ColorShiftCache();
+      const zip = new JSZip();
+      const pad = String(combos.length).length;
+      const suffix = scale > 1 ? `@${scale}x` : '';
+      const variants = [];
+
+      for (let i = 0; i < combos.length; i++) {
+        setProgress(`Rendering ${i + 1}/${combos.length}…`);
+        // Let the progress text paint between sheets
+        await new Promise(resolve => setTimeout(resolve));
+        const sheet = renderSheet(combinationLayers(layers, slots, combos[i]), cache);
+        const blob = await surfaceToBlob(sheet);
+        const file = `variant-${String(i + 1).padStart(pad, '0')}${suffix}.png`;
+        zip.file(file, blob);
+        variants.push({ file, parts: combinationParts(slots, combos[i]) });
+      }
+
+      zip.file('manifest.json', JSON.stringify({
+        scale,
+        selection: mode === 'all' ? 'all' : { sample: combos.length, seed },
+        slots: slots.map(s => s.type),
+        variants,
+      }, null, 2));
+
+      setProgress('Zipping…');
+      saveAs(await zip.generateAsync({ type: 'blob' }), `variants${suffix}.zip`);
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Variant export failed');
+    } finally {
+      setProgress(null);
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center z-50"
+      onMouseDown={() => !progress && onClose()}
+    >
+      <div
+        className="bg-gray-900 border border-gray-700 rounded-xl shadow-2xl p-6 flex flex-col gap-4"
+        style={{ maxWidth: 480, width: '90vw', maxHeight: '90vh', overflowY: 'auto' }}
+        onMouseDown={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-base font-bold text-white">Export Variants</h2>
+            <p className="text-xs text-gray-500 mt-0.5">
+              One sheet per combination of variant parts, plus a manifest of the parts in each.
+            </p>
+          </div>
+          <button onClick={onClose} disabled={!!progress} className="text-gray-500 hover:text-white text-xl leading-none">✕</button>
+        </div>
+
+        {/* Slots */}
+        <div className="flex flex-col gap-1">
+          <span className="text-xs font-semibold text-gray-300 uppercase tracking-wider">Slots</span>
+          {slots.length === 0 && (
+            <p className="text-xs text-gray-500">
+              No variant parts yet — tick "Variant" on two or more layers of the same type.
+            </p>
+          )}
+          {slots.map(slot => (
+            <div key={slot.type} className="flex items-baseline gap-2 bg-gray-800 rounded px-3 py-1.5">
+              <span className="text-xs text-gray-200 w-20 flex-shrink-0">{slot.type}</span>
+              <span className="text-xs text-gray-500">
+                {slot.options.map(o => (o.preset ? `${o.layer.name} (${o.preset.name})` : o.layer.name)).join(' · ')}
+              </span>
+            </div>
+          ))}
+          {slots.length > 0 && (
+            <p className="text-xs text-gray-400">{total} combination{total !== 1 ? 's' : ''}</p>
+          )}
+        </div>
+
+        {/* Selection */}
+        <div className="flex flex-col gap-2">
+          <div className="flex gap-1">
+            {([['all', 'All combinations'], ['sample', 'Random sample']] as const).map(([m, label]) => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`text-xs px-2 py-1 rounded ${mode === m ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {mode === 'sample' && (
+            <div className="flex items-center gap-2">
+              <label className="text-xs text-gray-400">Count</label>
+              <NumericInput
+                value={count}
+                min={1} max={Math.max(1, total)}
+                onChange={setCount}
+                className="bg-gray-800 border border-gray-600 text-white text-xs px-1 py-1 rounded w-14"
+              />
+              <label className="text-xs text-gray-400 ml-2">Seed</label>
+              <input
+                type="text"
+                value={seed}
+                onChange={e => setSeed(e.target.value)}
+                className="bg-gray-800 border border-gray-600 text-white text-xs px-2 py-1 rounded w-24"
+              />
+              <button
+                onClick={() => setSeed(randomSeed())}
+                className="text-xs px-1.5 py-1 rounded bg-gray-700 hover:bg-gray-600 text-gray-300"
+                title="New random seed"
+              >🎲</button>
+            </div>
+          )}
+          {tooMany && (
+            <p className="text-xs text-amber-400">
+              {exportCount} sheets is too many for one export (max {MAX_EXPORT}) — use a random sample.
+            </p>
+          )}
+        </div>
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        <div className="flex gap-2">
+          <button
+            onClick={onClose}
+            disabled={!!progress}
+            className="flex-1 text-sm py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!!progress || tooMany || slots.length === 0}
+            className="flex-1 text-sm py-2 bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded font-bold"
+          >
+            {progress ?? `Export ${exportCount} sheet${exportCount !== 1 ? 's' : ''}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+/**
+ * VariantPresetsModal
+ *
+ * Manages a variant candidate's HSL presets — the colourways it is exported
+ * in by the variant batch export. Saving captures the layer's current HSL
+ * shift; applying a preset copies it back onto the layer to preview it.
+ *
+ * Props:
+ *   layer     – the candidate layer (must have `variant`)
+ *   onChange  – replace the layer's preset list (undoable)
+ *   onApply   – set the layer's HSL to a preset's values
+ *   onClose   – dismiss
+ */
+
+import { useState } from 'react';
+import type { HSLAdjustment, HslPreset, Layer, VariantCandidate } from '../types';
+
+interface VariantPresetsModalProps {
+  layer: Layer & { variant: VariantCandidate };
+  onChange: (presets: HslPreset[]) => void;
+  onApply: (hsl: HSLAdjustment) => void;
+  onClose: () => void;
+}
+
+function describeHsl(hsl: HSLAdjustment): string {
+  return `H ${hsl.hue} · S ${hsl.saturation} · L ${hsl.lightness}${hsl.range ? ' · ranged' : ''}`;
+}
+
+export function VariantPresetsModal({ layer, onChange, onApply, onClose }: VariantPresetsModalProps) {
+  const { presets } = layer.variant;
+  const [name, setName] = useState('');
+
+  function savePreset() {
+    const trimmed = name.trim() || `Colour ${presets.length + 1}`;
+    onChange([...presets, { id: crypto.randomUUID(), name: trimmed, hsl: layer.hsl }]);
+    setName('');
+  }
+
+  function updatePreset(id: string, updates: Partial<HslPreset>) {
+    onChange(presets.map(p => (p.id === id ? { ...p, ...updates } : p)));
+  }
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center z-50"
+      onMouseDown={onClose}
+    >
+      <div
+        className="bg-gray-900 border border-gray-700 rounded-xl shadow-2xl p-6 flex flex-col gap-4"
+        style={{ maxWidth: 440, width: '90vw' }}
+        onMouseDown={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-base font-bold text-white">Variant Colours — {layer.name}</h2>
+            <p className="text-xs text-gray-500 mt-0.5">
+              Each preset is exported as a separate {layer.type} option. With no presets the layer's current colours are used.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white text-xl leading-none">✕</button>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          {presets.length === 0 && <p className="text-xs text-gray-500">No presets yet.</p>}
+          {presets.map(p => (
+            <div key={p.id} className="flex items-center gap-2 bg-gray-800 rounded px-2 py-1.5">
+              <input
+                type="text"
+                value={p.name}
+                onChange={e => updatePreset(p.id, { name: e.target.value })}
+                className="bg-gray-900 border border-gray-700 text-white text-xs px-1.5 py-0.5 rounded w-28"
+              />
+              <span className="flex-1 text-xs text-gray-500 truncate">{describeHsl(p.hsl)}</span>
+              <button
+                onClick={() => onApply(p.hsl)}
+                className="text-xs bg-gray-700 hover:bg-gray-600 text-gray-300 px-1.5 py-0.5 rounded"
+                title="Show this preset on the layer"
+              >
+                Apply
+              </button>
+              <button
+                onClick={() => updatePreset(p.id, { hsl: layer.hsl })}
+                className="text-xs bg-gray-700 hover:bg-gray-600 text-gray-300 px-1.5 py-0.5 rounded"
+                title="Replace this preset with the layer's current HSL"
+              >
+                ↻
+              </button>
+              <button
+                onClick={() => onChange(presets.filter(q => q.id !== p.id))}
+                className="text-xs text-gray-500 hover:text-red-400"
+                title="Delete preset"
+              >✕</button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && savePreset()}
+            placeholder={`Colour ${presets.length + 1}`}
+            className="flex-1 bg-gray-800 border border-gray-600 text-white text-xs px-2 py-1 rounded"
+          />
+          <button
+            onClick={savePreset}
+            className="text-xs px-2 py-1 rounded bg-indigo-600 hover:bg-indigo-500 text-white"
+          >
+            Save current colours
+          </button>
+        </div>
+        <p className="text-xs text-gray-600">Current: {describeHsl(layer.hsl)}</p>
+      </div>
+    </div>
+  );
+}
@@ -1,110 +1,517 @@
-import type { Layer, ProjectConfig } from './types';
-import { frameRect, flatIndex } from './types';
+import type { BlendMode, FrameOffset, FrameRect, Layer, OnionSkin, ProjectConfig } from './types';
+import { frameRect, timelineIndex, rowsNeeded, mirroredFrom, sheetSize } from './types';
 import { ColorShiftCache } from './colorShift';
+import type { RgbaBuffer, Surface, Surface2D, SurfaceSource } from './surface';
+import { context2d, copySurface, createSurface, readPixels } from './surface';
+import type { Box } from './selection';
 
 /**
- * Composite all visible layers for a given (directionRow, frameIndex) onto canvas.
+ * A layer as compositing reads it. Any drawable image will do, so the render
+ * worker can hand in the ImageBitmaps it holds; every Layer is one.
+ */
+export type CompositeLayer = Omit<Layer, 'image'> & { image: SurfaceSource | null };
+
+/** Canvas composite operation for a layer's blend mode. */
+export function blendOperation(mode: BlendMode | undefined): GlobalCompositeOperation {
+  return !mode || mode === 'normal' ? 'source-over' : mode;
+}
+
+// ─── Layer stacking ───────────────────────────────────────────────────────────
+
+/** A drawable layer plus the clipping layers stacked directly on it. */
+interface ClipGroup {
+  base: CompositeLayer;
+  clipped: CompositeLayer[];
+}
+
+/**
+ * Group visible layers (bottom to top) with their clipping layers. Clipping
+ * layers above a hidden base are hidden too; a clipping layer with nothing
+ * beneath it draws as a normal layer.
+ */
+function clipGroups(layers: CompositeLayer[]): ClipGroup[] {
+  const groups: ClipGroup[] = [];
+  let current: ClipGroup | null = null;
+  let sawBase = false;
+  for (const layer of layers) {
+    const drawable = layer.visible && !!layer.image;
+    if (layer.clipToBelow && sawBase) {
+      if (current && drawable) current.clipped.push(layer);
+      continue;
+    }
+    sawBase = true;
+    current = drawable ? { base: layer, clipped: [] } : null;
+    if (current) groups.push(current);
+  }
+  return groups;
+}
+
+// Scratch canvases for clip groups and onion-skin ghosts, reused across frames
+let groupCanvas: Surface | null = null;
+let maskCanvas: Surface | null = null;
+let ghostCanvas: Surface | null = null;
+
+function scratch(canvas: Surface | null, w: number, h: number): Surface {
+  const c = canvas ?? createSurface(w, h);
+  if (c.width !== w || c.height !== h) {
+    c.width = w;
+    c.height = h;
+  } else {
+    context2d(c).clearRect(0, 0, w, h);
+  }
+  return c;
+}
+
+/** Draws one layer's frame with its top-left cell corner at (x, y). */
+type DrawLayer = (ctx: Surface2D, layer: CompositeLayer, x: number, y: number) => void;
+
+/**
+ * Composite `layers` into the w×h cell at (x, y), honouring opacity, blend
+ * modes and clipping. A clip group is flattened in a scratch canvas: the base
+ * at full strength, its clipping layers on top, then trimmed to the base's
+ * alpha — and the result is drawn with the base's opacity and blend mode.
+ */
+function drawLayerStack(
+  ctx: Surface2D,
+  layers: CompositeLayer[],
+  x: number, y: number, w: number, h: number,
+  draw: DrawLayer
+) {
+  for (const { base, clipped } of clipGroups(layers)) {
+    if (clipped.length === 0) {
+      ctx.globalAlpha = base.opacity / 100;
+      ctx.globalCompositeOperation = blendOperation(base.blendMode);
+      draw(ctx, base, x, y);
+      continue;
+    }
+
+    groupCanvas = scratch(groupCanvas, w, h);
+    maskCanvas = scratch(maskCanvas, w, h);
+    const gctx = context2d(groupCanvas);
+    draw(gctx, base, 0, 0);
+    context2d(maskCanvas).drawImage(groupCanvas, 0, 0);
+
+    for (const layer of clipped) {
+      gctx.globalAlpha = layer.opacity / 100;
+      gctx.globalCompositeOperation = blendOperation(layer.blendMode);
+      draw(gctx, layer, 0, 0);
+    }
+    gctx.globalAlpha = 1;
+    gctx.globalCompositeOperation = 'destination-in';
+    gctx.drawImage(maskCanvas, 0, 0);
+    gctx.globalCompositeOperation = 'source-over';
+
+    ctx.globalAlpha = base.opacity / 100;
+    ctx.globalCompositeOperation = blendOperation(base.blendMode);
+    ctx.drawImage(groupCanvas, x, y);
+  }
+  ctx.globalAlpha = 1;
+  ctx.globalCompositeOperation = 'source-over';
+}
+
+/**
+ * Composite all visible layers for a given (animIndex, directionRow, frameIndex) onto canvas.
  * Each layer's source pixel location is determined by its own inputLayout.
  */
 export function compositeFrame(
-  canvas: HTMLCanvasElement,
-  layers: Layer[],
+  canvas: Surface,
+  layers: CompositeLayer[],
   config: ProjectConfig,
+  animIndex: number,
   directionRow: number,
   frameIndex: number,
   cache: ColorShiftCache,
   clearFirst = true
 ) {
-  const ctx = canvas.getContext('2d')!;
+  const ctx = context2d(canvas);
   if (clearFirst) ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-  const n = flatIndex(directionRow, frameIndex, config.framesPerDirection);
-  const { frameWidth, frameHeight } = config;
+  const t = timelineIndex(config, animIndex, frameIndex);
+  // Mirrored directions draw the source direction's cells and offsets, flipped
+  const mirrorRow = mirroredFrom(config, directionRow);
+  const srcRow = mirrorRow ?? directionRow;
 
-  for (const layer of layers) {
-    if (!layer.visible || !layer.image) continue;
-    const { sx, sy } = frameRect(n, layer.inputLayout, frameWidth, frameHeight);
-    const shiftedCanvas = cache.get(layer.id, layer.image, layer.hsl);
-    const fof = layer.frameOffsets?.[frameIndex];
+  drawLayerStack(ctx, layers, 0, 0, canvas.width, canvas.height, (c, layer, x, y) => {
+    const r = frameRect(config, layer.inputLayout, animIndex, srcRow, frameIndex);
+    const shiftedCanvas = cache.get(layer.id, layer.image!, layer);
+    const fof = layer.frameOffsets?.[srcRow]?.[t];
     const dx = layer.offsetX + (fof?.x ?? 0);
     const dy = layer.offsetY + (fof?.y ?? 0);
-    ctx.globalAlpha = layer.opacity / 100;
-    ctx.drawImage(
+    if (mirrorRow !== null) flipCell(c, x, canvas.width);
+    c.drawImage(
       shiftedCanvas,
-      sx, sy, frameWidth, frameHeight,
-      dx, dy, canvas.width, canvas.height
+      r.sx, r.sy, r.sw, r.sh,
+      x + r.dx + dx, y + r.dy + dy, r.sw, r.sh
     );
+    if (mirrorRow !== null) c.restore();
+  });
+}
+
+/**
+ * Draw onion-skin ghosts of the frames around `frameIndex` — same animation
+ * and direction — over whatever is already on `canvas`. Neighbours wrap
+ * around the animation as looping playback does, each ghost is tinted with
+ * its side's colour, and ghosts fade the further they are from the current
+ * frame.
+ */
+export function drawOnionSkin(
+  canvas: Surface,
+  layers: CompositeLayer[],
+  config: ProjectConfig,
+  animIndex: number,
+  directionRow: number,
+  frameIndex: number,
+  cache: ColorShiftCache,
+  onion: OnionSkin
+) {
+  const { frameCount } = config.animations[animIndex];
+  const ctx = context2d(canvas);
+  const sides = [
+    { count: onion.before, step: -1, color: onion.beforeColor },
+    { count: onion.after,  step:  1, color: onion.afterColor },
+  ];
+
+  for (const { count, step, color } of sides) {
+    // Never ghost the current frame, however short the animation
+    const n = Math.min(count, frameCount - 1);
+    // Furthest first so nearer ghosts land on top
+    for (let k = n; k >= 1; k--) {
+      const f = (((frameIndex + step * k) % frameCount) + frameCount) % frameCount;
+      ghostCanvas = scratch(ghostCanvas, canvas.width, canvas.height);
+      compositeFrame(ghostCanvas, layers, config, animIndex, directionRow, f, cache);
+
+      // Tint: keep the ghost's alpha, blend its colour most of the way to the tint
+      const gctx = context2d(ghostCanvas);
+      gctx.globalCompositeOperation = 'source-atop';
+      gctx.globalAlpha = 0.6;
+      gctx.fillStyle = color;
+      gctx.fillRect(0, 0, ghostCanvas.width, ghostCanvas.height);
+      gctx.globalAlpha = 1;
+      gctx.globalCompositeOperation = 'source-over';
+
+      ctx.globalAlpha = (onion.opacity / 100) * (1 - (k - 1) / n);
+      ctx.drawImage(ghostCanvas, 0, 0);
+    }
   }
   ctx.globalAlpha = 1;
 }
 
+/**
+ * Flip the context horizontally about the centre of the cell spanning
+ * [x, x + w). Everything drawn until the matching restore() — offsets
+ * included — comes out mirrored.
+ */
+function flipCell(ctx: Surface2D, x: number, w: number) {
+  ctx.save();
+  ctx.translate(x * 2 + w, 0);
+  ctx.scale(-1, 1);
+}
+
+/** Clip drawing to the part of a sheet a frame occupies; undo with ctx.restore(). */
+function clipToFrame(ctx: Surface2D, out: FrameRect) {
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(out.sx, out.sy, out.sw, out.sh);
+  ctx.clip();
+}
+
+/** Whether the sheet's cells are smaller than a frame, so a frame must be cropped to fit. */
+function cropsFrame(config: ProjectConfig, out: FrameRect): boolean {
+  return out.sw < config.frameWidth || out.sh < config.frameHeight;
+}
+
+/**
+ * Composite one (animation, direction, frame) into its place `out` on the
+ * export sheet. With `clip` drawing stays inside the cell; otherwise offsets
+ * may spill into the neighbouring cells, as they always have on exports.
+ */
+function drawSheetCell(
+  ctx: Surface2D,
+  layers: CompositeLayer[],
+  config: ProjectConfig,
+  cache: ColorShiftCache,
+  animIndex: number,
+  dirRow: number,
+  frameIndex: number,
+  out: FrameRect,
+  clip: boolean
+) {
+  const { frameWidth, frameHeight } = config;
+  const t = timelineIndex(config, animIndex, frameIndex);
+  const mirrorRow = mirroredFrom(config, dirRow);
+  const srcRow = mirrorRow ?? dirRow;
+
+  if (clip) clipToFrame(ctx, out);
+  drawLayerStack(ctx, layers, out.sx - out.dx, out.sy - out.dy, frameWidth, frameHeight, (c, layer, x, y) => {
+    const r = frameRect(config, layer.inputLayout, animIndex, srcRow, frameIndex);
+    const shiftedCanvas = cache.get(layer.id, layer.image!, layer);
+    const fof = layer.frameOffsets?.[srcRow]?.[t];
+    if (mirrorRow !== null) flipCell(c, x, frameWidth);
+    c.drawImage(
+      shiftedCanvas,
+      r.sx, r.sy, r.sw, r.sh,
+      x + r.dx + layer.offsetX + (fof?.x ?? 0), y + r.dy + layer.offsetY + (fof?.y ?? 0), r.sw, r.sh
+    );
+    if (mirrorRow !== null) c.restore();
+  });
+  if (clip) ctx.restore();
+}
+
 /**
  * Render the full composite sheet using the exportLayout from config.
- * Frames are placed at positions determined by exportLayout.
+ * Frames are placed at positions determined by exportLayout, one band of
+ * rows per animation. Pass `animIndex` to render just that animation's band
+ * as a standalone sheet.
  */
 export function renderFullSheet(
-  layers: Layer[],
+  layers: CompositeLayer[],
   config: ProjectConfig,
-  cache: ColorShiftCache
-): HTMLCanvasElement {
-  const { frameWidth, frameHeight, framesPerDirection, directions, exportLayout } = config;
-  const totalFrameCount = directions * framesPerDirection;
-
-  const canvas = document.createElement('canvas');
-  canvas.width = frameWidth * exportLayout.cols;
-  canvas.height = frameHeight * exportLayout.rows;
-  const ctx = canvas.getContext('2d')!;
-
-  for (let dirRow = 0; dirRow < directions; dirRow++) {
-    for (let f = 0; f < framesPerDirection; f++) {
-      const n = flatIndex(dirRow, f, framesPerDirection);
-      if (n >= totalFrameCount) continue;
-
-      // Destination position in the export sheet
-      const destCol = n % exportLayout.cols;
-      const destRow = Math.floor(n / exportLayout.cols);
-      const dx = destCol * frameWidth;
-      const dy = destRow * frameHeight;
-
-      for (const layer of layers) {
-        if (!layer.visible || !layer.image) continue;
-        const { sx, sy } = frameRect(n, layer.inputLayout, frameWidth, frameHeight);
-        const shiftedCanvas = cache.get(layer.id, layer.image, layer.hsl);
-        const fof = layer.frameOffsets?.[f];
-        ctx.globalAlpha = layer.opacity / 100;
-        ctx.drawImage(
-          shiftedCanvas,
-          sx, sy, frameWidth, frameHeight,
-          dx + layer.offsetX + (fof?.x ?? 0), dy + layer.offsetY + (fof?.y ?? 0), frameWidth, frameHeight
-        );
+  cache: ColorShiftCache,
+  animIndex?: number
+): Surface {
+  const { directions, exportLayout } = config;
+  const anims = animIndex === undefined
+    ? config.animations.map((_, a) => a)
+    : [animIndex];
+  // A single-animation render lays its band out from row 0
+  const layoutConfig = animIndex === undefined
+    ? config
+    : { ...config, animations: [config.animations[animIndex]] };
+
+  const { width, height } = sheetSize(
+    config, exportLayout,
+    animIndex === undefined ? exportLayout.rows : rowsNeeded(layoutConfig, exportLayout.cols)
+  );
+  const canvas = createSurface(width, height);
+  const ctx = context2d(canvas);
+
+  anims.forEach((a, bandIndex) => {
+    const { frameCount } = config.animations[a];
+    for (let dirRow = 0; dirRow < directions; dirRow++) {
+      for (let f = 0; f < frameCount; f++) {
+        // Destination position in the export sheet
+        const out = frameRect(layoutConfig, exportLayout, bandIndex, dirRow, f);
+        drawSheetCell(ctx, layers, config, cache, a, dirRow, f, out, cropsFrame(config, out));
       }
     }
-  }
-  ctx.globalAlpha = 1;
+  });
   return canvas;
 }
 
+// ─── Incremental sheet rendering ──────────────────────────────────────────────
+
+// Source pixels and per-rect "anything opaque here?" answers, per image
+const occupancy = new WeakMap<object, { pixels: RgbaBuffer; rects: Map<string, boolean> }>();
+
+/** Whether the w×h rect at (x, y) of `image` has any non-transparent pixel. */
+function hasPixels(image: SurfaceSource, x: number, y: number, w: number, h: number): boolean {
+  let entry = occupancy.get(image);
+  if (!entry) {
+    entry = { pixels: readPixels(copySurface(image)), rects: new Map() };
+    occupancy.set(image, entry);
+  }
+  const key = `${x},${y},${w},${h}`;
+  let found = entry.rects.get(key);
+  if (found === undefined) {
+    const { width, height, data } = entry.pixels;
+    found = false;
+    for (let py = Math.max(0, y); py < Math.min(height, y + h) && !found; py++) {
+      for (let px = Math.max(0, x); px < Math.min(width, x + w); px++) {
+        if (data[(py * width + px) * 4 + 3] > 0) { found = true; break; }
+      }
+    }
+    entry.rects.set(key, found);
+  }
+  return found;
+}
+
+/** What a layer looked like when its cells were last drawn. */
+interface DrawnLayer {
+  layer: CompositeLayer;
+  /** Every setting except the image and per-frame offsets. */
+  key: string;
+  /** The recoloured image that was drawn — a new one means new colours. */
+  shifted: SurfaceSource | null;
+}
+
+function layerKey(layer: CompositeLayer): string {
+  return JSON.stringify(layer, (k, v) => (k === 'image' || k === 'objectUrl' || k === 'frameOffsets' ? undefined : v));
+}
+
+/** One export-sheet cell: which frame it shows and where. */
+interface SheetCell {
+  animIndex: number;
+  dirRow: number;
+  frameIndex: number;
+  out: FrameRect;
+}
+
+function overlaps(a: Box, b: Box): boolean {
+  return a.x < b.x + b.w && b.x < a.x + a.w && a.y < b.y + b.h && b.y < a.y + a.h;
+}
+
+function cellBox({ out }: SheetCell): Box {
+  return { x: out.sx, y: out.sy, w: out.sw, h: out.sh };
+}
+
+/**
+ * Where `layer` can draw on the sheet for `cell`: its frame moved by the
+ * layer and per-frame offsets, flipped for mirrored directions. Null when
+ * the layer draws nothing there.
+ */
+function layerFootprint(config: ProjectConfig, layer: CompositeLayer, cell: SheetCell): Box | null {
+  if (!layer.visible || !layer.image) return null;
+  const { animIndex, dirRow, frameIndex, out } = cell;
+  const mirrorRow = mirroredFrom(config, dirRow);
+  const srcRow = mirrorRow ?? dirRow;
+  const r = frameRect(config, layer.inputLayout, animIndex, srcRow, frameIndex);
+  if (!hasPixels(layer.image, r.sx, r.sy, r.sw, r.sh)) return null;
+
+  const fof = layer.frameOffsets?.[srcRow]?.[timelineIndex(config, animIndex, frameIndex)];
+  const cx = out.sx - out.dx;
+  const x = cx + r.dx + layer.offsetX + (fof?.x ?? 0);
+  const y = out.sy - out.dy + r.dy + layer.offsetY + (fof?.y ?? 0);
+  return {
+    x: mirrorRow === null ? x : 2 * cx + config.frameWidth - x - r.sw,
+    y, w: r.sw, h: r.sh,
+  };
+}
+
+/**
+ * Keeps the composited sheet between renders and redraws only the area a
+ * change touches, so editing a big project stays interactive:
+ *   - a per-frame offset edit touches where that frame of the layer was
+ *     drawn and where it is drawn now (mirrored directions included);
+ *   - any other layer change — colours, offsets, visibility, blend mode —
+ *     touches everywhere that layer was or is drawn.
+ * Every cell those places reach is cleared too, then each cell that draws
+ * into the cleared area is redrawn over it in sheet order, so offsets spill
+ * into neighbouring cells exactly as on renderFullSheet's export. Config
+ * changes and adding, removing, reordering or (un)clipping layers redraw
+ * everything.
+ */
+export class SheetRenderer {
+  private sheet: Surface | null = null;
+  private configKey = '';
+  private drawn = new Map<string, DrawnLayer>();
+
+  render(layers: CompositeLayer[], config: ProjectConfig, cache: ColorShiftCache): Surface {
+    const { width, height } = sheetSize(config, config.exportLayout);
+    const configKey = JSON.stringify(config);
+    const next = new Map(layers.map((layer): [string, DrawnLayer] => [layer.id, {
+      layer,
+      key: layerKey(layer),
+      shifted: layer.visible && layer.image ? cache.get(layer.id, layer.image, layer) : null,
+    }]));
+
+    const cells = this.cells(config);
+    const prevIds = [...this.drawn.keys()];
+    const full = !this.sheet
+      || this.sheet.width !== width || this.sheet.height !== height
+      || configKey !== this.configKey
+      || prevIds.length !== layers.length
+      || layers.some((l, i) => l.id !== prevIds[i] || !!l.clipToBelow !== !!this.drawn.get(l.id)!.layer.clipToBelow);
+
+    if (!this.sheet || this.sheet.width !== width || this.sheet.height !== height) {
+      this.sheet = createSurface(width, height);
+    }
+    const ctx = context2d(this.sheet);
+    const draw = (cell: SheetCell) =>
+      drawSheetCell(ctx, layers, config, cache, cell.animIndex, cell.dirRow, cell.frameIndex, cell.out, cropsFrame(config, cell.out));
+
+    const region = full ? null : this.dirtyRegion(config, cells, layers, next);
+    if (!region) {
+      ctx.clearRect(0, 0, width, height);
+      cells.forEach(draw);
+    } else if (region.length > 0) {
+      ctx.save();
+      ctx.beginPath();
+      for (const { x, y, w, h } of region) {
+        ctx.clearRect(x, y, w, h);
+        ctx.rect(x, y, w, h);
+      }
+      ctx.clip();
+      for (const cell of cells) {
+        const reaches = layers.some(l => {
+          const box = layerFootprint(config, l, cell);
+          return box && region.some(r => overlaps(box, r));
+        });
+        if (reaches) draw(cell);
+      }
+      ctx.restore();
+    }
+
+    this.configKey = configKey;
+    this.drawn = next;
+    return this.sheet;
+  }
+
+  private cells(config: ProjectConfig): SheetCell[] {
+    const cells: SheetCell[] = [];
+    config.animations.forEach((anim, a) => {
+      for (let d = 0; d < config.directions; d++) {
+        for (let f = 0; f < anim.frameCount; f++) {
+          cells.push({ animIndex: a, dirRow: d, frameIndex: f, out: frameRect(config, config.exportLayout, a, d, f) });
+        }
+      }
+    });
+    return cells;
+  }
+
+  /**
+   * Everywhere the changes from the last render show: each changed layer's
+   * old and new footprints, plus every cell those reach. Null when they
+   * reach every cell, so a full redraw is no more work.
+   */
+  private dirtyRegion(config: ProjectConfig, cells: SheetCell[], layers: CompositeLayer[], next: Map<string, DrawnLayer>): Box[] | null {
+    const touched: Box[] = [];
+    for (const layer of layers) {
+      const prev = this.drawn.get(layer.id)!;
+      const now = next.get(layer.id)!;
+      const restyled = prev.key !== now.key || prev.layer.image !== now.layer.image || prev.shifted !== now.shifted;
+      if (!restyled && prev.layer.frameOffsets === now.layer.frameOffsets) continue;
+
+      for (const cell of cells) {
+        if (!restyled) {
+          const srcRow = mirroredFrom(config, cell.dirRow) ?? cell.dirRow;
+          const t = timelineIndex(config, cell.animIndex, cell.frameIndex);
+          const a = prev.layer.frameOffsets?.[srcRow]?.[t];
+          const b = now.layer.frameOffsets?.[srcRow]?.[t];
+          if ((a?.x ?? 0) === (b?.x ?? 0) && (a?.y ?? 0) === (b?.y ?? 0)) continue;
+        }
+        for (const box of [layerFootprint(config, prev.layer, cell), layerFootprint(config, now.layer, cell)]) {
+          if (box) touched.push(box);
+        }
+      }
+    }
+    if (touched.length === 0) return touched;
+
+    const reached = cells.map(cellBox).filter(c => touched.some(b => overlaps(b, c)));
+    return reached.length === cells.length ? null : [...reached, ...touched];
+  }
+}
+
 /**
- * Render all frames as individual canvases, in logical order
- * (dirRow 0 frame 0, dirRow 0 frame 1, ... dirRow N frame M).
+ * Render all frames as individual surfaces, in logical order
+ * (anim 0 dirRow 0 frame 0, anim 0 dirRow 0 frame 1, ... anim A dirRow N frame M).
  */
 export function renderAllFrames(
-  layers: Layer[],
+  layers: CompositeLayer[],
   config: ProjectConfig,
   cache: ColorShiftCache
-): HTMLCanvasElement[] {
-  const { frameWidth, frameHeight, framesPerDirection, directions } = config;
-  const frames: HTMLCanvasElement[] = [];
-
-  for (let dirRow = 0; dirRow < directions; dirRow++) {
-    for (let f = 0; f < framesPerDirection; f++) {
-      const c = document.createElement('canvas');
-      c.width = frameWidth;
-      c.height = frameHeight;
-      compositeFrame(c, layers, config, dirRow, f, cache);
-      frames.push(c);
+): Surface[] {
+  const { frameWidth, frameHeight, directions } = config;
+  const frames: Surface[] = [];
+
+  config.animations.forEach((anim, a) => {
+    for (let dirRow = 0; dirRow < directions; dirRow++) {
+      for (let f = 0; f < anim.frameCount; f++) {
+        const c = createSurface(frameWidth, frameHeight);
+        compositeFrame(c, layers, config, a, dirRow, f, cache);
+        frames.push(c);
+      }
     }
-  }
+  });
   return frames;
 }
 
@@ -112,57 +519,98 @@ export function renderAllFrames(
  * Tile a single-frame source image into a full sprite sheet.
  *
  * `sourceCanvas`  — the single frame to stamp (e.g. a hat extracted from the splitter)
- * `config`        — project config (frame size, directions, framesPerDirection, exportLayout)
+ * `config`        — project config (frame size, directions, animations, defaultInputLayout)
+ * `animMask`      — which animations to fill; use null to fill all animations
  * `dirMask`       — which direction rows to fill; use null to fill all directions
- * `frameMask`     — which frame indices to fill; use null to fill all frames
+ * `frameMask`     — which frame indices (within each animation) to fill; use null to fill all frames
+ * `frameOffsets`  — per-frame offsets indexed [directionRow][timelineIndex] (see Layer.frameOffsets)
  *
- * Returns a new canvas sized to config.defaultInputLayout, with the source
- * stamped at every selected (dir, frame) cell and transparent elsewhere.
+ * Returns a new surface sized to config.defaultInputLayout, with the source
+ * stamped at every selected (anim, dir, frame) cell and transparent elsewhere.
+ * Stamps are only clipped when the layout's cells are smaller than a frame.
  */
 export function tileToSheet(
-  sourceCanvas: HTMLCanvasElement,
+  sourceCanvas: SurfaceSource,
   config: ProjectConfig,
+  animMask: number[] | null,
   dirMask: number[] | null,
   frameMask: number[] | null,
   offsetX = 0,
   offsetY = 0,
-  frameOffsets?: Array<{ x: number; y: number }>
-): HTMLCanvasElement {
-  const { frameWidth, frameHeight, framesPerDirection, directions, defaultInputLayout } = config;
-  const layout = defaultInputLayout;
-
-  const out = document.createElement('canvas');
-  out.width  = layout.cols * frameWidth;
-  out.height = layout.rows * frameHeight;
-  const ctx = out.getContext('2d')!;
-
-  for (let dirRow = 0; dirRow < directions; dirRow++) {
-    if (dirMask && !dirMask.includes(dirRow)) continue;
-    for (let f = 0; f < framesPerDirection; f++) {
-      if (frameMask && !frameMask.includes(f)) continue;
-      const n = flatIndex(dirRow, f, framesPerDirection);
-      const { sx, sy } = frameRect(n, layout, frameWidth, frameHeight);
-      // Draw source at natural size, with the layer's current offset + per-frame offset baked in.
-      // This means after tiling the layer offset can safely be reset to 0.
-      const fof = frameOffsets?.[f];
-      const dx = sx + offsetX + (fof?.x ?? 0);
-      const dy = sy + offsetY + (fof?.y ?? 0);
-      ctx.drawImage(sourceCanvas, dx, dy);
+  frameOffsets?: FrameOffset[][]
+): Surface {
+  const { directions, defaultInputLayout: layout } = config;
+  const { width, height } = sheetSize(config, layout);
+  const out = createSurface(width, height);
+  const ctx = context2d(out);
+
+  config.animations.forEach((anim, a) => {
+    if (animMask && !animMask.includes(a)) return;
+    for (let dirRow = 0; dirRow < directions; dirRow++) {
+      if (dirMask && !dirMask.includes(dirRow)) continue;
+      for (let f = 0; f < anim.frameCount; f++) {
+        if (frameMask && !frameMask.includes(f)) continue;
+        const r = frameRect(config, layout, a, dirRow, f);
+        // Draw source at natural size, with the layer's current offset + per-frame offset baked in.
+        // This means after tiling the layer offset can safely be reset to 0.
+        const fof = frameOffsets?.[dirRow]?.[timelineIndex(config, a, f)];
+        const dx = r.sx - r.dx + offsetX + (fof?.x ?? 0);
+        const dy = r.sy - r.dy + offsetY + (fof?.y ?? 0);
+        const clip = cropsFrame(config, r);
+        if (clip) clipToFrame(ctx, r);
+        ctx.drawImage(sourceCanvas, dx, dy);
+        if (clip) ctx.restore();
+      }
     }
-  }
+  });
 
   return out;
 }
 
 /**
- * Trim transparent pixels from a canvas, returning a tight bounding box.
+ * Pack cells cut from a third-party sheet into a sheet in the project's
+ * defaultInputLayout, one per frame in timeline order (every frame of
+ * direction 0, then direction 1…, animation by animation). Each cell is drawn
+ * at its frame's top-left, like tileToSheet, and cropped to the frame size.
+ * Cells beyond the last frame are left out.
  */
-export function trimTransparent(
-  canvas: HTMLCanvasElement
+export function packCells(
+  source: SurfaceSource,
+  cells: { x: number; y: number; w: number; h: number }[],
+  config: ProjectConfig
+): Surface {
+  const { frameWidth, frameHeight, directions, defaultInputLayout: layout } = config;
+  const { width, height } = sheetSize(config, layout);
+  const out = createSurface(width, height);
+  const ctx = context2d(out);
+
+  let next = 0;
+  config.animations.forEach((anim, a) => {
+    for (let dirRow = 0; dirRow < directions; dirRow++) {
+      for (let f = 0; f < anim.frameCount && next < cells.length; f++) {
+        const cell = cells[next++];
+        const r = frameRect(config, layout, a, dirRow, f);
+        const w = Math.min(cell.w, frameWidth);
+        const h = Math.min(cell.h, frameHeight);
+        const clip = cropsFrame(config, r);
+        if (clip) clipToFrame(ctx, r);
+        ctx.drawImage(source, cell.x, cell.y, w, h, r.sx - r.dx, r.sy - r.dy, w, h);
+        if (clip) ctx.restore();
+      }
+    }
+  });
+
+  return out;
+}
+
+/**
+ * Tight bounding box of the non-transparent pixels in a buffer, or null if
+ * every pixel is transparent.
+ */
+export function opaqueBounds(
+  pixels: RgbaBuffer
 ): { x: number; y: number; w: number; h: number } | null {
-  const ctx = canvas.getContext('2d')!;
-  const { width, height } = canvas;
-  const data = ctx.getImageData(0, 0, width, height).data;
+  const { width, height, data } = pixels;
 
   let minX = width, minY = height, maxX = 0, maxY = 0;
   let found = false;
@@ -183,3 +631,12 @@ export function trimTransparent(
   if (!found) return null;
   return { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 };
 }
+
+/**
+ * Trim transparent pixels from a surface, returning a tight bounding box.
+ */
+export function trimTransparent(
+  canvas: Surface
+): { x: number; y: number; w: number; h: number } | null {
+  return opaqueBounds(readPixels(canvas));
+}
@@ -0,0 +1,186 @@
+/**
+ * Export builders
+ *
+ * The file formats behind the Export bar — frame ZIPs with their
+ * animations.json descriptor and animated GIFs — built from composited
+ * surfaces only, so the command-line renderer writes exactly what the
+ * browser downloads.
+ */
+
+import JSZip from 'jszip';
+import { GIFEncoder, quantize, applyPalette } from 'gifenc';
+import type { Layer, PlaybackMode, ProjectConfig } from './types';
+import { DIRECTIONS_4, DIRECTIONS_8, frameDurations } from './types';
+import type { ColorShiftCache } from './colorShift';
+import { compositeFrame, renderAllFrames } from './compositing';
+import type { Surface } from './surface';
+import { context2d, createSurface, surfaceToPng } from './surface';
+
+export const SCALE_OPTIONS = [1, 2, 3, 4] as const;
+export type ExportScale = typeof SCALE_OPTIONS[number];
+
+/** Strip characters that don't belong in a file or folder name. */
+export function fileSafe(name: string): string {
+  return name.trim().replace(/[^\w-]+/g, '_') || 'anim';
+}
+
+/** `@2x`-style file name suffix; empty at 1×. */
+export function scaleSuffix(scale: number): string {
+  return scale > 1 ? `@${scale}x` : '';
+}
+
+/**
+ * Scale a surface by an integer multiplier using nearest-neighbour (no interpolation).
+ * Returns a new surface — the original is untouched.
+ */
+export function scaleSurface(src: Surface, scale: number): Surface {
+  if (scale === 1) return src;
+  const out = createSurface(src.width * scale, src.height * scale);
+  const ctx = context2d(out);
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(src, 0, 0, out.width, out.height);
+  return out;
+}
+
+/**
+ * Apply a playback mode to the frame order.
+ * 'forward'  — unchanged
+ * 'reverse'  — reversed
+ * 'pingpong' — forward then reversed (minus duplicate endpoints)
+ * Generic so frame surfaces and their durations can be reordered in step.
+ */
+export function applyPlaybackMode<T>(frames: T[], mode: PlaybackMode): T[] {
+  if (mode === 'reverse') return [...frames].reverse();
+  if (mode === 'pingpong') {
+    if (frames.length <= 2) return frames;
+    const back = [...frames].reverse().slice(1, -1);   // drop first & last (already in forward pass)
+    return [...frames, ...back];
+  }
+  return frames;
+}
+
+/** Encode frame surfaces into an animated GIF with transparency. `delaysMs[i]` is frame i's duration. */
+export function encodeGif(frames: Surface[], delaysMs: number[]): Uint8Array {
+  const w = frames[0].width, h = frames[0].height;
+  const gif = GIFEncoder();
+
+  for (let i = 0; i < frames.length; i++) {
+    const ctx = context2d(frames[i]);
+    const rgba = ctx.getImageData(0, 0, w, h).data;
+    const palette = quantize(rgba, 256, { format: 'rgba4444', clearAlpha: true, clearAlphaThreshold: 128 });
+    const index = applyPalette(rgba, palette, 'rgba4444');
+
+    // Find the palette entry with alpha=0 for GIF transparency
+    let transparentIndex = 0;
+    let hasTransparent = false;
+    for (let p = 0; p < palette.length; p++) {
+      if (palette[p].length >= 4 && (palette[p] as [number, number, number, number])[3] === 0) {
+        transparentIndex = p;
+        hasTransparent = true;
+        break;
+      }
+    }
+
+    gif.writeFrame(index, w, h, {
+      palette,
+      delay: delaysMs[i],
+      repeat: 0,                          // loop forever
+      dispose: 2,                         // restore to background (needed for transparency between frames)
+      transparent: hasTransparent,
+      transparentIndex,
+    });
+  }
+
+  gif.finish();
+  return gif.bytes();
+}
+
+/** One direction of one animation as a GIF, in the given playback order. */
+export function renderGif(
+  layers: Layer[],
+  config: ProjectConfig,
+  cache: ColorShiftCache,
+  animIndex: number,
+  dirRow: number,
+  scale: number,
+  fps: number,
+  mode: PlaybackMode
+): Uint8Array {
+  const anim = config.animations[animIndex];
+  const rawFrames: Surface[] = [];
+  for (let f = 0; f < anim.frameCount; f++) {
+    const cv = createSurface(config.frameWidth, config.frameHeight);
+    compositeFrame(cv, layers, config, animIndex, dirRow, f, cache);
+    rawFrames.push(scaleSurface(cv, scale));
+  }
+  return encodeGif(applyPlaybackMode(rawFrames, mode), applyPlaybackMode(frameDurations(anim, fps), mode));
+}
+
+/**
+ * Every frame as a PNG under `frames/<animation>/<direction>/NNN.png` (the
+ * animation folder only when there's more than one), plus an
+ * animations.json with frame size, directions and per-frame durations.
+ */
+export async function buildFramesZip(
+  layers: Layer[],
+  config: ProjectConfig,
+  cache: ColorShiftCache,
+  scale: number,
+  fps: number
+): Promise<JSZip> {
+  const frames = renderAllFrames(layers, config, cache);
+  const zip = new JSZip();
+  const folder = zip.folder('frames')!;
+  const dirs = config.directions === 4 ? [...DIRECTIONS_4] : [...DIRECTIONS_8];
+  const multiAnim = config.animations.length > 1;
+
+  // renderAllFrames order: animation → direction → frame
+  let idx = 0;
+  for (const a of config.animations) {
+    const animFolder = multiAnim ? `${fileSafe(a.name)}/` : '';
+    for (let row = 0; row < config.directions; row++) {
+      for (let col = 0; col < a.frameCount; col++) {
+        const frameName = `${String(col + 1).padStart(3, '0')}`;
+        folder.file(`${animFolder}${dirs[row]}/${frameName}.png`, await surfaceToPng(scaleSurface(frames[idx], scale)));
+        idx++;
+      }
+    }
+  }
+
+  // Timing + naming metadata so engines can rebuild the animations
+  folder.file('animations.json', JSON.stringify({
+    frameWidth:  config.frameWidth  * scale,
+    frameHeight: config.frameHeight * scale,
+    directions:  dirs,
+    animations:  config.animations.map(a => ({
+      name:      a.name,
+      folder:    multiAnim ? fileSafe(a.name) : '',
+      frames:    a.frameCount,
+      durations: frameDurations(a, fps),
+    })),
+  }, null, 2));
+
+  return zip;
+}
+
+/** A GIF per animation and direction, named `<animation>/<direction>.gif` (flat with one animation). */
+export function buildGifsZip(
+  layers: Layer[],
+  config: ProjectConfig,
+  cache: ColorShiftCache,
+  scale: number,
+  fps: number,
+  mode: PlaybackMode
+): JSZip {
+  const dirs = config.directions === 4 ? [...DIRECTIONS_4] : [...DIRECTIONS_8];
+  const multiAnim = config.animations.length > 1;
+  const zip = new JSZip();
+
+  config.animations.forEach((anim, a) => {
+    const animFolder = multiAnim ? `${fileSafe(anim.name)}/` : '';
+    for (let d = 0; d < config.directions; d++) {
+      zip.file(`${animFolder}${dirs[d]}.gif`, renderGif(layers, config, cache, a, d, scale, fps, mode));
+    }
+  });
+  return zip;
+}
@@ -0,0 +1,114 @@
+/**
+ * Godot 4 export
+ *
+ * Builds a SpriteFrames resource (.tres) that slices the exported sheet with
+ * AtlasTexture regions, plus a minimal scene (.tscn) holding an
+ * AnimatedSprite2D that uses it. One Godot animation is written per
+ * (animation, direction) pair, named e.g. `walk_down`.
+ *
+ * Texture paths are written relative to the .tres — Godot resolves them
+ * against the resource's own folder, so the files can be dropped anywhere
+ * in a project as long as they stay together.
+ */
+
+import type { ProjectConfig, PlaybackMode } from './types';
+import { DIRECTIONS_4, DIRECTIONS_8, frameRect, frameDurations } from './types';
+
+export interface GodotExportOptions {
+  /** Sheet PNG file name, relative to the .tres. */
+  texturePath: string;
+  /** Export scale the sheet was rendered at. */
+  scale: number;
+  /** Base playback speed; per-frame durations become multiples of 1/fps. */
+  fps: number;
+  mode: PlaybackMode;
+}
+
+/** Godot StringName / String literal. */
+function str(s: string): string {
+  return JSON.stringify(s);
+}
+
+/** Format a float the way Godot writes them — always with a decimal point. */
+function float(n: number): string {
+  const r = Math.round(n * 10000) / 10000;
+  return Number.isInteger(r) ? r.toFixed(1) : String(r);
+}
+
+/**
+ * Frame order for one Godot animation, honouring the playback mode.
+ * Godot has no ping-pong, so it's unrolled: forward then back, minus endpoints.
+ */
+function playbackOrder(count: number, mode: PlaybackMode): number[] {
+  const forward = Array.from({ length: count }, (_, i) => i);
+  if (mode === 'reverse') return forward.reverse();
+  if (mode === 'pingpong' && count > 2) return [...forward, ...forward.slice(1, -1).reverse()];
+  return forward;
+}
+
+/** Godot animation names used for each (animation, direction), in export order. */
+export function godotAnimationNames(config: ProjectConfig): string[] {
+  const dirs = config.directions === 4 ? DIRECTIONS_4 : DIRECTIONS_8;
+  return config.animations.flatMap(a => dirs.map(d => `${a.name}_${d}`));
+}
+
+/**
+ * Serialise a SpriteFrames resource whose regions follow `config.exportLayout`.
+ */
+export function buildSpriteFrames(config: ProjectConfig, options: GodotExportOptions): string {
+  const { texturePath, scale, fps, mode } = options;
+  const names = godotAnimationNames(config);
+
+  const subResources: string[] = [];
+  const animations: string[] = [];
+  let nameIdx = 0;
+
+  config.animations.forEach((anim, a) => {
+    const durations = frameDurations(anim, fps);
+    const baseMs = 1000 / fps;
+
+    for (let d = 0; d < config.directions; d++) {
+      // One AtlasTexture per physical frame; ping-pong reuses them
+      const ids: string[] = [];
+      for (let f = 0; f < anim.frameCount; f++) {
+        const id = `AtlasTexture_${subResources.length + 1}`;
+        const { sx, sy, sw, sh } = frameRect(config, config.exportLayout, a, d, f);
+        subResources.push(
+          `[sub_resource type="AtlasTexture" id="${id}"]\n` +
+          `atlas = ExtResource("1")\n` +
+          `region = Rect2(${sx * scale}, ${sy * scale}, ${sw * scale}, ${sh * scale})\n`
+        );
+        ids.push(id);
+      }
+
+      const frames = playbackOrder(anim.frameCount, mode).map(f =>
+        `{\n"duration": ${float(durations[f] / baseMs)},\n"texture": SubResource("${ids[f]}")\n}`
+      );
+      animations.push(
+        `{\n"frames": [${frames.join(', ')}],\n"loop": true,\n"name": &${str(names[nameIdx++])},\n"speed": ${float(fps)}\n}`
+      );
+    }
+  });
+
+  return (
+    `[gd_resource type="SpriteFrames" load_steps=${subResources.length + 2} format=3]\n\n` +
+    `[ext_resource type="Texture2D" path=${str(texturePath)} id="1"]\n\n` +
+    subResources.join('\n') + '\n' +
+    `[resource]\n` +
+    `animations = [${animations.join(', ')}]\n`
+  );
+}
+
+/**
+ * Serialise a scene with a single AnimatedSprite2D using `spriteFramesPath`.
+ * `animation` picks which animation the node shows in the editor.
+ */
+export function buildAnimatedSpriteScene(spriteFramesPath: string, nodeName: string, animation: string): string {
+  return (
+    `[gd_scene load_steps=2 format=3]\n\n` +
+    `[ext_resource type="SpriteFrames" path=${str(spriteFramesPath)} id="1"]\n\n` +
+    `[node name=${str(nodeName)} type="AnimatedSprite2D"]\n` +
+    `sprite_frames = ExtResource("1")\n` +
+    `animation = &${str(animation)}\n`
+  );
+}
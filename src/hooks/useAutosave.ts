@@ -0,0 +1,62 @@
+import { useState, useEffect, useRef } from 'react';
+import type { AppState } from '../types';
+import { writeAutosave } from '../autosave';
+
+const AUTOSAVE_INTERVAL_MS = 30_000;
+
+/**
+ * Periodically write the project to IndexedDB while it has unsaved changes,
+ * and once more when the page is hidden or closed. Returns when the last
+ * autosave finished, or null if none has happened this session.
+ */
+export function useAutosave(state: AppState): number | null {
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const stateRef = useRef(state);
+  const dirtyRef = useRef(false);
+  const savingRef = useRef(false);
+  const firstRunRef = useRef(true);
+
+  useEffect(() => {
+    stateRef.current = state;
+  }, [state]);
+
+  // Any project-data change marks the session dirty (not on the initial render)
+  useEffect(() => {
+    if (firstRunRef.current) {
+      firstRunRef.current = false;
+      return;
+    }
+    dirtyRef.current = true;
+  }, [state.config, state.layers, state.library, state.palettes]);
+
+  useEffect(() => {
+    async function save() {
+      const s = stateRef.current;
+      if (!dirtyRef.current || savingRef.current) return;
+      if (s.layers.length === 0 && s.library.length === 0) return;
+      savingRef.current = true;
+      dirtyRef.current = false;
+      try {
+        await writeAutosave(s);
+        setLastSavedAt(Date.now());
+      } catch {
+        // Storage unavailable (private mode, quota) — retry on the next change
+        dirtyRef.current = true;
+      } finally {
+        savingRef.current = false;
+      }
+    }
+
+    const timer = window.setInterval(save, AUTOSAVE_INTERVAL_MS);
+    const onHide = () => { if (document.visibilityState === 'hidden') save(); };
+    document.addEventListener('visibilitychange', onHide);
+    window.addEventListener('pagehide', save);
+    return () => {
+      window.clearInterval(timer);
+      document.removeEventListener('visibilitychange', onHide);
+      window.removeEventListener('pagehide', save);
+    };
+  }, []);
+
+  return lastSavedAt;
+}
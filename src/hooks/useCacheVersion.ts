@@ -0,0 +1,11 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import type { ColorShiftCache } from '../colorShift';
+
+/**
+ * Re-render when background recolouring lands in `cache`. Views that draw
+ * through the cache add the result to their redraw effect's dependencies.
+ */
+export function useCacheVersion(cache: ColorShiftCache): number {
+  const subscribe = useCallback((onChange: () => void) => cache.subscribe(onChange), [cache]);
+  return useSyncExternalStore(subscribe, () => cache.version);
+}
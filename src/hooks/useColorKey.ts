@@ -0,0 +1,62 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { RgbaBuffer } from '../surface';
+import { copySurface, readPixels } from '../surface';
+import { isOpaque } from '../selection';
+
+export interface ColorKeyRequest {
+  file: File;
+  pixels: RgbaBuffer;
+  /** Whether the image has no transparency at all — why it was offered. */
+  opaque: boolean;
+}
+
+/**
+ * Key out the background of images on import. Importers await
+ * `keyBackground(file)` for each file: images with any transparency pass
+ * straight through, opaque ones — or every image, with `always` set for an
+ * explicit "Remove background…" import — wait on the ColorKeyModal for
+ * `request` and resolve to the keyed PNG, the original file, or null if the
+ * import was cancelled. Unmounting the importer cancels a pending request.
+ */
+export function useColorKey() {
+  const [request, setRequest] = useState<ColorKeyRequest | null>(null);
+  const resolveRef = useRef<((file: File | null) => void) | null>(null);
+  const mountedRef = useRef(false);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+      resolveRef.current?.(null);
+      resolveRef.current = null;
+    };
+  }, []);
+
+  const keyBackground = useCallback(async (file: File, always = false): Promise<File | null> => {
+    let pixels: RgbaBuffer;
+    try {
+      const bitmap = await createImageBitmap(file);
+      pixels = readPixels(copySurface(bitmap));
+      bitmap.close();
+    } catch {
+      // Not decodable here — let the importer deal with it as before
+      return file;
+    }
+    if (pixels.data.length === 0) return file;
+    const opaque = isOpaque(pixels);
+    if (!opaque && !always) return file;
+    if (!mountedRef.current) return null;
+    return new Promise(resolve => {
+      resolveRef.current = resolve;
+      setRequest({ file, pixels, opaque });
+    });
+  }, []);
+
+  function settle(file: File | null) {
+    resolveRef.current?.(file);
+    resolveRef.current = null;
+    setRequest(null);
+  }
+
+  return { keyBackground, request, settle };
+}
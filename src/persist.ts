@@ -2,10 +2,10 @@
  * Lightweight localStorage persistence for SpriteBat.
  * We persist the project config and UI preferences (zoom, fps, etc.)
  * but NOT layers — they contain HTMLImageElement objects that can't be
- * serialised to JSON, and images need to come from the file system anyway.
+ * serialised to JSON. Full projects are autosaved to IndexedDB by autosave.ts.
  */
 
-import type { ProjectConfig, PlaybackMode, AppTab } from './types';
+import type { ProjectConfig, PlaybackMode, AppTab, OnionSkin } from './types';
 
 const KEY = 'spritebat_v1';
 
@@ -17,6 +17,7 @@ export interface PersistedState {
   canvasZoom: number;
   sheetZoom: number;
   activeTab: AppTab;
+  onionSkin: OnionSkin;
 }
 
 export function loadPersistedState(): Partial<PersistedState> {
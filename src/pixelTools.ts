@@ -0,0 +1,116 @@
+/**
+ * Pixel editing on a layer's source sheet, driven from the Composer's
+ * current-frame canvas. Points come in as frame pixels (what the user sees)
+ * and are mapped back through the layer's offsets, mirroring and inputLayout
+ * to the sheet pixel they were drawn from.
+ */
+
+import type { Layer, ProjectConfig } from './types';
+import { frameRect, timelineIndex, mirroredFrom } from './types';
+import { parseHex, toHex } from './colorShift';
+
+/** The layer's source cell for one frame, in sheet pixels. */
+export interface SourceCell {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export function sourceCell(
+  config: ProjectConfig,
+  layer: Layer,
+  animIndex: number,
+  directionRow: number,
+  frameIndex: number
+): SourceCell {
+  const srcRow = mirroredFrom(config, directionRow) ?? directionRow;
+  const { sx, sy, sw, sh } = frameRect(config, layer.inputLayout, animIndex, srcRow, frameIndex);
+  return { x: sx, y: sy, w: sw, h: sh };
+}
+
+/**
+ * The sheet pixel shown at frame pixel (fx, fy), or null when the layer
+ * draws nothing there (the point falls outside its shifted cell).
+ */
+export function frameToSource(
+  config: ProjectConfig,
+  layer: Layer,
+  animIndex: number,
+  directionRow: number,
+  frameIndex: number,
+  fx: number,
+  fy: number
+): { x: number; y: number } | null {
+  const mirrorRow = mirroredFrom(config, directionRow);
+  const srcRow = mirrorRow ?? directionRow;
+  const cell = sourceCell(config, layer, animIndex, directionRow, frameIndex);
+  const { dx: insetX, dy: insetY } = frameRect(config, layer.inputLayout, animIndex, srcRow, frameIndex);
+  const fof = layer.frameOffsets?.[srcRow]?.[timelineIndex(config, animIndex, frameIndex)];
+  // Where the cell's top-left lands in the frame
+  const dx = insetX + layer.offsetX + (fof?.x ?? 0);
+  const dy = insetY + layer.offsetY + (fof?.y ?? 0);
+  // Mirrored frames flip the whole cell, offsets included
+  const u = (mirrorRow === null ? fx : config.frameWidth - 1 - fx) - dx;
+  const v = fy - dy;
+  if (u < 0 || v < 0 || u >= cell.w || v >= cell.h) return null;
+  return { x: cell.x + u, y: cell.y + v };
+}
+
+/** Every pixel on the line from (x0, y0) to (x1, y1), ends included (Bresenham). */
+export function linePixels(x0: number, y0: number, x1: number, y1: number): { x: number; y: number }[] {
+  const points: { x: number; y: number }[] = [];
+  const dx = Math.abs(x1 - x0);
+  const dy = -Math.abs(y1 - y0);
+  const sx = x0 < x1 ? 1 : -1;
+  const sy = y0 < y1 ? 1 : -1;
+  let err = dx + dy;
+  let x = x0;
+  let y = y0;
+  for (;;) {
+    points.push({ x, y });
+    if (x === x1 && y === y1) break;
+    const e2 = 2 * err;
+    if (e2 >= dy) { err += dy; x += sx; }
+    if (e2 <= dx) { err += dx; y += sy; }
+  }
+  return points;
+}
+
+/** The colour at (x, y) as '#rrggbb', or null if the pixel is transparent. */
+export function pickColor(ctx: CanvasRenderingContext2D, x: number, y: number): string | null {
+  const [r, g, b, a] = ctx.getImageData(x, y, 1, 1).data;
+  if (a === 0) return null;
+  return toHex(r, g, b);
+}
+
+/**
+ * Flood-fill the 4-connected region of exactly matching RGBA around (x, y)
+ * with an opaque colour, staying inside `bounds` so a fill never leaks into
+ * neighbouring frames.
+ */
+export function floodFill(ctx: CanvasRenderingContext2D, x: number, y: number, bounds: SourceCell, color: string) {
+  const imageData = ctx.getImageData(bounds.x, bounds.y, bounds.w, bounds.h);
+  const { data } = imageData;
+  const px = new Uint32Array(data.buffer);
+  const [r, g, b] = parseHex(color);
+  // Write the fill colour through a byte view so endianness doesn't matter
+  const fill = new Uint32Array(new Uint8ClampedArray([r, g, b, 255]).buffer)[0];
+
+  const start = (y - bounds.y) * bounds.w + (x - bounds.x);
+  const target = px[start];
+  if (target === fill) return;
+
+  const stack = [start];
+  while (stack.length) {
+    const i = stack.pop()!;
+    if (px[i] !== target) continue;
+    px[i] = fill;
+    const cx = i % bounds.w;
+    if (cx > 0) stack.push(i - 1);
+    if (cx < bounds.w - 1) stack.push(i + 1);
+    if (i >= bounds.w) stack.push(i - bounds.w);
+    if (i < px.length - bounds.w) stack.push(i + bounds.w);
+  }
+  ctx.putImageData(imageData, bounds.x, bounds.y);
+}
@@ -9,7 +9,8 @@
 
 import JSZip from 'jszip';
 import { saveAs } from 'file-saver';
-import type { AppState, Layer, LibraryAsset, ProjectConfig, PlaybackMode, AppTab, Direction } from './types';
+import type { AppState, FrameOffset, Layer, LibraryAsset, Palette, ProjectConfig, PlaybackMode, AppTab, Direction } from './types';
+import { normalizeConfig } from './state';
 
 // ─── Serialisable types ───────────────────────────────────────────────────────
 
@@ -19,12 +20,19 @@ export interface SavedLayer {
   type: Layer['type'];
   visible: boolean;
   opacity: number;
+  blendMode?: Layer['blendMode'];
+  clipToBelow?: boolean;
   hsl: Layer['hsl'];
+  colorMode?: Layer['colorMode'];
+  paletteMap?: Layer['paletteMap'];
   fileName: string;
   offsetX: number;
   offsetY: number;
   inputLayout: Layer['inputLayout'];
-  frameOffsets?: Layer['frameOffsets'];
+  /** Version 3+: per direction. Versions 1-2: one array shared by every direction. */
+  frameOffsets?: Layer['frameOffsets'] | FrameOffset[];
+  variant?: Layer['variant'];
+  sourceAssetId?: string;
   // image lives in layers/<id>.png — not here
 }
 
@@ -40,6 +48,7 @@ export interface SavedLibraryAsset {
 
 export interface SavedUi {
   selectedLayerId: string | null;
+  previewAnimation?: string;   // absent in version 1 files
   previewDirection: Direction;
   previewFrame: number;
   previewMode: PlaybackMode;
@@ -50,12 +59,19 @@ export interface SavedUi {
   activeTab: AppTab;
 }
 
+/**
+ * Version history:
+ *   1 — single frame grid (`config.framesPerDirection`)
+ *   2 — named animations (`config.animations`)
+ *   3 — per-direction frame offsets (`layers[].frameOffsets[dir][frame]`)
+ */
 export interface ProjectFile {
-  version: 1;
+  version: 1 | 2 | 3;
   config: ProjectConfig;
   layers: SavedLayer[];
   ui: SavedUi;
   library?: SavedLibraryAsset[];
+  palettes?: Palette[];
 }
 
 // ─── Save ─────────────────────────────────────────────────────────────────────
@@ -64,6 +80,14 @@ export interface ProjectFile {
  * Serialise current app state into a .spritebat ZIP and trigger a download.
  */
 export async function saveProject(state: AppState, filename = 'project.spritebat'): Promise<void> {
+  saveAs(await buildProjectBlob(state), filename);
+}
+
+/**
+ * Serialise current app state into .spritebat ZIP bytes without downloading
+ * them (used by autosave).
+ */
+export async function buildProjectBlob(state: AppState): Promise<Blob> {
   const zip = new JSZip();
   const layersFolder = zip.folder('layers')!;
 
@@ -77,12 +101,18 @@ export async function saveProject(state: AppState, filename = 'project.spritebat
       type:         layer.type,
       visible:      layer.visible,
       opacity:      layer.opacity,
+      ...(layer.blendMode && layer.blendMode !== 'normal' && { blendMode: layer.blendMode }),
+      ...(layer.clipToBelow && { clipToBelow: true }),
       hsl:          layer.hsl,
+      ...(layer.colorMode  && { colorMode: layer.colorMode }),
+      ...(layer.paletteMap && { paletteMap: layer.paletteMap }),
       fileName:     layer.fileName,
       offsetX:      layer.offsetX,
       offsetY:      layer.offsetY,
       inputLayout:  layer.inputLayout,
       ...(layer.frameOffsets && { frameOffsets: layer.frameOffsets }),
+      ...(layer.variant      && { variant: layer.variant }),
+      ...(layer.sourceAssetId && { sourceAssetId: layer.sourceAssetId }),
     });
 
     // Add the PNG from the objectUrl if available
@@ -116,11 +146,12 @@ export async function saveProject(state: AppState, filename = 'project.spritebat
   }
 
   const projectFile: ProjectFile = {
-    version: 1,
+    version: 3,
     config:  state.config,
     layers:  savedLayers,
     ui: {
       selectedLayerId:  state.selectedLayerId,
+      previewAnimation: state.previewAnimation,
       previewDirection: state.previewDirection,
       previewFrame:     state.previewFrame,
       previewMode:      state.previewMode,
@@ -131,12 +162,12 @@ export async function saveProject(state: AppState, filename = 'project.spritebat
       activeTab:        state.activeTab,
     },
     ...(savedLibrary.length > 0 && { library: savedLibrary }),
+    ...(state.palettes.length > 0 && { palettes: state.palettes }),
   };
 
   zip.file('project.json', JSON.stringify(projectFile, null, 2));
 
-  const zipBlob = await zip.generateAsync({ type: 'blob' });
-  saveAs(zipBlob, filename);
+  return zip.generateAsync({ type: 'blob' });
 }
 
 /**
@@ -163,11 +194,12 @@ export async function saveLibrary(library: LibraryAsset[], config: ProjectConfig
   }
 
   const projectFile: ProjectFile = {
-    version: 1,
+    version: 3,
     config,
     layers: [],
     ui: {
       selectedLayerId: null,
+      previewAnimation: config.animations[0].id,
       previewDirection: 'down',
       previewFrame: 0,
       previewMode: 'forward',
@@ -192,24 +224,52 @@ export interface LoadedProject {
   config: ProjectConfig;
   layers: Layer[];
   library: LibraryAsset[];
-  ui: SavedUi;
+  palettes: Palette[];
+  ui: SavedUi & { previewAnimation: string };
+}
+
+/**
+ * Turns a layer or library PNG into a drawable image. The browser default
+ * loads it from an object URL; other hosts pass their own decoder.
+ */
+export type PngDecoder = (png: Uint8Array) => Promise<{ image: HTMLImageElement; objectUrl: string }>;
+
+async function decodeInBrowser(png: Uint8Array): Promise<{ image: HTMLImageElement; objectUrl: string }> {
+  const objectUrl = URL.createObjectURL(new Blob([png as Uint8Array<ArrayBuffer>], { type: 'image/png' }));
+  return { image: await loadImage(objectUrl), objectUrl };
 }
 
 /**
  * Read a .spritebat file (ZIP) and reconstruct fully hydrated Layer objects
  * and LibraryAsset objects with live HTMLImageElement references.
  */
-export async function loadProject(file: File): Promise<LoadedProject> {
-  const zip = await JSZip.loadAsync(file);
+export async function loadProject(file: Blob | Uint8Array, decodePng: PngDecoder = decodeInBrowser): Promise<LoadedProject> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error('Invalid .spritebat file: not a ZIP archive');
+  }
 
   // 1. Parse project.json
   const jsonFile = zip.file('project.json');
   if (!jsonFile) throw new Error('Invalid .spritebat file: missing project.json');
-  const projectFile: ProjectFile = JSON.parse(await jsonFile.async('text'));
+  let projectFile: ProjectFile;
+  try {
+    projectFile = JSON.parse(await jsonFile.async('text'));
+  } catch {
+    throw new Error('Invalid .spritebat file: project.json is not valid JSON');
+  }
 
-  if (projectFile.version !== 1) {
+  if (projectFile.version !== 1 && projectFile.version !== 2 && projectFile.version !== 3) {
     throw new Error(`Unsupported project version: ${projectFile.version}`);
   }
+  if (!projectFile.config || !Array.isArray(projectFile.layers) || !projectFile.ui) {
+    throw new Error('Invalid .spritebat file: project.json is missing config, layers or ui');
+  }
+
+  // Version 1 configs carry framesPerDirection instead of an animation list
+  const config = normalizeConfig(projectFile.config);
 
   // 2. Hydrate layers
   const layers: Layer[] = [];
@@ -221,9 +281,7 @@ export async function loadProject(file: File): Promise<LoadedProject> {
     let objectUrl: string | null = null;
 
     if (pngFile) {
-      const blob = await pngFile.async('blob');
-      objectUrl = URL.createObjectURL(blob);
-      image = await loadImage(objectUrl);
+      ({ image, objectUrl } = await decodePng(await pngFile.async('uint8array')));
     }
 
     layers.push({
@@ -232,12 +290,18 @@ export async function loadProject(file: File): Promise<LoadedProject> {
       type:        saved.type,
       visible:     saved.visible,
       opacity:     saved.opacity ?? 100,
+      blendMode:   saved.blendMode,
+      clipToBelow: saved.clipToBelow,
       hsl:         saved.hsl ?? { hue: 0, saturation: 0, lightness: 0 },
+      colorMode:   saved.colorMode,
+      paletteMap:  saved.paletteMap,
       fileName:    saved.fileName,
       offsetX:     saved.offsetX ?? 0,
       offsetY:     saved.offsetY ?? 0,
       inputLayout: saved.inputLayout,
-      frameOffsets: saved.frameOffsets,
+      frameOffsets: migrateFrameOffsets(saved.frameOffsets, projectFile.version, config),
+      variant:     saved.variant,
+      sourceAssetId: saved.sourceAssetId,
       image,
       objectUrl,
     });
@@ -251,9 +315,7 @@ export async function loadProject(file: File): Promise<LoadedProject> {
       const pngFile = zip.file(`library/${saved.id}.png`);
       if (!pngFile) continue;    // skip if image is missing
 
-      const blob = await pngFile.async('blob');
-      const objectUrl = URL.createObjectURL(blob);
-      const image = await loadImage(objectUrl);
+      const { image, objectUrl } = await decodePng(await pngFile.async('uint8array'));
 
       library.push({
         id:        saved.id,
@@ -268,16 +330,38 @@ export async function loadProject(file: File): Promise<LoadedProject> {
     }
   }
 
+  const previewAnimation =
+    config.animations.find(a => a.id === projectFile.ui.previewAnimation)?.id
+    ?? config.animations[0].id;
+
   return {
-    config: projectFile.config,
+    config,
     layers,
     library,
-    ui:     projectFile.ui,
+    palettes: projectFile.palettes ?? [],
+    ui:       { ...projectFile.ui, previewAnimation },
   };
 }
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
+/**
+ * Before version 3 a layer had one offset per timeline frame, shared by every
+ * direction. Give each direction its own copy so the sheet renders the same.
+ */
+function migrateFrameOffsets(
+  saved: SavedLayer['frameOffsets'],
+  version: ProjectFile['version'],
+  config: ProjectConfig
+): Layer['frameOffsets'] {
+  if (!saved) return undefined;
+  if (version >= 3) return saved as FrameOffset[][];
+  const shared = saved as FrameOffset[];
+  return Array.from({ length: config.directions }, () =>
+    shared.map(o => ({ x: o?.x ?? 0, y: o?.y ?? 0 }))
+  );
+}
+
 function loadImage(src: string): Promise<HTMLImageElement> {
   return new Promise((resolve, reject) => {
     const img = new Image();
@@ -0,0 +1,33 @@
+/**
+ * Deterministic pseudo-random numbers from a seed string, so a batch or a
+ * generated character can be reproduced exactly from its seed.
+ */
+
+/** Hash a string to a 32-bit seed (xmur3). */
+function hashSeed(seed: string): number {
+  let h = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  h = Math.imul(h ^ (h >>> 16), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+/** A generator of floats in [0, 1) that yields the same sequence for the same seed (mulberry32). */
+export function seededRandom(seed: string): () => number {
+  let a = hashSeed(seed);
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** A short random seed string for the user to start from. */
+export function randomSeed(): string {
+  return Math.random().toString(36).slice(2, 8);
+}
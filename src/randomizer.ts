@@ -0,0 +1,191 @@
+/**
+ * Seeded random character generator.
+ *
+ * Each LayerType with candidates is a slot. A slot's candidates are its
+ * variant layers (see variants.ts) plus Library assets tagged with the type's
+ * name. Generating picks one candidate per slot and an HSL shift within the
+ * slot's configured ranges, all from one seed — so the same project and seed
+ * always give the same character. The result is a small recipe that can be
+ * shared as JSON and applied to the layer stack.
+ */
+
+import type { HSLAdjustment, HslRanges, Layer, LayerType, LibraryAsset, ProjectConfig } from './types';
+import { LAYER_TYPES } from './types';
+import { tileToSheet } from './compositing';
+import { seededRandom } from './random';
+import type { Surface } from './surface';
+import { surfaceToBlob } from './surface';
+
+export const DEFAULT_HSL_RANGES: HslRanges = {
+  hue:        { min: -180, max: 180 },
+  saturation: { min: -30,  max: 30 },
+  lightness:  { min: -20,  max: 20 },
+};
+
+export type RandomCandidate =
+  | { source: 'layer'; layer: Layer }
+  | { source: 'asset'; asset: LibraryAsset };
+
+export interface RandomSlot {
+  type: LayerType;
+  candidates: RandomCandidate[];
+}
+
+export interface RecipePart {
+  slot: LayerType;
+  source: 'layer' | 'asset';
+  /** Layer or asset id; `name` is the fallback when the id isn't found. */
+  id: string;
+  name: string;
+  hsl: Pick<HSLAdjustment, 'hue' | 'saturation' | 'lightness'>;
+}
+
+/** A generated character: which part fills each slot, and its colour. */
+export interface CharacterRecipe {
+  seed: string;
+  parts: RecipePart[];
+}
+
+/**
+ * Slots with their candidates, in a stable order: LayerType order, then
+ * layers bottom to top, then assets in Library order. Layers the randomizer
+ * built from assets are left out so candidates don't change between runs.
+ */
+export function randomSlots(layers: Layer[], library: LibraryAsset[]): RandomSlot[] {
+  const slots: RandomSlot[] = [];
+  for (const type of LAYER_TYPES) {
+    const tag = type.toLowerCase();
+    const candidates: RandomCandidate[] = [
+      ...layers
+        .filter(l => l.type === type && l.variant && l.image && !l.sourceAssetId)
+        .map(layer => ({ source: 'layer' as const, layer })),
+      ...library
+        .filter(a => a.tags.some(t => t.toLowerCase() === tag))
+        .map(asset => ({ source: 'asset' as const, asset })),
+    ];
+    if (candidates.length) slots.push({ type, candidates });
+  }
+  return slots;
+}
+
+export function generateRecipe(
+  slots: RandomSlot[],
+  seed: string,
+  ranges: ProjectConfig['randomRanges']
+): CharacterRecipe {
+  const random = seededRandom(seed);
+  const between = ({ min, max }: { min: number; max: number }) => Math.round(min + random() * (max - min));
+
+  const parts = slots.map(slot => {
+    const candidate = slot.candidates[Math.floor(random() * slot.candidates.length)];
+    const range = ranges?.[slot.type] ?? DEFAULT_HSL_RANGES;
+    const hsl = { hue: between(range.hue), saturation: between(range.saturation), lightness: between(range.lightness) };
+    return candidate.source === 'layer'
+      ? { slot: slot.type, source: 'layer' as const, id: candidate.layer.id, name: candidate.layer.name, hsl }
+      : { slot: slot.type, source: 'asset' as const, id: candidate.asset.id, name: candidate.asset.name, hsl };
+  });
+  return { seed, parts };
+}
+
+/** Parse a shared recipe, with a readable error for anything else. */
+export function parseRecipe(text: string): CharacterRecipe {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Recipe is not valid JSON');
+  }
+  const recipe = data as Partial<CharacterRecipe>;
+  const valid = Array.isArray(recipe.parts) && recipe.parts.every(p =>
+    p && LAYER_TYPES.includes(p.slot) && (p.source === 'layer' || p.source === 'asset') &&
+    typeof p.id === 'string' && typeof p.name === 'string' &&
+    typeof p.hsl?.hue === 'number' && typeof p.hsl.saturation === 'number' && typeof p.hsl.lightness === 'number'
+  );
+  if (!valid) throw new Error('Not a SpriteBat character recipe');
+  return { seed: typeof recipe.seed === 'string' ? recipe.seed : '', parts: recipe.parts! };
+}
+
+async function surfaceToImage(surface: Surface): Promise<{ image: HTMLImageElement; objectUrl: string }> {
+  const objectUrl = URL.createObjectURL(await surfaceToBlob(surface));
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve({ image, objectUrl });
+    image.onerror = () => reject(new Error('Failed to load generated layer image'));
+    image.src = objectUrl;
+  });
+}
+
+/**
+ * A layer for a Library asset. A single-frame asset is stamped into every
+ * cell; anything bigger than a frame is used as a sheet as-is.
+ */
+async function assetLayer(asset: LibraryAsset, type: LayerType, config: ProjectConfig): Promise<Layer> {
+  const { frameWidth, frameHeight } = config;
+  const base = {
+    id: crypto.randomUUID(),
+    name: asset.name,
+    type,
+    visible: true,
+    opacity: 100,
+    hsl: { hue: 0, saturation: 0, lightness: 0 },
+    fileName: `${asset.name}.png`,
+    offsetX: 0,
+    offsetY: 0,
+    sourceAssetId: asset.id,
+  };
+  if (asset.width > frameWidth || asset.height > frameHeight) {
+    return {
+      ...base,
+      image: asset.image,
+      objectUrl: asset.objectUrl,
+      inputLayout: { cols: Math.max(1, Math.floor(asset.width / frameWidth)), rows: Math.max(1, Math.floor(asset.height / frameHeight)) },
+    };
+  }
+  const { image, objectUrl } = await surfaceToImage(tileToSheet(asset.image, config, null, null, null));
+  return { ...base, image, objectUrl, inputLayout: { ...config.defaultInputLayout } };
+}
+
+/**
+ * The layer stack with a recipe applied: in each slot the chosen part is
+ * shown with the recipe's colour and the other candidates are hidden. Asset
+ * parts become layers on top of the stack (reused if already added). Parts
+ * that can't be found by id or name are reported in `missing`.
+ */
+export async function applyRecipe(
+  recipe: CharacterRecipe,
+  layers: Layer[],
+  library: LibraryAsset[],
+  config: ProjectConfig
+): Promise<{ layers: Layer[]; missing: string[] }> {
+  let result = [...layers];
+  const missing: string[] = [];
+
+  for (const part of recipe.parts) {
+    let chosen: Layer | undefined;
+    if (part.source === 'layer') {
+      const candidates = result.filter(l => l.type === part.slot && l.variant);
+      chosen = candidates.find(l => l.id === part.id) ?? candidates.find(l => l.name === part.name);
+    } else {
+      const asset = library.find(a => a.id === part.id) ?? library.find(a => a.name === part.name);
+      if (asset) {
+        chosen = result.find(l => l.sourceAssetId === asset.id);
+        if (!chosen) {
+          chosen = await assetLayer(asset, part.slot, config);
+          result = [...result, chosen];
+        }
+      }
+    }
+    if (!chosen) {
+      missing.push(`${part.slot}: ${part.name}`);
+      continue;
+    }
+
+    const chosenId = chosen.id;
+    result = result.map(l => {
+      if (l.type !== part.slot || !(l.variant || l.sourceAssetId)) return l;
+      if (l.id !== chosenId) return { ...l, visible: false };
+      return { ...l, visible: true, hsl: { ...part.hsl }, colorMode: 'hsl' };
+    });
+  }
+  return { layers: result, missing };
+}
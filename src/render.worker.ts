@@ -0,0 +1,73 @@
+/**
+ * Render worker — the other end of RenderPool.
+ *
+ * Recolours layers and renders full sheets on OffscreenCanvas (the surface
+ * factory's default inside a worker), with its own ColorShiftCache so a
+ * sheet re-render only recolours the layers that changed, and a
+ * SheetRenderer so it only redraws the cells that changed.
+ */
+
+import type { RenderRequest, RenderResponse } from './renderPool';
+import { ColorShiftCache } from './colorShift';
+import type { CompositeLayer } from './compositing';
+import { renderFullSheet, SheetRenderer } from './compositing';
+import { copySurface } from './surface';
+
+// Bitmaps by image key, least recently used first
+const MAX_IMAGES = 64;
+const images = new Map<number, ImageBitmap>();
+const cache = new ColorShiftCache();
+// The preview sheet is kept between jobs and only its changed cells redrawn
+const sheets = new SheetRenderer();
+
+function remember(key: number, bitmap: ImageBitmap) {
+  images.delete(key);
+  images.set(key, bitmap);
+  while (images.size > MAX_IMAGES) {
+    const [oldest, old] = images.entries().next().value!;
+    images.delete(oldest);
+    old.close();
+  }
+}
+
+function respond(res: RenderResponse, transfer: Transferable[] = []) {
+  self.postMessage(res, { transfer });
+}
+
+self.addEventListener('message', (e: MessageEvent<RenderRequest>) => {
+  const { id, job, bitmaps } = e.data;
+  for (const [key, bitmap] of Object.entries(bitmaps)) remember(Number(key), bitmap);
+
+  const keys = job.type === 'shift'
+    ? [job.image]
+    : job.layers.flatMap(l => (l.image === null ? [] : [l.image]));
+  const missing = keys.filter(k => !images.has(k));
+  if (missing.length) {
+    respond({ id, missing });
+    return;
+  }
+  keys.forEach(k => remember(k, images.get(k)!));
+
+  try {
+    if (job.type === 'shift') {
+      // Copy so the cached surface survives handing a bitmap back
+      const shifted = copySurface(cache.get(job.layerId, images.get(job.image)!, job.settings)) as OffscreenCanvas;
+      const bitmap = shifted.transferToImageBitmap();
+      respond({ id, bitmap }, [bitmap]);
+    } else {
+      const layers = job.layers.map((l): CompositeLayer => ({
+        ...l,
+        image: l.image === null ? null : images.get(l.image)!,
+        objectUrl: null,
+      }));
+      const sheet = job.animIndex === undefined
+        // Copy the kept sheet — transferring would blank it
+        ? copySurface(sheets.render(layers, job.config, cache))
+        : renderFullSheet(layers, job.config, cache, job.animIndex);
+      const bitmap = (sheet as OffscreenCanvas).transferToImageBitmap();
+      respond({ id, bitmap }, [bitmap]);
+    }
+  } catch (err) {
+    respond({ id, error: err instanceof Error ? err.message : String(err) });
+  }
+});
@@ -0,0 +1,196 @@
+/**
+ * Render worker pool
+ *
+ * Runs colour shifts and full-sheet renders in Web Workers (render.worker.ts)
+ * so dragging a slider on a big sheet doesn't block the page. Every job has a
+ * key — `shift:<layerId>` or `sheet` — and a new job with the same key
+ * replaces the old one: a queued job is dropped and a running job's result
+ * is thrown away. Replaced jobs resolve with null. Colour shifts go to
+ * whichever worker is free; sheet jobs always run on the first worker, whose
+ * SheetRenderer still holds the last sheet it drew.
+ *
+ * Layer images travel as ImageBitmaps. Each worker keeps the bitmaps it has
+ * seen; a job names its images by number and the worker asks for any it
+ * doesn't have, so unchanged layers aren't copied on every render.
+ */
+
+import type { Layer, ProjectConfig } from './types';
+import type { BackgroundShifter, ColorSettings } from './colorShift';
+import type { SurfaceSource } from './surface';
+
+/** A layer as the worker sees it: its image is a key into the worker's bitmap store. */
+export type WorkerLayer = Omit<Layer, 'image' | 'objectUrl'> & { image: number | null };
+
+export type RenderJob =
+  | { type: 'shift'; layerId: string; image: number; settings: ColorSettings }
+  | { type: 'sheet'; layers: WorkerLayer[]; config: ProjectConfig; animIndex?: number };
+
+export interface RenderRequest {
+  id: number;
+  job: RenderJob;
+  /** Bitmaps the worker asked for, by image key. */
+  bitmaps: Record<number, ImageBitmap>;
+}
+
+export type RenderResponse =
+  | { id: number; bitmap: ImageBitmap }
+  | { id: number; missing: number[] }
+  | { id: number; error: string };
+
+interface Task {
+  id: number;
+  key: string;
+  job: RenderJob;
+  images: Map<number, SurfaceSource>;
+  cancelled: boolean;
+  resolve: (bitmap: ImageBitmap | null) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task: Task | null;
+}
+
+const imageKeys = new WeakMap<object, number>();
+let nextImageKey = 1;
+
+function imageKey(img: SurfaceSource): number {
+  let key = imageKeys.get(img);
+  if (key === undefined) {
+    key = nextImageKey++;
+    imageKeys.set(img, key);
+  }
+  return key;
+}
+
+const bitmaps = new WeakMap<object, Promise<ImageBitmap>>();
+
+function bitmapFor(img: SurfaceSource): Promise<ImageBitmap> {
+  let bitmap = bitmaps.get(img);
+  if (!bitmap) {
+    bitmap = createImageBitmap(img);
+    bitmaps.set(img, bitmap);
+  }
+  return bitmap;
+}
+
+export class RenderPool implements BackgroundShifter {
+  private workers: PoolWorker[];
+  private queue: Task[] = [];
+  private latest = new Map<string, Task>();
+  private nextId = 1;
+
+  constructor(size = Math.max(1, Math.min(4, (navigator.hardwareConcurrency ?? 2) - 1))) {
+    this.workers = Array.from({ length: size }, () => {
+      const pw: PoolWorker = {
+        worker: new Worker(new URL('./render.worker.ts', import.meta.url), { type: 'module' }),
+        task: null,
+      };
+      pw.worker.onmessage = (e: MessageEvent<RenderResponse>) => this.onMessage(pw, e.data);
+      pw.worker.onerror = e => this.finish(pw, new Error(e.message || 'Render worker failed'));
+      return pw;
+    });
+  }
+
+  /** Whether this browser can run the pool (workers with OffscreenCanvas). */
+  static supported(): boolean {
+    return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+  }
+
+  shift(layerId: string, img: SurfaceSource, settings: ColorSettings): Promise<ImageBitmap | null> {
+    const image = imageKey(img);
+    const { hsl, colorMode, paletteMap } = settings;
+    return this.run(`shift:${layerId}`, { type: 'shift', layerId, image, settings: { hsl, colorMode, paletteMap } }, new Map([[image, img]]));
+  }
+
+  /** renderFullSheet in a worker. */
+  sheet(layers: Layer[], config: ProjectConfig, animIndex?: number): Promise<ImageBitmap | null> {
+    const images = new Map<number, SurfaceSource>();
+    const workerLayers = layers.map((layer): WorkerLayer => {
+      if (!layer.image) return { ...layer, image: null };
+      const key = imageKey(layer.image);
+      images.set(key, layer.image);
+      return { ...layer, image: key };
+    });
+    return this.run('sheet', { type: 'sheet', layers: workerLayers, config, animIndex }, images);
+  }
+
+  /** Stop the workers; every job still queued or running resolves with null. */
+  terminate() {
+    this.workers.forEach(pw => {
+      pw.worker.terminate();
+      pw.task = null;
+    });
+    // `latest` holds every job that hasn't settled yet
+    this.latest.forEach(task => {
+      task.cancelled = true;
+      task.resolve(null);
+    });
+    this.latest.clear();
+    this.queue = [];
+  }
+
+  private run(key: string, job: RenderJob, images: Map<number, SurfaceSource>): Promise<ImageBitmap | null> {
+    return new Promise((resolve, reject) => {
+      const stale = this.latest.get(key);
+      if (stale) {
+        stale.cancelled = true;
+        this.queue = this.queue.filter(t => t !== stale);
+        stale.resolve(null);
+      }
+      const task: Task = { id: this.nextId++, key, job, images, cancelled: false, resolve, reject };
+      this.latest.set(key, task);
+      this.queue.push(task);
+      this.pump();
+    });
+  }
+
+  private pump() {
+    this.workers.forEach((pw, i) => {
+      if (pw.task) return;
+      const next = this.queue.findIndex(t => t.job.type !== 'sheet' || i === 0);
+      if (next < 0) return;
+      const [task] = this.queue.splice(next, 1);
+      pw.task = task;
+      this.post(pw, task, {});
+    });
+  }
+
+  private post(pw: PoolWorker, task: Task, sent: Record<number, ImageBitmap>) {
+    const request: RenderRequest = { id: task.id, job: task.job, bitmaps: sent };
+    pw.worker.postMessage(request);
+  }
+
+  private onMessage(pw: PoolWorker, res: RenderResponse) {
+    const task = pw.task;
+    if (!task || task.id !== res.id) return;
+
+    if ('missing' in res) {
+      if (task.cancelled) { this.finish(pw, null); return; }
+      Promise.all(res.missing.map(async k => [k, await bitmapFor(task.images.get(k)!)] as const)).then(
+        pairs => this.post(pw, task, Object.fromEntries(pairs)),
+        e => this.finish(pw, e instanceof Error ? e : new Error(String(e)))
+      );
+      return;
+    }
+    if ('error' in res) this.finish(pw, new Error(res.error));
+    else this.finish(pw, res.bitmap);
+  }
+
+  private finish(pw: PoolWorker, result: ImageBitmap | Error | null) {
+    const task = pw.task;
+    pw.task = null;
+    if (task) {
+      if (this.latest.get(task.key) === task) this.latest.delete(task.key);
+      if (task.cancelled) {
+        if (result instanceof ImageBitmap) result.close();
+      } else if (result instanceof Error) {
+        task.reject(result);
+      } else {
+        task.resolve(result);
+      }
+    }
+    this.pump();
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * Colour-based selection and slicing for the Asset Splitter.
+ *
+ * Works on raw RGBA pixels. The selection tools return a per-pixel selection
+ * (1 = selected), which the splitter paints into its selection mask; auto
+ * slicing returns one box per sprite found on the sheet, and grid slicing
+ * maps a fixed grid with margin and spacing onto the sheet's cells.
+ */
+
+import type { RgbaBuffer } from './surface';
+
+/**
+ * Whether two pixels are within `tolerance` (0–255) on every channel.
+ * Fully transparent pixels all match each other whatever their RGB.
+ */
+function colorsMatch(data: Uint8ClampedArray, i: number, j: number, tolerance: number): boolean {
+  if (data[i + 3] === 0 && data[j + 3] === 0) return true;
+  return Math.abs(data[i] - data[j]) <= tolerance
+    && Math.abs(data[i + 1] - data[j + 1]) <= tolerance
+    && Math.abs(data[i + 2] - data[j + 2]) <= tolerance
+    && Math.abs(data[i + 3] - data[j + 3]) <= tolerance;
+}
+
+/**
+ * Magic wand: select the pixels whose colour is within `tolerance` of the
+ * pixel at (x, y). Contiguous mode grows a 4-connected region from the
+ * clicked pixel; otherwise every matching pixel in the image is selected.
+ */
+export function wandSelect(
+  pixels: RgbaBuffer,
+  x: number,
+  y: number,
+  tolerance: number,
+  contiguous: boolean
+): Uint8Array {
+  const { width, height, data } = pixels;
+  const selected = new Uint8Array(width * height);
+  if (x < 0 || y < 0 || x >= width || y >= height) return selected;
+  const seed = (y * width + x) * 4;
+
+  if (!contiguous) {
+    for (let i = 0; i < selected.length; i++) {
+      if (colorsMatch(data, seed, i * 4, tolerance)) selected[i] = 1;
+    }
+    return selected;
+  }
+
+  const visited = new Uint8Array(width * height);
+  const stack = [y * width + x];
+  while (stack.length) {
+    const i = stack.pop()!;
+    if (visited[i]) continue;
+    visited[i] = 1;
+    if (!colorsMatch(data, seed, i * 4, tolerance)) continue;
+    selected[i] = 1;
+    const cx = i % width;
+    if (cx > 0) stack.push(i - 1);
+    if (cx < width - 1) stack.push(i + 1);
+    if (i >= width) stack.push(i - width);
+    if (i < selected.length - width) stack.push(i + width);
+  }
+  return selected;
+}
+
+/** Select every pixel of exactly the colour at (x, y). */
+export function selectColor(pixels: RgbaBuffer, x: number, y: number): Uint8Array {
+  return wandSelect(pixels, x, y, 0, false);
+}
+
+// ─── Auto slice ───────────────────────────────────────────────────────────────
+
+/** A rectangle in image pixels. */
+export interface Box {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface IslandOptions {
+  /** Background colour for opaque sheets; null = islands are separated by transparency. */
+  background: [number, number, number] | null;
+  /** Max per-channel difference (0–255) for a pixel to count as background. */
+  tolerance: number;
+  /** Islands smaller than this on both sides are dropped as specks. */
+  minSize: number;
+  /** Islands this many pixels apart or closer are merged into one. */
+  mergeDistance: number;
+}
+
+/** Whether the pixel at byte offset i is transparent or the background colour. */
+function isBackground(data: Uint8ClampedArray, i: number, background: [number, number, number] | null, tolerance: number): boolean {
+  if (data[i + 3] === 0) return true;
+  return background !== null
+    && Math.abs(data[i] - background[0]) <= tolerance
+    && Math.abs(data[i + 1] - background[1]) <= tolerance
+    && Math.abs(data[i + 2] - background[2]) <= tolerance;
+}
+
+/** Gap between two boxes along the axis where they are furthest apart; 0 if they touch or overlap. */
+function boxGap(a: Box, b: Box): number {
+  const gx = Math.max(b.x - (a.x + a.w), a.x - (b.x + b.w), 0);
+  const gy = Math.max(b.y - (a.y + a.h), a.y - (b.y + b.h), 0);
+  return Math.max(gx, gy);
+}
+
+function unionBox(a: Box, b: Box): Box {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return { x, y, w: Math.max(a.x + a.w, b.x + b.w) - x, h: Math.max(a.y + a.h, b.y + b.h) - y };
+}
+
+/**
+ * Bounding boxes of the separate sprites on a loose sheet: 8-connected
+ * islands of non-background pixels, with nearby islands merged (so a sword
+ * and its detached glint stay together) and specks dropped. Returned in
+ * reading order — rows top to bottom, left to right within a row.
+ */
+export function findIslands(pixels: RgbaBuffer, options: IslandOptions): Box[] {
+  const { width, height, data } = pixels;
+  const { background, tolerance, minSize, mergeDistance } = options;
+  const visited = new Uint8Array(width * height);
+  let boxes: Box[] = [];
+
+  for (let start = 0; start < visited.length; start++) {
+    if (visited[start]) continue;
+    visited[start] = 1;
+    if (isBackground(data, start * 4, background, tolerance)) continue;
+
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+    const stack = [start];
+    while (stack.length) {
+      const i = stack.pop()!;
+      const x = i % width, y = (i - x) / width;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+      for (let ny = Math.max(0, y - 1); ny <= Math.min(height - 1, y + 1); ny++) {
+        for (let nx = Math.max(0, x - 1); nx <= Math.min(width - 1, x + 1); nx++) {
+          const n = ny * width + nx;
+          if (visited[n]) continue;
+          visited[n] = 1;
+          if (!isBackground(data, n * 4, background, tolerance)) stack.push(n);
+        }
+      }
+    }
+    boxes.push({ x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 });
+  }
+
+  // Merge until no two boxes are within mergeDistance of each other
+  for (let merged = true; merged;) {
+    merged = false;
+    const out: Box[] = [];
+    for (const box of boxes) {
+      const near = out.findIndex(o => boxGap(o, box) <= mergeDistance);
+      if (near < 0) {
+        out.push(box);
+      } else {
+        out[near] = unionBox(out[near], box);
+        merged = true;
+      }
+    }
+    boxes = out;
+  }
+
+  boxes = boxes.filter(b => b.w >= minSize || b.h >= minSize);
+
+  // Reading order: a box starts a new row once it begins below the current row's first box
+  boxes.sort((a, b) => a.y - b.y);
+  const rows: Box[][] = [];
+  for (const box of boxes) {
+    const row = rows[rows.length - 1];
+    if (row && box.y < row[0].y + row[0].h) row.push(box);
+    else rows.push([box]);
+  }
+  return rows.flatMap(row => row.sort((a, b) => a.x - b.x));
+}
+
+/** Make every pixel within `tolerance` of `key` transparent, in place. */
+export function clearColor(pixels: RgbaBuffer, key: [number, number, number], tolerance: number) {
+  const { data } = pixels;
+  for (let i = 0; i < data.length; i += 4) {
+    if (isBackground(data, i, key, tolerance)) data[i + 3] = 0;
+  }
+}
+
+/** Whether every pixel is fully opaque, as on old rips with a solid background instead of alpha. */
+export function isOpaque(pixels: RgbaBuffer): boolean {
+  const { data } = pixels;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return false;
+  }
+  return true;
+}
+
+// ─── Grid slicing ─────────────────────────────────────────────────────────────
+
+/** A fixed grid laid over a third-party sheet, in image pixels. */
+export interface SliceGrid {
+  cellWidth: number;
+  cellHeight: number;
+  /** Border around the whole sheet. */
+  margin: number;
+  /** Gap between neighbouring cells. */
+  spacing: number;
+  /** Extra shift of the grid's origin, e.g. past a title strip. */
+  offsetX: number;
+  offsetY: number;
+}
+
+/** How many whole cells of `grid` fit in a width×height image. */
+export function gridSize(grid: SliceGrid, width: number, height: number): { cols: number; rows: number } {
+  const fit = (size: number, start: number, cell: number) =>
+    cell > 0 ? Math.max(0, Math.floor((size - start - grid.margin + grid.spacing) / (cell + grid.spacing))) : 0;
+  return {
+    cols: fit(width, grid.margin + grid.offsetX, grid.cellWidth),
+    rows: fit(height, grid.margin + grid.offsetY, grid.cellHeight),
+  };
+}
+
+export function gridCell(grid: SliceGrid, col: number, row: number): Box {
+  return {
+    x: grid.margin + grid.offsetX + col * (grid.cellWidth + grid.spacing),
+    y: grid.margin + grid.offsetY + row * (grid.cellHeight + grid.spacing),
+    w: grid.cellWidth,
+    h: grid.cellHeight,
+  };
+}
+
+/** Whether every pixel of `box` is transparent; the part outside the image counts as empty. */
+export function boxIsEmpty(pixels: RgbaBuffer, box: Box): boolean {
+  const { width, height, data } = pixels;
+  for (let y = Math.max(0, box.y); y < Math.min(height, box.y + box.h); y++) {
+    for (let x = Math.max(0, box.x); x < Math.min(width, box.x + box.w); x++) {
+      if (data[(y * width + x) * 4 + 3] > 0) return false;
+    }
+  }
+  return true;
+}
+
+/** The cell under image pixel (x, y), or null for the margin, spacing or outside the grid. */
+export function gridCellAt(
+  grid: SliceGrid,
+  size: { cols: number; rows: number },
+  x: number,
+  y: number
+): { col: number; row: number } | null {
+  const u = x - grid.margin - grid.offsetX;
+  const v = y - grid.margin - grid.offsetY;
+  const col = Math.floor(u / (grid.cellWidth + grid.spacing));
+  const row = Math.floor(v / (grid.cellHeight + grid.spacing));
+  if (u < 0 || v < 0 || col >= size.cols || row >= size.rows) return null;
+  if (u - col * (grid.cellWidth + grid.spacing) >= grid.cellWidth) return null;
+  if (v - row * (grid.cellHeight + grid.spacing) >= grid.cellHeight) return null;
+  return { col, row };
+}
@@ -1,12 +1,13 @@
-import type { AppState, AppAction } from './types';
-import { DIRECTIONS_4 } from './types';
+import type { AppState, AppAction, FrameOffset, Layer, ProjectConfig } from './types';
+import { DEFAULT_ONION_SKIN, DIRECTIONS_4, DIRECTIONS_8, sameLayout, timelineIndex } from './types';
 
+const DEFAULT_ANIMATION_ID = crypto.randomUUID();
 
 export const initialState: AppState = {
   config: {
     frameWidth: 48,
     frameHeight: 48,
-    framesPerDirection: 10,
+    animations: [{ id: DEFAULT_ANIMATION_ID, name: 'walk', frameCount: 10 }],
     directions: 4,
     defaultInputLayout: { cols: 10, rows: 4 },
     exportLayout: { cols: 10, rows: 4 },
@@ -14,6 +15,7 @@ export const initialState: AppState = {
   layers: [],
   selectedLayerId: null,
   activeTab: 'composer',
+  previewAnimation: DEFAULT_ANIMATION_ID,
   previewDirection: 'down',
   previewFrame: 0,
   previewPlaying: false,
@@ -35,7 +37,11 @@ export const initialState: AppState = {
   },
   showConfig: false,
   frameOffsetMode: false,
+  pixelTool: null,
+  pixelColor: '#000000',
+  onionSkin: DEFAULT_ONION_SKIN,
   library: [],
+  palettes: [],
 };
 
 export function appReducer(state: AppState, action: AppAction): AppState {
@@ -43,20 +49,25 @@ export function appReducer(state: AppState, action: AppAction): AppState {
     case 'SET_CONFIG': {
       const oldDefault = state.config.defaultInputLayout;
       const newDefault = action.config.defaultInputLayout;
-      const defaultChanged =
-        oldDefault.cols !== newDefault.cols || oldDefault.rows !== newDefault.rows;
+      const defaultChanged = !sameLayout(oldDefault, newDefault);
 
       let layers = state.layers;
       if (action.resetLayerLayouts) {
         layers = layers.map(l => ({ ...l, inputLayout: { ...newDefault } }));
       } else if (defaultChanged) {
         layers = layers.map(l =>
-          l.inputLayout.cols === oldDefault.cols && l.inputLayout.rows === oldDefault.rows
+          sameLayout(l.inputLayout, oldDefault)
             ? { ...l, inputLayout: { ...newDefault } }
             : l
         );
       }
-      return { ...state, config: action.config, layers, showConfig: false };
+      if (
+        state.config.animations !== action.config.animations ||
+        state.config.directions !== action.config.directions
+      ) {
+        layers = layers.map(l => remapFrameOffsets(l, state.config, action.config));
+      }
+      return reconcilePreview({ ...state, config: action.config, layers, showConfig: false });
     }
 
     case 'ADD_LAYER':
@@ -66,6 +77,19 @@ export function appReducer(state: AppState, action: AppAction): AppState {
         selectedLayerId: action.layer.id,
       };
 
+    case 'IMPORT_LAYERS': {
+      if (action.layers.length === 0) return state;
+      const animations = state.config.animations.map(a =>
+        action.durations[a.id] ? { ...a, frameDurations: action.durations[a.id] } : a
+      );
+      return {
+        ...state,
+        config: { ...state.config, animations },
+        layers: [...state.layers, ...action.layers],
+        selectedLayerId: action.layers[action.layers.length - 1].id,
+      };
+    }
+
     case 'REMOVE_LAYER': {
       const layers = state.layers.filter(l => l.id !== action.id);
       const selectedLayerId =
@@ -91,12 +115,30 @@ export function appReducer(state: AppState, action: AppAction): AppState {
       return { ...state, layers };
     }
 
+    case 'SET_LAYERS': {
+      const selectedLayerId = action.layers.some(l => l.id === state.selectedLayerId) ? state.selectedLayerId : null;
+      return { ...state, layers: action.layers, selectedLayerId };
+    }
+
     case 'SELECT_LAYER':
       return { ...state, selectedLayerId: action.id, frameOffsetMode: false };
 
     case 'SET_TAB':
       return { ...state, activeTab: action.tab };
 
+    case 'SET_PREVIEW_ANIMATION':
+      return { ...state, previewAnimation: action.animationId, previewFrame: 0 };
+
+    case 'SET_FRAME_DURATIONS': {
+      const animations = state.config.animations.map(a => {
+        if (a.id !== action.animationId) return a;
+        const next = { ...a, frameDurations: action.durations };
+        if (!action.durations) delete next.frameDurations;
+        return next;
+      });
+      return { ...state, config: { ...state.config, animations } };
+    }
+
     case 'SET_PREVIEW_DIRECTION':
       return { ...state, previewDirection: action.direction, previewFrame: 0 };
 
@@ -131,15 +173,32 @@ export function appReducer(state: AppState, action: AppAction): AppState {
       return {
         ...state,
         frameOffsetMode: action.active,
+        pixelTool: action.active ? null : state.pixelTool,
         previewPlaying: action.active ? false : state.previewPlaying,
       };
 
+    // Pixel tools and frame offset mode both own canvas drags, so each turns the other off
+    case 'SET_PIXEL_TOOL':
+      return {
+        ...state,
+        pixelTool: action.tool,
+        frameOffsetMode: action.tool ? false : state.frameOffsetMode,
+        previewPlaying: action.tool ? false : state.previewPlaying,
+      };
+
+    case 'SET_PIXEL_COLOR':
+      return { ...state, pixelColor: action.color };
+
+    case 'SET_ONION_SKIN':
+      return { ...state, onionSkin: { ...state.onionSkin, ...action.updates } };
+
     case 'LOAD_PROJECT':
       return {
         ...state,
         config:           action.config,
         layers:           action.layers,
         selectedLayerId:  action.selectedLayerId,
+        previewAnimation: action.previewAnimation,
         previewDirection: action.previewDirection,
         previewFrame:     action.previewFrame,
         previewMode:      action.previewMode,
@@ -149,14 +208,19 @@ export function appReducer(state: AppState, action: AppAction): AppState {
         sheetZoom:        action.sheetZoom,
         activeTab:        action.activeTab,
         library:          action.library,
+        palettes:         action.palettes,
         previewPlaying:   false,
         frameOffsetMode:  false,
+        pixelTool:        null,
         showConfig:       false,
       };
 
     case 'ADD_LIBRARY_ASSET':
       return { ...state, library: [...state.library, action.asset] };
 
+    case 'ADD_LIBRARY_ASSETS':
+      return { ...state, library: [...state.library, ...action.assets] };
+
     case 'REMOVE_LIBRARY_ASSET':
       return { ...state, library: state.library.filter(a => a.id !== action.id) };
 
@@ -175,6 +239,12 @@ export function appReducer(state: AppState, action: AppAction): AppState {
       return { ...state, library: lib };
     }
 
+    case 'ADD_PALETTE':
+      return { ...state, palettes: [...state.palettes, action.palette] };
+
+    case 'REMOVE_PALETTE':
+      return { ...state, palettes: state.palettes.filter(p => p.id !== action.id) };
+
     case 'MERGE_LAYERS_DOWN': {
       // Replace layers[index] and layers[index-1] with mergedLayer at index-1
       const layers = [...state.layers];
@@ -191,13 +261,15 @@ export function appReducer(state: AppState, action: AppAction): AppState {
       // Clear project data; preserve config and zoom/UI prefs.
       return {
         ...initialState,
-        config:       state.config,
-        canvasZoom:   state.canvasZoom,
-        sheetZoom:    state.sheetZoom,
-        previewZoom:  state.previewZoom,
-        previewFps:   state.previewFps,
-        previewMode:  state.previewMode,
-        activeTab:    state.activeTab,
+        config:           state.config,
+        previewAnimation: state.config.animations[0].id,
+        canvasZoom:       state.canvasZoom,
+        sheetZoom:        state.sheetZoom,
+        previewZoom:      state.previewZoom,
+        previewFps:       state.previewFps,
+        previewMode:      state.previewMode,
+        activeTab:        state.activeTab,
+        onionSkin:        state.onionSkin,
       };
 
     default:
@@ -209,6 +281,69 @@ export function getDirectionRow(
   direction: string,
   directions: 4 | 8
 ): number {
-  const dirs = directions === 4 ? DIRECTIONS_4 : ['down', 'down-left', 'left', 'up-left', 'up', 'up-right', 'right', 'down-right'];
+  const dirs = directions === 4 ? DIRECTIONS_4 : DIRECTIONS_8;
   return dirs.indexOf(direction as never);
 }
+
+/**
+ * Keep the previewed animation + frame pointing at something that exists
+ * after the animation list changed (config edit, undo/redo).
+ */
+export function reconcilePreview(state: AppState): AppState {
+  const anim = state.config.animations.find(a => a.id === state.previewAnimation);
+  if (!anim) {
+    return { ...state, previewAnimation: state.config.animations[0].id, previewFrame: 0 };
+  }
+  if (state.previewFrame >= anim.frameCount) {
+    return { ...state, previewFrame: anim.frameCount - 1 };
+  }
+  return state;
+}
+
+/**
+ * Per-frame offsets are stored on the shared timeline, so reordering,
+ * resizing or removing animations shifts every later entry. Re-key them by
+ * animation id and direction name so each offset stays on the frame it was
+ * set for; directions that didn't exist before start at 0,0.
+ */
+function remapFrameOffsets(layer: Layer, from: ProjectConfig, to: ProjectConfig): Layer {
+  const old = layer.frameOffsets;
+  if (!old) return layer;
+  const fromDirs = from.directions === 4 ? DIRECTIONS_4 : DIRECTIONS_8;
+  const toDirs = to.directions === 4 ? DIRECTIONS_4 : DIRECTIONS_8;
+  const next: FrameOffset[][] = toDirs.map(dir => {
+    const prevRow = old[fromDirs.indexOf(dir)];
+    const row: FrameOffset[] = [];
+    to.animations.forEach((anim, a) => {
+      const prev = from.animations.findIndex(p => p.id === anim.id);
+      for (let f = 0; f < anim.frameCount; f++) {
+        const fof = prev >= 0 && f < from.animations[prev].frameCount
+          ? prevRow?.[timelineIndex(from, prev, f)]
+          : undefined;
+        row[timelineIndex(to, a, f)] = { x: fof?.x ?? 0, y: fof?.y ?? 0 };
+      }
+    });
+    return row;
+  });
+  return { ...layer, frameOffsets: next };
+}
+
+/** Index of the animation with `id`, falling back to the first animation. */
+export function getAnimationIndex(config: ProjectConfig, id: string): number {
+  const idx = config.animations.findIndex(a => a.id === id);
+  return idx < 0 ? 0 : idx;
+}
+
+/**
+ * Bring a config from an older save (or localStorage) up to date.
+ * Pre-animation configs had a single `framesPerDirection`; that becomes one
+ * animation so existing sheets keep the exact same cell positions.
+ */
+export function normalizeConfig(raw: ProjectConfig & { framesPerDirection?: number }): ProjectConfig {
+  const { framesPerDirection, ...config } = raw;
+  if (config.animations?.length) return config;
+  return {
+    ...config,
+    animations: [{ id: crypto.randomUUID(), name: 'walk', frameCount: framesPerDirection ?? 1 }],
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * Drawing surfaces for the rendering pipeline.
+ *
+ * compositing.ts and colorShift.ts never create canvases themselves — they
+ * ask createSurface(), which gives a <canvas> on the page and an
+ * OffscreenCanvas in a Worker. Other hosts (Node batch jobs, tests) plug in
+ * their own canvas implementation with setSurfaceFactory(). Per-pixel work
+ * (colour shifts, palette maps, trimming) runs on plain RGBA buffers and
+ * needs no surface at all.
+ */
+
+export type Surface = HTMLCanvasElement | OffscreenCanvas;
+export type Surface2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/** Anything a surface can draw from. */
+export type SurfaceSource = HTMLImageElement | HTMLCanvasElement | OffscreenCanvas | ImageBitmap;
+
+/** Straight (non-premultiplied) RGBA pixels, row-major — the same layout as ImageData. */
+export interface RgbaBuffer {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export type SurfaceFactory = (width: number, height: number) => Surface;
+
+function defaultFactory(width: number, height: number): Surface {
+  if (typeof document !== 'undefined') {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  }
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  throw new Error('No canvas implementation available — call setSurfaceFactory() before rendering');
+}
+
+let factory: SurfaceFactory = defaultFactory;
+
+/** Use `create` for every new surface; null restores the default. */
+export function setSurfaceFactory(create: SurfaceFactory | null): void {
+  factory = create ?? defaultFactory;
+}
+
+export function createSurface(width: number, height: number): Surface {
+  return factory(width, height);
+}
+
+export function context2d(surface: Surface): Surface2D {
+  // Both canvas kinds share this overload; the cast just picks one for TypeScript
+  const ctx = (surface as OffscreenCanvas).getContext('2d');
+  if (!ctx) throw new Error('2D canvas context unavailable');
+  return ctx;
+}
+
+/** Pixel size of a source; images report their natural size. */
+export function sourceSize(source: SurfaceSource): { width: number; height: number } {
+  return 'naturalWidth' in source
+    ? { width: source.naturalWidth, height: source.naturalHeight }
+    : { width: source.width, height: source.height };
+}
+
+/** A new surface holding a copy of `source`. */
+export function copySurface(source: SurfaceSource): Surface {
+  const { width, height } = sourceSize(source);
+  const surface = createSurface(width, height);
+  context2d(surface).drawImage(source, 0, 0);
+  return surface;
+}
+
+export function readPixels(surface: Surface): RgbaBuffer {
+  const { width, height } = surface;
+  if (width === 0 || height === 0) return { width, height, data: new Uint8ClampedArray(0) };
+  return { width, height, data: context2d(surface).getImageData(0, 0, width, height).data };
+}
+
+/** Overwrite a surface with `pixels`, which must be the surface's size. */
+export function writePixels(surface: Surface, pixels: RgbaBuffer): void {
+  if (pixels.width === 0 || pixels.height === 0) return;
+  const ctx = context2d(surface);
+  const imageData = ctx.createImageData(pixels.width, pixels.height);
+  imageData.data.set(pixels.data);
+  ctx.putImageData(imageData, 0, 0);
+}
+
+/** A new surface showing `pixels`. */
+export function surfaceFromPixels(pixels: RgbaBuffer): Surface {
+  const surface = createSurface(pixels.width, pixels.height);
+  writePixels(surface, pixels);
+  return surface;
+}
+
+/** Encode a surface as PNG. */
+export function surfaceToBlob(surface: Surface): Promise<Blob> {
+  if (!('toBlob' in surface)) return surface.convertToBlob({ type: 'image/png' });
+  return new Promise((resolve, reject) => {
+    surface.toBlob(blob => {
+      if (blob) resolve(blob);
+      else reject(new Error('Canvas toBlob failed'));
+    }, 'image/png');
+  });
+}
+
+/** PNG bytes of a surface, for zips and files outside the browser. */
+export async function surfaceToPng(surface: Surface): Promise<Uint8Array> {
+  return new Uint8Array(await (await surfaceToBlob(surface)).arrayBuffer());
+}
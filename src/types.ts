@@ -5,18 +5,112 @@ export const DIRECTIONS_8: Direction[] = ['down', 'down-left', 'left', 'up-left'
 
 export type LayerType = 'Base' | 'Hair' | 'Top' | 'Bottom' | 'Accessory' | 'Hat' | 'Weapon' | 'Custom';
 
+export const LAYER_TYPES: LayerType[] = ['Base', 'Hair', 'Top', 'Bottom', 'Accessory', 'Hat', 'Weapon', 'Custom'];
+
 export interface HSLAdjustment {
   hue: number;       // -180 to 180
   saturation: number; // -100 to 100
   lightness: number;  // -100 to 100
+  /** Only shift pixels inside this colour range. Absent = every opaque pixel. */
+  range?: HslRange;
+}
+
+/**
+ * Colour range a masked HSL shift applies to. Pixels inside get the full
+ * shift; `softness` fades it out over that many degrees (hue) or percent
+ * (saturation / lightness) beyond each edge.
+ */
+export interface HslRange {
+  hueCenter: number;   // 0-360
+  hueWidth: number;    // 0-360, total span centred on hueCenter
+  satMin: number;      // 0-100
+  satMax: number;      // 0-100
+  lightMin: number;    // 0-100
+  lightMax: number;    // 0-100
+  softness: number;    // 0-100
+}
+
+export const DEFAULT_HSL_RANGE: HslRange = {
+  hueCenter: 0,
+  hueWidth:  60,
+  satMin:    0,
+  satMax:    100,
+  lightMin:  0,
+  lightMax:  100,
+  softness:  15,
+};
+
+/**
+ * How a layer is recoloured: a uniform HSL shift of every pixel, or an exact
+ * colour-for-colour palette map.
+ */
+export type ColorMode = 'hsl' | 'palette';
+
+/**
+ * One source → target colour ramp. Colours are '#rrggbb', ordered dark to
+ * light; each source colour becomes the target colour at the same relative
+ * position along the ramp, so ramps of different lengths still line up.
+ */
+export interface PaletteRamp {
+  source: string[];
+  target: string[];
+}
+
+/** A named, reusable colour ramp saved with the project. */
+export interface Palette {
+  id: string;
+  name: string;
+  colors: string[];
+}
+
+/** A named HSL setting a variant candidate can be exported with. */
+export interface HslPreset {
+  id: string;
+  name: string;
+  hsl: HSLAdjustment;
+}
+
+/**
+ * Marks a layer as a candidate in the variant slot for its LayerType. Variant
+ * export draws exactly one candidate per slot, once per preset — or once with
+ * the layer's own colours when it has no presets.
+ */
+export interface VariantCandidate {
+  presets: HslPreset[];
 }
 
+/**
+ * How a layer combines with the layers beneath it. Each value except
+ * 'normal' is the canvas globalCompositeOperation of the same name.
+ */
+export type BlendMode = 'normal' | 'multiply' | 'screen' | 'overlay' | 'lighter' | 'color';
+
+export const BLEND_MODES: { value: BlendMode; label: string }[] = [
+  { value: 'normal',   label: 'Normal' },
+  { value: 'multiply', label: 'Multiply' },
+  { value: 'screen',   label: 'Screen' },
+  { value: 'overlay',  label: 'Overlay' },
+  { value: 'lighter',  label: 'Additive' },
+  { value: 'color',    label: 'Color' },
+];
+
 /**
  * Describes how frames are physically arranged in a sprite sheet PNG.
  */
 export interface SheetLayout {
   cols: number;
   rows: number;
+  /** Border around the whole sheet, in pixels. Absent = 0. */
+  margin?: number;
+  /** Gap between neighbouring cells, in pixels. Absent = 0. */
+  spacing?: number;
+  /**
+   * Cell size when it differs from the project's frame size. Absent = the
+   * frame size. Frames sit centred in their cells: bigger cells are cropped
+   * around the centre when read and padded when exported.
+   */
+  cellWidth?: number;
+  cellHeight?: number;
 }
 
 export interface Layer {
@@ -25,21 +119,82 @@ export interface Layer {
   type: LayerType;
   visible: boolean;
   opacity: number;    // 0-100
+  /** Absent = 'normal'. */
+  blendMode?: BlendMode;
+  /**
+   * Clip to the alpha of the nearest non-clipping layer below (its "base"),
+   * per frame, after both layers' offsets are applied.
+   */
+  clipToBelow?: boolean;
   hsl: HSLAdjustment;
+  /** Absent = 'hsl'. */
+  colorMode?: ColorMode;
+  /** Ramps used when colorMode is 'palette'. Kept when switching back to HSL. */
+  paletteMap?: PaletteRamp[];
   image: HTMLImageElement | null;
   objectUrl: string | null;
   fileName: string;
   offsetX: number;
   offsetY: number;
   inputLayout: SheetLayout;
-  frameOffsets?: Array<{ x: number; y: number }>;
+  /** Per-frame nudges, indexed `[directionRow][timelineIndex]`. */
+  frameOffsets?: FrameOffset[][];
+  /** Present = one of several interchangeable parts for this layer's type. */
+  variant?: VariantCandidate;
+  /** Library asset the randomizer built this layer from; it's reused rather than re-added. */
+  sourceAssetId?: string;
+}
+
+export interface FrameOffset {
+  x: number;
+  y: number;
+}
+
+/**
+ * One named animation (idle, walk, attack…). Every animation has a frame for
+ * each direction; in a sheet it occupies its own band of rows, starting on a
+ * fresh row after the previous animation.
+ */
+export interface Animation {
+  id: string;
+  name: string;
+  frameCount: number;
+  /** Milliseconds each frame is held for. Absent = every frame uses the preview FPS. */
+  frameDurations?: number[];
+}
+
+/**
+ * Which side of the sheet is authored when the other side is generated by
+ * flipping: 'right' draws left, up-left and down-left from their right-facing
+ * counterparts; 'left' does the opposite.
+ */
+export type MirrorSource = 'right' | 'left';
+
+/** Inclusive bounds for one randomized value. */
+export interface RandomRange {
+  min: number;
+  max: number;
+}
+
+/** Ranges the randomizer draws a slot's HSL shift from. */
+export interface HslRanges {
+  hue: RandomRange;
+  saturation: RandomRange;
+  lightness: RandomRange;
 }
 
 export interface ProjectConfig {
   frameWidth: number;
   frameHeight: number;
-  framesPerDirection: number;
+  animations: Animation[];
   directions: 4 | 8;
+  /** Absent = every direction is drawn from its own cells. */
+  mirrorSource?: MirrorSource;
+  /**
+   * Per-slot HSL ranges for the character randomizer. Kept with the project
+   * so the same seed reproduces the same character. Absent slots use defaults.
+   */
+  randomRanges?: Partial<Record<LayerType, HslRanges>>;
   defaultInputLayout: SheetLayout;
   exportLayout: SheetLayout;
 }
@@ -48,7 +203,38 @@ export type AppTab = 'composer' | 'splitter' | 'library';
 
 export type PlaybackMode = 'forward' | 'reverse' | 'pingpong';
 
-export type SplitterTool = 'box' | 'lasso';
+/** Pixel editing tools for the Composer's current-frame canvas. */
+export type PixelTool = 'pencil' | 'eraser' | 'fill' | 'eyedropper';
+
+/**
+ * Composer onion skinning: ghosts of neighbouring frames of the current
+ * direction drawn over the current-frame canvas. Preview only — never exported.
+ */
+export interface OnionSkin {
+  enabled: boolean;
+  /** How many previous / next frames to show. */
+  before: number;
+  after: number;
+  /** Opacity of the nearest ghost, 0–100; further frames fade out. */
+  opacity: number;
+  beforeColor: string;
+  afterColor: string;
+  /** Ghost only the selected layer instead of the whole stack. */
+  selectedOnly: boolean;
+}
+
+export const DEFAULT_ONION_SKIN: OnionSkin = {
+  enabled: false,
+  before: 1,
+  after: 1,
+  opacity: 40,
+  beforeColor: '#ef4444',
+  afterColor: '#22c55e',
+  selectedOnly: false,
+};
+
+/** 'wand' selects by colour similarity; 'color' selects every pixel of one exact colour. */
+export type SplitterTool = 'box' | 'lasso' | 'wand' | 'color';
 export type SelectionMode = 'replace' | 'add' | 'subtract';
 
 export interface SplitterState {
@@ -91,6 +277,7 @@ export interface AppState {
   layers: Layer[];
   selectedLayerId: string | null;
   activeTab: AppTab;
+  previewAnimation: string;   // Animation id
   previewDirection: Direction;
   previewFrame: number;
   previewPlaying: boolean;
@@ -102,7 +289,13 @@ export interface AppState {
   splitter: SplitterState;
   showConfig: boolean;
   frameOffsetMode: boolean;
+  /** Active pixel tool; null = dragging moves the layer as usual. */
+  pixelTool: PixelTool | null;
+  /** Pencil / fill colour, '#rrggbb'. */
+  pixelColor: string;
+  onionSkin: OnionSkin;
   library: LibraryAsset[];
+  palettes: Palette[];
 }
 
 export type AppAction =
@@ -112,8 +305,15 @@ export type AppAction =
   | { type: 'UPDATE_LAYER'; id: string; updates: Partial<Layer> }
   | { type: 'UPDATE_LAYER_TRANSIENT'; id: string; updates: Partial<Layer> }
   | { type: 'REORDER_LAYERS'; fromIndex: number; toIndex: number }
+  /** Replace the whole layer stack in one undo step (e.g. applying a random character). */
+  | { type: 'SET_LAYERS'; layers: Layer[] }
+  /** Add imported layers and their frame timings (keyed by animation id) in one undo step. */
+  | { type: 'IMPORT_LAYERS'; layers: Layer[]; durations: Record<string, number[]> }
   | { type: 'SELECT_LAYER'; id: string | null }
   | { type: 'SET_TAB'; tab: AppTab }
+  | { type: 'SET_PREVIEW_ANIMATION'; animationId: string }
+  /** Replace an animation's per-frame timings; undefined falls back to the preview FPS. */
+  | { type: 'SET_FRAME_DURATIONS'; animationId: string; durations: number[] | undefined }
   | { type: 'SET_PREVIEW_DIRECTION'; direction: Direction }
   | { type: 'SET_PREVIEW_FRAME'; frame: number }
   | { type: 'SET_PREVIEW_PLAYING'; playing: boolean }
@@ -125,15 +325,22 @@ export type AppAction =
   | { type: 'SET_SPLITTER'; updates: Partial<SplitterState> }
   | { type: 'TOGGLE_CONFIG' }
   | { type: 'SET_FRAME_OFFSET_MODE'; active: boolean }
+  | { type: 'SET_PIXEL_TOOL'; tool: PixelTool | null }
+  | { type: 'SET_PIXEL_COLOR'; color: string }
+  | { type: 'SET_ONION_SKIN'; updates: Partial<OnionSkin> }
   | { type: 'LOAD_PROJECT'; config: ProjectConfig; layers: Layer[];
-      selectedLayerId: string | null; previewDirection: Direction;
+      selectedLayerId: string | null; previewAnimation: string; previewDirection: Direction;
       previewFrame: number; previewMode: PlaybackMode; previewFps: number;
       previewZoom: number; canvasZoom: number; sheetZoom: number; activeTab: AppTab;
-      library: LibraryAsset[] }
+      library: LibraryAsset[]; palettes: Palette[] }
   | { type: 'ADD_LIBRARY_ASSET'; asset: LibraryAsset }
+  /** Add several assets in one undo step (e.g. every auto-sliced region). */
+  | { type: 'ADD_LIBRARY_ASSETS'; assets: LibraryAsset[] }
   | { type: 'REMOVE_LIBRARY_ASSET'; id: string }
   | { type: 'UPDATE_LIBRARY_ASSET'; id: string; updates: Partial<Pick<LibraryAsset, 'name' | 'tags'>> }
   | { type: 'REORDER_LIBRARY'; fromIndex: number; toIndex: number }
+  | { type: 'ADD_PALETTE'; palette: Palette }
+  | { type: 'REMOVE_PALETTE'; id: string }
   /** Merge the layer at `index` down into the layer at `index - 1`, replacing both with one flattened layer. */
   | { type: 'MERGE_LAYERS_DOWN'; index: number; mergedLayer: Layer }
   /** Reset the project to a blank slate (keeps config, clears layers + library + splitter). */
@@ -141,22 +348,195 @@ export type AppAction =
   /** Push current state to undo stack without modifying present (used before drag/slider interactions). */
   | { type: 'SNAPSHOT' };
 
-/** Total logical frames in a project */
+/** Total logical frames in a project (every animation × every direction) */
 export function totalFrames(config: ProjectConfig): number {
-  return config.directions * config.framesPerDirection;
+  return config.directions * timelineLength(config);
+}
+
+/**
+ * Frames per direction summed over all animations. This is the length of
+ * each direction's row in a layer's `frameOffsets` — one entry per frame on
+ * the shared timeline.
+ */
+export function timelineLength(config: ProjectConfig): number {
+  return config.animations.reduce((sum, a) => sum + a.frameCount, 0);
+}
+
+/** How long frame `frameIndex` of `anim` is shown, in ms. */
+export function frameDuration(anim: Animation, frameIndex: number, fps: number): number {
+  return anim.frameDurations?.[frameIndex] ?? Math.round(1000 / fps);
+}
+
+/** Every frame's duration for `anim`, with the FPS fallback filled in. */
+export function frameDurations(anim: Animation, fps: number): number[] {
+  return Array.from({ length: anim.frameCount }, (_, f) => frameDuration(anim, f, fps));
+}
+
+/**
+ * A complete directions × timeline grid of frame offsets, copied from
+ * `offsets` and padded with 0,0 wherever it has no entry.
+ */
+export function filledFrameOffsets(config: ProjectConfig, offsets: FrameOffset[][] | undefined): FrameOffset[][] {
+  const length = timelineLength(config);
+  return Array.from({ length: config.directions }, (_, d) =>
+    Array.from({ length }, (_, t) => ({ x: offsets?.[d]?.[t]?.x ?? 0, y: offsets?.[d]?.[t]?.y ?? 0 }))
+  );
+}
+
+/** True if any frame of any direction has a non-zero offset. */
+export function hasFrameOffsets(offsets: FrameOffset[][] | undefined): boolean {
+  return !!offsets?.some(row => row?.some(o => o && (o.x !== 0 || o.y !== 0)));
+}
+
+/**
+ * Direction row that `directionRow` is flipped from under the project's
+ * mirror setting, or null if it's drawn from its own cells.
+ */
+export function mirroredFrom(config: ProjectConfig, directionRow: number): number | null {
+  if (!config.mirrorSource) return null;
+  const dirs = config.directions === 4 ? DIRECTIONS_4 : DIRECTIONS_8;
+  const generated = config.mirrorSource === 'right' ? 'left' : 'right';
+  const dir = dirs[directionRow];
+  if (!dir?.includes(generated)) return null;
+  return dirs.indexOf(dir.replace(generated, config.mirrorSource) as Direction);
+}
+
+/** Position of (animIndex, frameIndex) on the shared per-direction timeline. */
+export function timelineIndex(config: ProjectConfig, animIndex: number, frameIndex: number): number {
+  let base = 0;
+  for (let a = 0; a < animIndex; a++) base += config.animations[a].frameCount;
+  return base + frameIndex;
+}
+
+/** Number of sheet rows one animation occupies in a layout with `cols` columns. */
+export function animationRows(config: ProjectConfig, animIndex: number, cols: number): number {
+  return Math.ceil((config.directions * config.animations[animIndex].frameCount) / cols);
+}
+
+/** Rows a layout needs to hold every animation band. */
+export function rowsNeeded(config: ProjectConfig, cols: number): number {
+  let rows = 0;
+  for (let a = 0; a < config.animations.length; a++) rows += animationRows(config, a, cols);
+  return rows;
+}
+
+/**
+ * Grid cell for one frame. Within an animation's band frames are packed
+ * direction by direction, left to right, wrapping at `layout.cols`.
+ */
+export function frameCell(
+  config: ProjectConfig,
+  layout: SheetLayout,
+  animIndex: number,
+  directionRow: number,
+  frameIndex: number
+): { col: number; row: number } {
+  let startRow = 0;
+  for (let a = 0; a < animIndex; a++) startRow += animationRows(config, a, layout.cols);
+  const n = directionRow * config.animations[animIndex].frameCount + frameIndex;
+  return { col: n % layout.cols, row: startRow + Math.floor(n / layout.cols) };
+}
+
+/** Pixel size of one cell of `layout`. */
+export function layoutCellSize(config: ProjectConfig, layout: SheetLayout): { w: number; h: number } {
+  return { w: layout.cellWidth ?? config.frameWidth, h: layout.cellHeight ?? config.frameHeight };
+}
+
+/** Top-left pixel of grid cell (col, row), past the margin and spacing. */
+export function cellOrigin(config: ProjectConfig, layout: SheetLayout, col: number, row: number): { x: number; y: number } {
+  const { w, h } = layoutCellSize(config, layout);
+  const margin = layout.margin ?? 0;
+  const spacing = layout.spacing ?? 0;
+  return { x: margin + col * (w + spacing), y: margin + row * (h + spacing) };
+}
+
+/** Pixel size of a sheet in `layout` — `rows` overrides the layout's row count. */
+export function sheetSize(config: ProjectConfig, layout: SheetLayout, rows = layout.rows): { width: number; height: number } {
+  const { w, h } = layoutCellSize(config, layout);
+  const margin = layout.margin ?? 0;
+  const spacing = layout.spacing ?? 0;
+  return {
+    width: 2 * margin + layout.cols * w + Math.max(0, layout.cols - 1) * spacing,
+    height: 2 * margin + rows * h + Math.max(0, rows - 1) * spacing,
+  };
+}
+
+/** The grid cell under sheet pixel (x, y), or null for the margin, spacing or outside. */
+export function cellAt(config: ProjectConfig, layout: SheetLayout, x: number, y: number): { col: number; row: number } | null {
+  const { w, h } = layoutCellSize(config, layout);
+  const spacing = layout.spacing ?? 0;
+  const u = x - (layout.margin ?? 0);
+  const v = y - (layout.margin ?? 0);
+  const col = Math.floor(u / (w + spacing));
+  const row = Math.floor(v / (h + spacing));
+  if (u < 0 || v < 0 || col >= layout.cols || row >= layout.rows) return null;
+  if (u - col * (w + spacing) >= w || v - row * (h + spacing) >= h) return null;
+  return { col, row };
+}
+
+/** Same grid, margin, spacing and cell size. */
+export function sameLayout(a: SheetLayout, b: SheetLayout): boolean {
+  return a.cols === b.cols && a.rows === b.rows
+    && (a.margin ?? 0) === (b.margin ?? 0) && (a.spacing ?? 0) === (b.spacing ?? 0)
+    && a.cellWidth === b.cellWidth && a.cellHeight === b.cellHeight;
+}
+
+/**
+ * Where a frame lives on a sheet: the sw×sh rect at (sx, sy) holds the part
+ * of the frame at (dx, dy). With cells the size of a frame that is the whole
+ * cell at (0, 0); otherwise it's where the frame, centred in its cell,
+ * overlaps the cell.
+ */
+export interface FrameRect {
+  sx: number;
+  sy: number;
+  sw: number;
+  sh: number;
+  dx: number;
+  dy: number;
 }
 
 export function frameRect(
-  n: number,
+  config: ProjectConfig,
   layout: SheetLayout,
-  frameWidth: number,
-  frameHeight: number
-): { sx: number; sy: number } {
-  const col = n % layout.cols;
-  const row = Math.floor(n / layout.cols);
-  return { sx: col * frameWidth, sy: row * frameHeight };
+  animIndex: number,
+  directionRow: number,
+  frameIndex: number
+): FrameRect {
+  const { col, row } = frameCell(config, layout, animIndex, directionRow, frameIndex);
+  const { x, y } = cellOrigin(config, layout, col, row);
+  const { w, h } = layoutCellSize(config, layout);
+  // Frame's position inside the cell — negative when the cell is smaller
+  const ox = Math.floor((w - config.frameWidth) / 2);
+  const oy = Math.floor((h - config.frameHeight) / 2);
+  return {
+    sx: x + Math.max(0, ox),
+    sy: y + Math.max(0, oy),
+    sw: Math.min(w, config.frameWidth),
+    sh: Math.min(h, config.frameHeight),
+    dx: Math.max(0, -ox),
+    dy: Math.max(0, -oy),
+  };
 }
 
-export function flatIndex(directionRow: number, frameIndex: number, framesPerDirection: number): number {
-  return directionRow * framesPerDirection + frameIndex;
+/** Reverse of frameCell — which frame lives at (col, row), or null for an empty cell. */
+export function cellToFrame(
+  config: ProjectConfig,
+  layout: SheetLayout,
+  col: number,
+  row: number
+): { animIndex: number; directionRow: number; frameIndex: number } | null {
+  if (col < 0 || col >= layout.cols || row < 0) return null;
+  let startRow = 0;
+  for (let a = 0; a < config.animations.length; a++) {
+    const bandRows = animationRows(config, a, layout.cols);
+    if (row < startRow + bandRows) {
+      const n = (row - startRow) * layout.cols + col;
+      const { frameCount } = config.animations[a];
+      if (n >= config.directions * frameCount) return null;
+      return { animIndex: a, directionRow: Math.floor(n / frameCount), frameIndex: n % frameCount };
+    }
+    startRow += bandRows;
+  }
+  return null;
 }
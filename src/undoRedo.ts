@@ -6,13 +6,15 @@
  * decides *which* actions push a snapshot onto the undo stack.
  *
  * Stack entries contain only the undoable slice of AppState
- * (config + layers + selectedLayerId + library), keeping memory use low.
+ * (config + layers + selectedLayerId + library + palettes), keeping memory use low.
+ * The config slice includes the project's animation list, so adding,
+ * removing or resizing animations is undoable like any other config edit.
  * Non-undoable state (zoom, playback, splitter, etc.) is never
  * snapshotted and is unaffected by undo/redo.
  */
 
 import type { AppState, AppAction } from './types';
-import { appReducer } from './state';
+import { appReducer, reconcilePreview } from './state';
 
 // ─── Undoable snapshot ────────────────────────────────────────────────────────
 
@@ -25,6 +27,7 @@ interface Snapshot {
   layers:          AppState['layers'];
   selectedLayerId: AppState['selectedLayerId'];
   library:         AppState['library'];
+  palettes:        AppState['palettes'];
 }
 
 function snapshot(s: AppState): Snapshot {
@@ -33,17 +36,21 @@ function snapshot(s: AppState): Snapshot {
     layers:          s.layers,
     selectedLayerId: s.selectedLayerId,
     library:         s.library,
+    palettes:        s.palettes,
   };
 }
 
 function applySnapshot(present: AppState, snap: Snapshot): AppState {
-  return {
+  // The previewed animation is UI state, but it must still exist after the
+  // config is swapped back — reconcilePreview falls back if it was removed.
+  return reconcilePreview({
     ...present,
     config:          snap.config,
     layers:          snap.layers,
     selectedLayerId: snap.selectedLayerId,
     library:         snap.library,
-  };
+    palettes:        snap.palettes,
+  });
 }
 
 // ─── Which actions push to the undo stack ────────────────────────────────────
@@ -55,16 +62,22 @@ function applySnapshot(present: AppState, snap: Snapshot): AppState {
  */
 const UNDOABLE: ReadonlySet<AppAction['type']> = new Set([
   'SET_CONFIG',
+  'SET_FRAME_DURATIONS',
   'ADD_LAYER',
   'REMOVE_LAYER',
   'UPDATE_LAYER',        // committed changes (pointer up, blur, button clicks)
   'REORDER_LAYERS',
+  'SET_LAYERS',
+  'IMPORT_LAYERS',
   'MERGE_LAYERS_DOWN',
   // UPDATE_LAYER_TRANSIENT is intentionally excluded — slider drag feedback only
   'ADD_LIBRARY_ASSET',
+  'ADD_LIBRARY_ASSETS',
   'REMOVE_LIBRARY_ASSET',
   'UPDATE_LIBRARY_ASSET',
   'REORDER_LIBRARY',
+  'ADD_PALETTE',
+  'REMOVE_PALETTE',
 ]);
 
 // Maximum number of undo steps kept in memory.
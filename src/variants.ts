@@ -0,0 +1,101 @@
+/**
+ * Character variant sets. Layers flagged as variant candidates are grouped
+ * into one slot per LayerType; a combination picks one option (candidate +
+ * HSL preset) per slot. Everything else in the stack is drawn as usual.
+ */
+
+import type { HslPreset, Layer, LayerType } from './types';
+import { seededRandom } from './random';
+
+/** One choice for a slot: a candidate layer, optionally recoloured by a preset. */
+export interface VariantOption {
+  layer: Layer;
+  preset: HslPreset | null;
+}
+
+export interface VariantSlot {
+  type: LayerType;
+  options: VariantOption[];
+}
+
+/** A combination: the chosen option index for each slot, in slot order. */
+export type Combination = number[];
+
+/** Slots in the order their first candidate appears, bottom to top. */
+export function variantSlots(layers: Layer[]): VariantSlot[] {
+  const slots = new Map<LayerType, VariantSlot>();
+  for (const layer of layers) {
+    if (!layer.variant || !layer.image) continue;
+    let slot = slots.get(layer.type);
+    if (!slot) {
+      slot = { type: layer.type, options: [] };
+      slots.set(layer.type, slot);
+    }
+    const { presets } = layer.variant;
+    if (presets.length === 0) slot.options.push({ layer, preset: null });
+    for (const preset of presets) slot.options.push({ layer, preset });
+  }
+  return [...slots.values()];
+}
+
+export function combinationCount(slots: VariantSlot[]): number {
+  return slots.reduce((n, s) => n * s.options.length, 1);
+}
+
+/** The `index`-th combination, counting with the last slot changing fastest. */
+export function combinationAt(slots: VariantSlot[], index: number): Combination {
+  const choice: Combination = new Array(slots.length);
+  for (let s = slots.length - 1; s >= 0; s--) {
+    const n = slots[s].options.length;
+    choice[s] = index % n;
+    index = Math.floor(index / n);
+  }
+  return choice;
+}
+
+/** Every combination, in order. */
+export function allCombinations(slots: VariantSlot[]): Combination[] {
+  return Array.from({ length: combinationCount(slots) }, (_, i) => combinationAt(slots, i));
+}
+
+/**
+ * Up to `count` distinct combinations drawn at random from `seed` — the same
+ * seed always gives the same sample — returned in enumeration order.
+ */
+export function sampleCombinations(slots: VariantSlot[], count: number, seed: string): Combination[] {
+  const total = combinationCount(slots);
+  if (count >= total) return allCombinations(slots);
+  const random = seededRandom(seed);
+  const picked = new Set<number>();
+  while (picked.size < count) picked.add(Math.floor(random() * total));
+  return [...picked].sort((a, b) => a - b).map(i => combinationAt(slots, i));
+}
+
+/**
+ * The layer stack for a combination. Chosen candidates are shown with their
+ * preset applied; the other candidates are hidden, which also hides anything
+ * clipped to them. Recoloured copies get their own ids so a colour cache can
+ * hold every preset at once.
+ */
+export function combinationLayers(layers: Layer[], slots: VariantSlot[], choice: Combination): Layer[] {
+  const chosen = new Map<string, HslPreset | null>();
+  slots.forEach((slot, s) => {
+    const { layer, preset } = slot.options[choice[s]];
+    chosen.set(layer.id, preset);
+  });
+  return layers.map(layer => {
+    if (!layer.variant) return layer;
+    if (!chosen.has(layer.id)) return { ...layer, visible: false };
+    const preset = chosen.get(layer.id);
+    if (!preset) return { ...layer, visible: true };
+    return { ...layer, id: `${layer.id}/${preset.id}`, visible: true, hsl: preset.hsl, colorMode: 'hsl' };
+  });
+}
+
+/** Manifest entry describing which parts went into a combination. */
+export function combinationParts(slots: VariantSlot[], choice: Combination) {
+  return slots.map((slot, s) => {
+    const { layer, preset } = slot.options[choice[s]];
+    return { slot: slot.type, layer: layer.name, preset: preset?.name ?? null };
+  });
+}
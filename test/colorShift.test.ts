@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { applyHslShift } from '../src/colorShift';
+import { DEFAULT_HSL_RANGE } from '../src/types';
+import { BLUE, CLEAR, GREEN, RED, expected, paint, pixels } from './fixtures';
+
+describe('applyHslShift', () => {
+  const source = paint(3, 1, [[0, 0, 1, 1, RED], [1, 0, 1, 1, BLUE]]);
+
+  it('rotates hues', () => {
+    const out = applyHslShift(source, { hue: 120, saturation: 0, lightness: 0 });
+    expect(pixels(out)).toEqual(expected(3, 1, [[0, 0, 1, 1, GREEN], [1, 0, 1, 1, RED]]));
+  });
+
+  it('shifts lightness and leaves transparent pixels alone', () => {
+    const out = applyHslShift(source, { hue: 0, saturation: 0, lightness: 100 });
+    expect(pixels(out)).toEqual(expected(3, 1, [[0, 0, 2, 1, [255, 255, 255, 255]], [2, 0, 1, 1, CLEAR]]));
+  });
+
+  it('only shifts colours inside the hue range', () => {
+    const out = applyHslShift(source, { hue: 120, saturation: 0, lightness: 0, range: { ...DEFAULT_HSL_RANGE, softness: 0 } });
+    expect(pixels(out)).toEqual(expected(3, 1, [[0, 0, 1, 1, GREEN], [1, 0, 1, 1, BLUE]]));
+  });
+
+  it('returns an unchanged copy when nothing shifts', () => {
+    const out = applyHslShift(source, { hue: 0, saturation: 0, lightness: 0 });
+    expect(out).not.toBe(source);
+    expect(pixels(out)).toEqual(pixels(source));
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import { ColorShiftCache } from '../src/colorShift';
+import { SheetRenderer, compositeFrame, packCells, renderFullSheet, tileToSheet, trimTransparent } from '../src/compositing';
+import { createSurface } from '../src/surface';
+import type { Fill } from './fixtures';
+import { BLUE, CLEAR, GREEN, RED, expected, makeConfig, makeLayer, paint, pixelAt, pixels } from './fixtures';
+
+// Default fixture sheets are 2×4 cells of 4×4: frame f of direction d sits at (4f, 4d)
+
+function frame(layers: Parameters<typeof compositeFrame>[1], config = makeConfig(), dirRow = 0, frameIndex = 0) {
+  const out = createSurface(config.frameWidth, config.frameHeight);
+  compositeFrame(out, layers, config, 0, dirRow, frameIndex, new ColorShiftCache());
+  return out;
+}
+
+describe('compositeFrame', () => {
+  it("reads each layer's frame from its own input layout", () => {
+    const config = makeConfig();
+    // Direction 1, frame 1: cell (1, 1) of a 2×4 sheet, cell 3 of an 8×1 strip
+    const grid = makeLayer(paint(8, 16, [[4, 4, 2, 2, RED]]), config);
+    const strip = makeLayer(paint(32, 4, [[15, 3, 1, 1, BLUE]]), config, { inputLayout: { cols: 8, rows: 1 } });
+    expect(pixels(frame([grid, strip], config, 1, 1))).toEqual(expected(4, 4, [[0, 0, 2, 2, RED], [3, 3, 1, 1, BLUE]]));
+  });
+
+  it('moves layers by their offset plus the per-frame offset', () => {
+    const config = makeConfig();
+    const layer = makeLayer(paint(8, 16, [[4, 0, 1, 1, RED]]), config, {
+      offsetX: 1,
+      frameOffsets: [[{ x: 0, y: 0 }, { x: 1, y: 2 }]],
+    });
+    expect(pixels(frame([layer], config, 0, 1))).toEqual(expected(4, 4, [[2, 2, 1, 1, RED]]));
+  });
+
+  it('draws layers bottom to top with their blend modes', () => {
+    const config = makeConfig();
+    const base = makeLayer(paint(8, 16, [[0, 0, 4, 4, [255, 128, 0, 255]]]), config);
+    const over = makeLayer(paint(8, 16, [[0, 0, 2, 4, GREEN]]), config);
+    const multiply = makeLayer(paint(8, 16, [[2, 0, 2, 4, [0, 255, 255, 255]]]), config, { blendMode: 'multiply' });
+    expect(pixels(frame([base, over, multiply], config))).toEqual(expected(4, 4, [
+      [0, 0, 2, 4, GREEN],
+      [2, 0, 2, 4, [0, 128, 0, 255]],
+    ]));
+  });
+
+  it('flips generated directions from the cells they mirror', () => {
+    // Left (row 1) is drawn from right (row 2)
+    const config = makeConfig({ mirrorSource: 'right' });
+    const layer = makeLayer(paint(8, 16, [[0, 8, 1, 2, RED], [0, 4, 4, 4, BLUE]]), config);
+    expect(pixels(frame([layer], config, 1, 0))).toEqual(expected(4, 4, [[3, 0, 1, 2, RED]]));
+  });
+});
+
+describe('renderFullSheet', () => {
+  // One colour per frame, in the top-left pixel of its input cell
+  const colours: Fill[] = [0, 1, 2, 3, 4, 5, 6, 7].map(n => [(n % 2) * 4, Math.floor(n / 2) * 4, 1, 1, [n * 30, 255 - n * 30, 0, 255]]);
+
+  it('moves every frame to its cell of the export layout', () => {
+    const config = makeConfig({ exportLayout: { cols: 8, rows: 1 } });
+    const layer = makeLayer(paint(8, 16, colours), config);
+    const sheet = renderFullSheet([layer], config, new ColorShiftCache());
+    expect([sheet.width, sheet.height]).toEqual([32, 4]);
+    expect(pixels(sheet)).toEqual(expected(32, 4, colours.map(([x, y, w, h, c]) => [(y / 4 * 2 + x / 4) * 4, 0, w, h, c] as Fill)));
+  });
+
+  it('honours the export margin and spacing', () => {
+    const config = makeConfig({ exportLayout: { cols: 2, rows: 4, margin: 1, spacing: 2 } });
+    const layer = makeLayer(paint(8, 16, colours), config);
+    const sheet = renderFullSheet([layer], config, new ColorShiftCache());
+    expect([sheet.width, sheet.height]).toEqual([12, 24]);
+    expect(pixels(sheet)).toEqual(expected(12, 24, colours.map(([x, y, w, h, c]) => [1 + x / 4 * 6, 1 + y / 4 * 6, w, h, c] as Fill)));
+  });
+
+  it('lets offsets spill into the neighbouring cell', () => {
+    const config = makeConfig();
+    const layer = makeLayer(paint(8, 16, [[0, 0, 4, 4, RED]]), config, { offsetX: 2 });
+    const sheet = renderFullSheet([layer], config, new ColorShiftCache());
+    expect(pixelAt(sheet, 1, 0)).toEqual(CLEAR);
+    expect(pixelAt(sheet, 5, 0)).toEqual(RED);
+    expect(pixelAt(sheet, 6, 0)).toEqual(CLEAR);
+  });
+
+  it("renders one animation's band on its own sheet", () => {
+    const config = makeConfig({
+      animations: [{ id: 'walk', name: 'walk', frameCount: 2 }, { id: 'idle', name: 'idle', frameCount: 1 }],
+      defaultInputLayout: { cols: 2, rows: 6 },
+      exportLayout: { cols: 2, rows: 6 },
+    });
+    // Idle's four frames fill rows 4–5 of the input sheet
+    const layer = makeLayer(paint(8, 24, [[0, 16, 1, 1, RED], [4, 20, 1, 1, BLUE]]), config);
+    const sheet = renderFullSheet([layer], config, new ColorShiftCache(), 1);
+    expect(pixels(sheet)).toEqual(expected(8, 8, [[0, 0, 1, 1, RED], [4, 4, 1, 1, BLUE]]));
+  });
+});
+
+describe('SheetRenderer', () => {
+  it('matches renderFullSheet after each incremental edit', () => {
+    // Left (row 1) is drawn from right (row 2)
+    const config = makeConfig({ mirrorSource: 'right' });
+    const body = makeLayer(paint(8, 16, [[0, 0, 4, 4, RED], [4, 8, 3, 2, RED]]), config, { offsetX: 1 });
+    const cape = makeLayer(paint(8, 16, [[4, 0, 2, 2, BLUE], [0, 12, 4, 1, GREEN]]), config, { offsetY: -1 });
+    const cache = new ColorShiftCache();
+    const renderer = new SheetRenderer();
+    const check = (layers: typeof body[]) =>
+      expect(pixels(renderer.render(layers, config, cache))).toEqual(pixels(renderFullSheet(layers, config, cache)));
+
+    let layers = [body, cape];
+    check(layers);
+
+    // Push direction 0, frame 0 further into frame 1's cell
+    layers = [{ ...body, frameOffsets: [[{ x: 2, y: 0 }]] }, cape];
+    check(layers);
+
+    layers = [layers[0], { ...cape, hsl: { hue: 120, saturation: 0, lightness: 0 } }];
+    check(layers);
+
+    layers = [{ ...layers[0], visible: false }, layers[1]];
+    check(layers);
+    layers = [{ ...layers[0], visible: true }, layers[1]];
+    check(layers);
+  });
+});
+
+describe('tileToSheet', () => {
+  const stamp = paint(4, 4, [[0, 0, 1, 1, RED]]);
+
+  it('stamps the frame into the chosen cells only', () => {
+    const sheet = tileToSheet(stamp, makeConfig(), null, [1], null);
+    expect(pixels(sheet)).toEqual(expected(8, 16, [[0, 4, 1, 1, RED], [4, 4, 1, 1, RED]]));
+  });
+
+  it('bakes in the layer offset and per-frame offsets', () => {
+    const sheet = tileToSheet(stamp, makeConfig(), null, [1], [1], 1, 0, [[], [{ x: 0, y: 0 }, { x: 0, y: 2 }]]);
+    expect(pixels(sheet)).toEqual(expected(8, 16, [[5, 6, 1, 1, RED]]));
+  });
+});
+
+describe('packCells', () => {
+  it('places cells one per frame in timeline order', () => {
+    // Three 4×4 cells one pixel apart, each marked in its top-left pixel
+    const source = paint(14, 4, [[0, 0, 1, 1, RED], [5, 0, 1, 1, GREEN], [10, 0, 1, 1, BLUE]]);
+    const cells = [0, 5, 10].map(x => ({ x, y: 0, w: 4, h: 4 }));
+    expect(pixels(packCells(source, cells, makeConfig()))).toEqual(expected(8, 16, [
+      [0, 0, 1, 1, RED], [4, 0, 1, 1, GREEN], [0, 4, 1, 1, BLUE],
+    ]));
+  });
+
+  it('crops cells larger than a frame', () => {
+    const source = paint(6, 6, [[0, 0, 6, 6, RED]]);
+    expect(pixels(packCells(source, [{ x: 0, y: 0, w: 6, h: 6 }], makeConfig()))).toEqual(expected(8, 16, [[0, 0, 4, 4, RED]]));
+  });
+
+  it('keeps the middle of each frame when the layout has smaller cells', () => {
+    const config = makeConfig({ defaultInputLayout: { cols: 2, rows: 4, cellWidth: 2, cellHeight: 4 } });
+    const source = paint(4, 4, [[0, 0, 1, 4, RED], [1, 0, 1, 4, GREEN], [2, 0, 1, 4, BLUE], [3, 0, 1, 4, RED]]);
+    expect(pixels(packCells(source, [{ x: 0, y: 0, w: 4, h: 4 }], config))).toEqual(expected(4, 16, [
+      [0, 0, 1, 4, GREEN], [1, 0, 1, 4, BLUE],
+    ]));
+  });
+});
+
+describe('trimTransparent', () => {
+  it('returns the bounds of every non-transparent pixel', () => {
+    const surface = paint(8, 8, [[2, 1, 1, 1, RED], [5, 6, 2, 1, [0, 0, 255, 1]]]);
+    expect(trimTransparent(surface)).toEqual({ x: 2, y: 1, w: 5, h: 6 });
+  });
+
+  it('returns null for a fully transparent surface', () => {
+    expect(trimTransparent(createSurface(4, 4))).toBeNull();
+  });
+});
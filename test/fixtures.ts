@@ -0,0 +1,85 @@
+/**
+ * Builders for the pixel tests: small projects, layers, painted sheets and
+ * the RGBA buffers they should render to.
+ */
+
+import type { ProjectConfig } from '../src/types';
+import type { CompositeLayer } from '../src/compositing';
+import type { Surface } from '../src/surface';
+import { context2d, createSurface, readPixels } from '../src/surface';
+
+export type Rgba = [number, number, number, number];
+
+export const RED: Rgba = [255, 0, 0, 255];
+export const GREEN: Rgba = [0, 255, 0, 255];
+export const BLUE: Rgba = [0, 0, 255, 255];
+export const CLEAR: Rgba = [0, 0, 0, 0];
+
+/** A filled rectangle: x, y, w, h and its colour. */
+export type Fill = [number, number, number, number, Rgba];
+
+/** 4×4 frames, one two-frame animation, four directions, 2×4 cell sheets. */
+export function makeConfig(overrides: Partial<ProjectConfig> = {}): ProjectConfig {
+  return {
+    frameWidth: 4,
+    frameHeight: 4,
+    animations: [{ id: 'walk', name: 'walk', frameCount: 2 }],
+    directions: 4,
+    defaultInputLayout: { cols: 2, rows: 4 },
+    exportLayout: { cols: 2, rows: 4 },
+    ...overrides,
+  };
+}
+
+/** A surface with `fills` painted on an otherwise transparent background. */
+export function paint(width: number, height: number, fills: Fill[]): Surface {
+  const surface = createSurface(width, height);
+  const ctx = context2d(surface);
+  for (const [x, y, w, h, [r, g, b, a]] of fills) {
+    ctx.fillStyle = `rgba(${r}, ${g}, ${b}, ${a / 255})`;
+    ctx.fillRect(x, y, w, h);
+  }
+  return surface;
+}
+
+/** A visible, unshifted layer showing `image` through the project's default input layout. */
+export function makeLayer(image: Surface, config: ProjectConfig, overrides: Partial<CompositeLayer> = {}): CompositeLayer {
+  return {
+    id: crypto.randomUUID(),
+    name: 'layer',
+    type: 'Base',
+    visible: true,
+    opacity: 100,
+    hsl: { hue: 0, saturation: 0, lightness: 0 },
+    image,
+    objectUrl: null,
+    fileName: 'layer.png',
+    offsetX: 0,
+    offsetY: 0,
+    inputLayout: { ...config.defaultInputLayout },
+    ...overrides,
+  };
+}
+
+/** The pixels a width×height surface holds after painting `fills`, computed without a canvas. */
+export function expected(width: number, height: number, fills: Fill[]): number[] {
+  const data = new Array<number>(width * height * 4).fill(0);
+  for (const [x, y, w, h, colour] of fills) {
+    for (let py = Math.max(0, y); py < Math.min(height, y + h); py++) {
+      for (let px = Math.max(0, x); px < Math.min(width, x + w); px++) {
+        data.splice((py * width + px) * 4, 4, ...colour);
+      }
+    }
+  }
+  return data;
+}
+
+export function pixels(surface: Surface): number[] {
+  return Array.from(readPixels(surface).data);
+}
+
+export function pixelAt(surface: Surface, x: number, y: number): Rgba {
+  const { width, data } = readPixels(surface);
+  const i = (y * width + x) * 4;
+  return [data[i], data[i + 1], data[i + 2], data[i + 3]];
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { frameToSource } from '../src/pixelTools';
+import type { Layer, ProjectConfig } from '../src/types';
+import { createSurface } from '../src/surface';
+import { makeConfig, makeLayer } from './fixtures';
+
+// frameToSource never reads the image, so a bare layer will do
+function layer(config: ProjectConfig, overrides: Partial<Layer> = {}): Layer {
+  return { ...makeLayer(createSurface(8, 16), config), ...overrides, image: null };
+}
+
+describe('frameToSource', () => {
+  it('undoes the layer offset', () => {
+    const config = makeConfig();
+    const l = layer(config, { offsetX: 1 });
+    // Direction 1, frame 1: cell (4, 4)
+    expect(frameToSource(config, l, 0, 1, 1, 1, 0)).toEqual({ x: 4, y: 4 });
+    expect(frameToSource(config, l, 0, 1, 1, 0, 0)).toBeNull();
+  });
+
+  it('undoes the per-frame offset', () => {
+    const config = makeConfig();
+    const l = layer(config, { frameOffsets: [[{ x: 0, y: 0 }, { x: 0, y: 2 }]] });
+    expect(frameToSource(config, l, 0, 0, 1, 2, 2)).toEqual({ x: 6, y: 0 });
+    expect(frameToSource(config, l, 0, 0, 1, 2, 1)).toBeNull();
+  });
+
+  it('flips mirrored directions back to the cells they copy', () => {
+    // Left (row 1) is drawn from right (row 2)
+    const config = makeConfig({ mirrorSource: 'right' });
+    expect(frameToSource(config, layer(config), 0, 1, 0, 3, 0)).toEqual({ x: 0, y: 8 });
+    expect(frameToSource(config, layer(config, { offsetX: 1 }), 0, 1, 0, 2, 1)).toEqual({ x: 0, y: 9 });
+  });
+
+  it('maps only the part of the frame a small input cell holds', () => {
+    const config = makeConfig();
+    const l = layer(config, { inputLayout: { cols: 2, rows: 4, cellWidth: 2, cellHeight: 4 } });
+    // The 2-pixel cell holds frame columns 1 and 2
+    expect(frameToSource(config, l, 0, 0, 1, 1, 0)).toEqual({ x: 2, y: 0 });
+    expect(frameToSource(config, l, 0, 0, 1, 0, 0)).toBeNull();
+    expect(frameToSource(config, l, 0, 0, 1, 3, 0)).toBeNull();
+  });
+});
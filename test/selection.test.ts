@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { boxIsEmpty } from '../src/selection';
+import type { RgbaBuffer } from '../src/surface';
+
+/** A width×height buffer with the given pixels opaque. */
+function buffer(width: number, height: number, opaque: [number, number][]): RgbaBuffer {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (const [x, y] of opaque) data[(y * width + x) * 4 + 3] = 255;
+  return { width, height, data };
+}
+
+describe('boxIsEmpty', () => {
+  it('looks only at the pixels inside the box', () => {
+    const pixels = buffer(4, 4, [[2, 2]]);
+    expect(boxIsEmpty(pixels, { x: 0, y: 0, w: 2, h: 2 })).toBe(true);
+    expect(boxIsEmpty(pixels, { x: 2, y: 2, w: 2, h: 2 })).toBe(false);
+  });
+
+  it("doesn't wrap past the right edge into the next row", () => {
+    const pixels = buffer(4, 4, [[0, 1]]);
+    expect(boxIsEmpty(pixels, { x: 2, y: 0, w: 4, h: 1 })).toBe(true);
+  });
+
+  it('still finds opaque pixels in a box hanging off the bottom', () => {
+    const pixels = buffer(4, 4, [[1, 3]]);
+    expect(boxIsEmpty(pixels, { x: 0, y: 3, w: 2, h: 4 })).toBe(false);
+  });
+});
@@ -0,0 +1,6 @@
+// Render through @napi-rs/canvas, as the command-line renderer does. Its
+// canvases implement everything the pipeline calls on OffscreenCanvas.
+import { createCanvas } from '@napi-rs/canvas';
+import { setSurfaceFactory } from '../src/surface';
+
+setSurfaceFactory((width, height) => createCanvas(width, height) as unknown as OffscreenCanvas);
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { frameRect, mirroredFrom } from '../src/types';
+import { makeConfig } from './fixtures';
+
+describe('frameRect', () => {
+  it('is the whole cell when cells are the size of a frame', () => {
+    const config = makeConfig();
+    const layout = { cols: 2, rows: 4, margin: 1, spacing: 2 };
+    expect(frameRect(config, layout, 0, 1, 1)).toEqual({ sx: 7, sy: 7, sw: 4, sh: 4, dx: 0, dy: 0 });
+  });
+
+  it('centres the frame in larger cells', () => {
+    const config = makeConfig();
+    const layout = { cols: 2, rows: 4, margin: 1, spacing: 1, cellWidth: 6, cellHeight: 4 };
+    // Direction 1, frame 0: column 0, row 1
+    expect(frameRect(config, layout, 0, 1, 0)).toEqual({ sx: 2, sy: 6, sw: 4, sh: 4, dx: 0, dy: 0 });
+  });
+
+  it('keeps the middle of the frame in cells smaller than it', () => {
+    const config = makeConfig();
+    const layout = { cols: 2, rows: 4, cellWidth: 2, cellHeight: 3 };
+    expect(frameRect(config, layout, 0, 0, 1)).toEqual({ sx: 2, sy: 0, sw: 2, sh: 3, dx: 1, dy: 1 });
+  });
+});
+
+describe('mirroredFrom', () => {
+  it('maps generated directions to the ones they flip', () => {
+    const config = makeConfig({ mirrorSource: 'right' });
+    expect([0, 1, 2, 3].map(d => mirroredFrom(config, d))).toEqual([null, 2, null, null]);
+  });
+
+  it('covers the diagonals with eight directions', () => {
+    const config = makeConfig({ directions: 8, mirrorSource: 'left' });
+    // down-right ← down-left, right ← left, up-right ← up-left
+    expect([0, 1, 2, 3, 4, 5, 6, 7].map(d => mirroredFrom(config, d))).toEqual([null, null, null, null, null, 3, 2, 1]);
+  });
+
+  it('draws every direction from its own cells without a mirror source', () => {
+    const config = makeConfig();
+    expect([0, 1, 2, 3].map(d => mirroredFrom(config, d))).toEqual([null, null, null, null]);
+  });
+});
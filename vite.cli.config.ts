@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite'
+
+// Bundles the command-line renderer (cli/render.ts) for Node.
+// gifenc and file-saver only ship browser-friendly builds, so they are
+// bundled in; everything else loads from node_modules at run time.
+export default defineConfig({
+  build: {
+    ssr: 'cli/render.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    emptyOutDir: true,
+  },
+  ssr: {
+    noExternal: ['gifenc', 'file-saver'],
+  },
+})
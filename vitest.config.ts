@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config'
+
+// Pixel tests for the rendering pipeline. They run in Node with
+// @napi-rs/canvas plugged in as the surface factory (test/setup.ts).
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    environment: 'node',
+    setupFiles: ['test/setup.ts'],
+  },
+})